@@ -1,11 +1,22 @@
-import { useState, useEffect, useMemo, useRef } from 'react'
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react'
 import { FocusSessionTimer } from './components/FocusSessionTimer'
 import { DeepFocusInput } from './components/DeepFocusInput'
 import { SessionSummaryPanel } from './components/SessionSummaryPanel'
+import { SessionRecoveryPrompt } from './components/SessionRecoveryPrompt'
+import { PlannerPanel } from './components/PlannerPanel'
+import { MeetingOverlapWarning } from './components/MeetingOverlapWarning'
 import { SessionHistory } from './components/SessionHistory'
+import { HistoryTransfer } from './components/HistoryTransfer'
+import { HistoryItemEditor } from './components/HistoryItemEditor'
+import { HistoryFilterBar } from './components/HistoryFilterBar'
+import { useHistoryFilter } from './hooks/useHistoryFilter'
+import { useHistoryGroups } from './hooks/useHistoryGroups'
+import { filterHistory, isHistoryFilterActive } from './utils/historyFilter'
 import { useFocusBoosterStore } from './store/focusBoosterSlice'
 import { DistractionButton } from './components/DistractionButton'
+import { DistractionCategoryPicker } from './components/DistractionCategoryPicker'
 import { DarkModeToggle } from './components/DarkModeToggle'
+import { BackupRestore } from './components/BackupRestore'
 import { TimerProgressBar } from './components/TimerProgressBar'
 import { useTimerHook, useTimerStore } from './store/timerSlice'
 import { msToClock, formatTotalDuration } from './utils/time'
@@ -14,10 +25,12 @@ import { MissionBoard } from './components/MissionBoard'
 import { GoalPanel } from './components/GoalPanel'
 import { PostureView } from './components/PostureView'
 import DeckB from './components/DeckB'
+import DailyStreakBadge from './components/DailyStreakBadge'
+import ProjectPanel from './components/ProjectPanel'
 import { Toast } from './components/Toast'
 import { useSound } from './features/audio/useSound'
 import { MusicPlayer } from './features/audio/MusicPlayer'
-import { useHistoryStore, SessionData, BreakData, HistoryItem } from './store/historySlice'
+import { useHistoryStore, HistoryItem } from './store/historySlice'
 import { useWarpStore } from './store/warpSlice'
 import { StarfieldCanvas as LegacyStarfieldCanvas } from './components/starfield/StarfieldCanvas'
 import { StarfieldControls } from './components/starfield/StarfieldControls'
@@ -26,23 +39,19 @@ import { useInlineMinimize } from './hooks/useInlineMinimize'
 import { useInlineMinimizeSnapshot } from './hooks/useInlineMinimize'
 import { FocusBooster } from './components/focusBooster/FocusBooster'
 import { FortyHzButton } from '@/components/FortyHzButton'
+import { setNotificationSound } from './utils/notifications'
 import { 
   SOUND_FILES, 
   WARP_MODE, 
   BAD_POSTURE_TIME_THRESHOLD_MS,
   ELEMENT_IDS,
   CSS_CLASSES,
-  SESSION_TYPE,
   // LIGHT_SPEED_EXPERIMENT: flag controls exposure of LIGHT_SPEED mode
   EXPERIMENT_LIGHT_SPEED
 } from './constants'
 
  
 
-// Type guards for history items
-const isSessionData = (item: HistoryItem): item is SessionData => item.type === SESSION_TYPE.FOCUS;
-const isBreakData = (item: HistoryItem): item is BreakData => item.type === SESSION_TYPE.BREAK;
-
 function App() {
   // Mount snapshot handler to support capture/restore of inline-collapsible panels
   useInlineMinimizeSnapshot();
@@ -52,6 +61,13 @@ function App() {
   const playDoneSound = useSound(SOUND_FILES.DONE);
   const playCancelSound = useSound(SOUND_FILES.CANCEL);
   const playDistractionSound = useSound(SOUND_FILES.DISTRACTION);
+  const playMilestoneSound = useSound(SOUND_FILES.CHECK);
+
+  // Timer notifications in a hidden tab play the done sound
+  useEffect(() => {
+    setNotificationSound(playDoneSound);
+    return () => setNotificationSound(null);
+  }, [playDoneSound]);
   
   // Initialize the timer effects
   useTimerHook();
@@ -63,6 +79,10 @@ function App() {
     currentGoal,
     distractionCount,
     remainingTime,
+    elapsedTime,
+    isInfinite,
+    isOvertime,
+    overtimeMs,
     addDistraction
   } = useTimerStore();
   
@@ -73,12 +93,18 @@ function App() {
   // Update browser tab title (throttled to minute granularity)
   useEffect(() => {
     const base = 'FLOWSHIP.';
-    const mins = Math.max(0, Math.floor((remainingTime ?? 0) / 60000));
-    const sig = `${mins}|${isSessionActive ? 1 : 0}`;
+    const isCountingUp = isInfinite || isOvertime;
+    const shownMs = isInfinite ? elapsedTime : isOvertime ? overtimeMs : remainingTime;
+    const mins = Math.max(0, Math.floor((shownMs ?? 0) / 60000));
+    const sig = `${mins}|${isSessionActive ? 1 : 0}|${isCountingUp ? 1 : 0}`;
     if (sig === lastTitleSigRef.current) return;
     lastTitleSigRef.current = sig;
 
-    if (isSessionActive && remainingTime > 0) {
+    if (isSessionActive && isCountingUp) {
+      // Count-up sessions and overtime show elapsed time
+      document.title = `+${String(mins).padStart(2, '0')}:${'00'} - ${base}`;
+      if (DEV) console.debug('[App] Throttled tab title update:', document.title);
+    } else if (isSessionActive && remainingTime > 0) {
       // Keep formatting consistent, but throttle to once per minute
       document.title = `${String(mins).padStart(2, '0')}:${'00'} - ${base}`;
       if (DEV) console.debug('[App] Throttled tab title update:', document.title);
@@ -86,11 +112,13 @@ function App() {
       document.title = base;
       if (DEV) console.debug('[App] Reset tab title to default');
     }
+  }, [remainingTime, elapsedTime, overtimeMs, isInfinite, isOvertime, isSessionActive]);
 
-    return () => {
-      document.title = base;
-    };
-  }, [remainingTime, isSessionActive]);
+  // Restore the default title on unmount only; the effect above skips unchanged minutes
+  useEffect(() => () => {
+    document.title = 'FLOWSHIP.';
+    lastTitleSigRef.current = '';
+  }, []);
   
   // Get history state from store
   const {
@@ -101,9 +129,19 @@ function App() {
     setTotalStreakSessions,
     setShowSummary,
     updateSessionItem,
+    addSessionDistraction,
     updateBreakNote,
-    clearHistory
+    clearHistory,
+    deleteHistoryItem,
+    mergeSessions,
+    undoStack,
+    undoHistoryEdit
   } = useHistoryStore();
+
+  // Manual history editing: edit mode, and the entry open in the editor (null = new session)
+  const [isEditingHistory, setIsEditingHistory] = useState(false);
+  const [editingItem, setEditingItem] = useState<HistoryItem | null | undefined>(undefined);
+  const lastUndo = undoStack[undoStack.length - 1];
   
   // Get warp state from store
   const warpMode = useWarpStore((state) => state.warpMode);
@@ -129,6 +167,10 @@ function App() {
   // Toast state
   const [toast, setToast] = useState({ show: false, message: '' });
   
+  // Category picker shown right after a distraction is logged
+  const [isDistractionPickerOpen, setIsDistractionPickerOpen] = useState(false);
+  const closeDistractionPicker = useCallback(() => setIsDistractionPickerOpen(false), []);
+  
   // Posture tracking state
   const [postureStatus, setPostureStatus] = useState<boolean>(true);
   const [badPostureStartTime, setBadPostureStartTime] = useState<number | null>(null);
@@ -221,17 +263,17 @@ function App() {
   }, [warpMode, isSessionActive, isPaused]);
   
   // Show toast message
-  const showToast = (message: string) => {
+  const showToast = useCallback((message: string) => {
     setToast({ show: true, message });
     setTimeout(() => setToast({ show: false, message: '' }), 3000);
-  };
+  }, []);
   
   // Handle warp distraction
   const handleWarpDistraction = () => {
     if (isSessionActive && !isPaused) {
       addDistraction();
       playDistractionSound();
-      showToast("Distraction logged!");
+      setIsDistractionPickerOpen(true);
     }
   };
   
@@ -252,20 +294,21 @@ function App() {
     if (isSessionActive && !isPaused) {
       addDistraction();
       playDistractionSound();
-      showToast("Distraction logged!");
+      setIsDistractionPickerOpen(true);
     }
   };
   
   // Keep the handler for updating break notes - use historySlice
-  const handleBreakNoteChange = (breakId: string, note: string) => {
+  // Stable handlers let Session History skip re-rendering on timer ticks
+  const handleBreakNoteChange = useCallback((breakId: string, note: string) => {
     updateBreakNote(breakId, note);
-  };
+  }, [updateBreakNote]);
 
   // Keep handler for break note saving with Enter key
-  const handleBreakNoteSave = (breakId: string, note: string) => {
-    handleBreakNoteChange(breakId, note);
+  const handleBreakNoteSave = useCallback((breakId: string, note: string) => {
+    updateBreakNote(breakId, note);
     showToast("Saved! Keep grinding.");
-  };
+  }, [updateBreakNote, showToast]);
 
   // Keep handler for clearing all history
   const handleClearHistory = () => {
@@ -276,13 +319,10 @@ function App() {
   };
 
   // Handle summary panel close with saved comment
-  const handleSummaryClose = () => {
+  const handleSummaryClose = (comment: string) => {
     if (lastSession) {
-      // Update the session in history with the comment and distractions count
-      updateSessionItem(lastSession.id, {
-        comment: lastSession.comment,
-        distractions: lastSession.distractions
-      });
+      // Distractions are saved as they are added; the comment is saved on close
+      updateSessionItem(lastSession.id, { comment });
       
       // Show appropriate toast message
       showToast("Session saved!");
@@ -294,25 +334,14 @@ function App() {
     setShowSummary(false);
   };
   
-  // Calculate total focus time
-  const totalFocusTimeMs = useMemo(() => {
-    return history.reduce((total, item) => {
-      if (isSessionData(item)) {
-        return total + item.duration;
-      }
-      return total;
-    }, 0);
-  }, [history]);
-  
-  // Calculate total break time
-  const totalBreakTimeMs = useMemo(() => {
-    return history.reduce((total, item) => {
-      if (isBreakData(item) && item.end !== null) {
-        return total + item.durationMs;
-      }
-      return total;
-    }, 0);
-  }, [history]);
+  // Session History search and filters (mirrored in the URL hash)
+  const { filter: historyFilter, updateFilter: updateHistoryFilter, clearFilter: clearHistoryFilter } = useHistoryFilter();
+  const filteredHistory = useMemo(() => filterHistory(history, historyFilter), [history, historyFilter]);
+
+  // Day groups and totals of the filtered entries, recomputed only when they change
+  const { groups: historyGroups, totals: historyTotals } = useHistoryGroups(filteredHistory);
+  const totalFocusTimeMs = historyTotals.focusMs;
+  const totalBreakTimeMs = historyTotals.breakMs;
   
   // Get hero glow intensity class based on total streak sessions
   const getHeroGlowClass = () => {
@@ -371,6 +400,7 @@ return (
         
         {/* DarkModeToggle (hide only in FULL overlay; show in BACKGROUND and LIGHT_SPEED) */}
         {(warpMode !== WARP_MODE.FULL) && <DarkModeToggle />}
+        {(warpMode !== WARP_MODE.FULL) && <BackupRestore />}
 
         
 
@@ -379,6 +409,13 @@ return (
           {/* Left Column: The components inside here MUST have their own opaque backgrounds. */}
           <aside className="self-start flex flex-col gap-6">
             <MissionBoard />
+            <PlannerPanel
+              onReminder={(block) => {
+                playMilestoneSound();
+                showToast(`Planned block due: ${block.goal}`);
+              }}
+              onBlockStart={playStartSound}
+            />
             <SystemLog />
           </aside>
           
@@ -391,6 +428,8 @@ return (
               <div className="absolute -top-16 md:-top-20 left-1/2 -translate-x-1/2 pointer-events-none">
                 <h1 className="text-4xl font-bold tracking-tight" style={{ color: 'white', textShadow: '0 0 1px white', letterSpacing: '-0.05em', WebkitTextStroke: '1px white' }}>FLOWSHIP.</h1>
               </div>
+              {/* Daily streak badge */}
+              <DailyStreakBadge className="absolute top-0 left-0 z-20" />
               {/* Streak badge */}
               {totalStreakSessions > 0 && (
                 <div 
@@ -407,6 +446,7 @@ return (
                   <DeepFocusInput 
                     onStartSession={playStartSound}
                   />
+                  <MeetingOverlapWarning className="mt-1" />
                 </div>
                 {/* Timer Controls with Focus Booster */}
                 <div className="flex items-center gap-3">
@@ -416,6 +456,7 @@ return (
                       onPause={playPauseSound}
                       onResume={playStartSound}
                       onTimerEnd={playDoneSound}
+                      onMilestone={playMilestoneSound}
                       isCompact={true}
                     />
                   </div>
@@ -458,9 +499,11 @@ return (
 
                   <div className="flex justify-around items-center space-x-6">
                     <div className="text-center">
-                      <span className="text-deep-purple-600 dark:text-purple-300 text-sm">Time Remaining</span>
+                      <span className="text-deep-purple-600 dark:text-purple-300 text-sm">
+                        {isInfinite ? 'Elapsed' : isOvertime ? 'Overtime' : 'Time Remaining'}
+                      </span>
                       <div className="text-2xl font-bold text-deep-purple-800 dark:text-purple-200">
-                        {msToClock(remainingTime)}
+                        {isInfinite ? msToClock(elapsedTime) : isOvertime ? `+${msToClock(overtimeMs)}` : msToClock(remainingTime)}
                       </div>
                     </div>
                     <div className="text-center">
@@ -479,8 +522,8 @@ return (
             {/* Mission Goal Section */}
             <InlineCollapsibleCard
               id="goal"
-              title="Mission Goal"
-              subtitle={<span className="opacity-70">Define your mission and track progress</span>}
+              title="Mission Goals"
+              subtitle={<span className="opacity-70">Define your missions; linked sessions track progress</span>}
               collapsed={goalCollapsed}
               onToggleCollapse={goalToggle}
               className="p-0"
@@ -497,20 +540,63 @@ return (
               collapsed={shCollapsed}
               onToggleCollapse={shToggle}
               headerRight={
-                history.length > 0 ? (
+                <div className="flex items-center gap-1">
+                  {lastUndo && (
+                    <button
+                      onClick={undoHistoryEdit}
+                      className="h-7 px-2 rounded-md text-xs bg-white/40 dark:bg-gray-700/60 hover:bg-white/60 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-violet-500 text-gray-800 dark:text-gray-200"
+                      title={`Undo: ${lastUndo.label}`}
+                      aria-label={`Undo ${lastUndo.label}`}
+                    >
+                      ↶
+                    </button>
+                  )}
                   <button
-                    onClick={handleClearHistory}
+                    onClick={() => setEditingItem(null)}
                     className="h-7 px-2 rounded-md text-xs bg-white/40 dark:bg-gray-700/60 hover:bg-white/60 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-violet-500 text-gray-800 dark:text-gray-200"
-                    title="Clear all history and notes"
-                    aria-label="Clear all history"
+                    title="Log a session done away from the app"
+                    aria-label="Log a session"
                   >
-                    🧹
+                    ＋
                   </button>
-                ) : null
+                  {history.length > 0 && (
+                    <button
+                      onClick={() => setIsEditingHistory(editing => !editing)}
+                      className={`h-7 px-2 rounded-md text-xs focus:outline-none focus:ring-2 focus:ring-violet-500 ${isEditingHistory
+                        ? 'bg-violet-600 text-white'
+                        : 'bg-white/40 dark:bg-gray-700/60 hover:bg-white/60 dark:hover:bg-gray-700 text-gray-800 dark:text-gray-200'}`}
+                      title="Edit, merge or delete entries"
+                      aria-pressed={isEditingHistory}
+                    >
+                      ✏️
+                    </button>
+                  )}
+                  <HistoryTransfer onImported={(count) => showToast(`Imported ${count} entries`)} />
+                  {history.length > 0 && (
+                    <button
+                      onClick={handleClearHistory}
+                      className="h-7 px-2 rounded-md text-xs bg-white/40 dark:bg-gray-700/60 hover:bg-white/60 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-violet-500 text-gray-800 dark:text-gray-200"
+                      title="Clear all history and notes"
+                      aria-label="Clear all history"
+                    >
+                      🧹
+                    </button>
+                  )}
+                </div>
               }
               className="panel-static p-0"
               contentClassName="p-6"
             >
+              {history.length > 0 && (
+                <HistoryFilterBar
+                  filter={historyFilter}
+                  onChange={updateHistoryFilter}
+                  onClear={clearHistoryFilter}
+                  matchCount={filteredHistory.length}
+                  totalCount={history.length}
+                />
+              )}
+
               {/* Totals Section - Redesigned to keep box shape with underlying bar */}
               <div className="grid grid-cols-2 gap-3 bg-gray-50 dark:bg-gray-700/50 p-3 rounded-lg mb-4">
                 <div className="text-center p-2 bg-white dark:bg-gray-800 rounded shadow-sm relative overflow-hidden">
@@ -542,13 +628,24 @@ return (
               </div>
               
               <SessionHistory 
-                history={history}
+                groups={historyGroups}
+                fullHistory={history}
+                emptyMessage={isHistoryFilterActive(historyFilter) && history.length > 0 ? 'No entries match these filters.' : undefined}
                 onBreakNoteChange={handleBreakNoteChange}
                 onBreakNoteSave={handleBreakNoteSave}
+                isEditing={isEditingHistory}
+                onEditItem={setEditingItem}
+                onDeleteItem={deleteHistoryItem}
+                onMergeSessions={mergeSessions}
               /> 
+              {editingItem !== undefined && (
+                <HistoryItemEditor item={editingItem} onClose={() => setEditingItem(undefined)} />
+              )}
 
 
             </InlineCollapsibleCard>
+            {/* Projects Section */}
+            <ProjectPanel />
             {/* Deck B Section */}
             <DeckB />
           </div>
@@ -598,10 +695,20 @@ return (
           sessionData={lastSession}
           streakCount={totalStreakSessions}
           onClose={handleSummaryClose}
+          onAddDistraction={() => addSessionDistraction(lastSession.id)}
           onStreakEnded={() => setTotalStreakSessions(0)}
         />
       )}
       
+      {/* Recovery prompt for a session restored after reload */}
+      <SessionRecoveryPrompt />
+      
+      {/* Categorize the distraction just logged */}
+      <DistractionCategoryPicker
+        isOpen={isDistractionPickerOpen && isSessionActive}
+        onClose={closeDistractionPicker}
+      />
+      
       {/* Toast */}
       <Toast 
         message={toast.message}
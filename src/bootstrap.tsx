@@ -0,0 +1,32 @@
+import React from 'react'
+import ReactDOM from 'react-dom/client'
+import App from './App'
+import { PostureProvider } from './context/PostureContext'
+import { AudioProvider } from './features/audio/AudioProvider'
+import { initTabSync } from './store/tabSync'
+
+// Loaded by main.tsx once persisted state is in memory, so every store
+// created by these imports hydrates from it
+
+// Elect one timer leader across open tabs
+initTabSync()
+
+const isDev = import.meta.env.DEV
+
+const Root = (
+  <PostureProvider>
+    <AudioProvider>
+      <App />
+    </AudioProvider>
+  </PostureProvider>
+)
+
+ReactDOM.createRoot(document.getElementById('root')!).render(
+  isDev ? (
+    // Development: render without StrictMode to avoid double mount
+    Root
+  ) : (
+    // Production: keep StrictMode for safety
+    <React.StrictMode>{Root}</React.StrictMode>
+  )
+)
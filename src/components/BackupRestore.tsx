@@ -0,0 +1,185 @@
+import { useRef, useState } from 'react';
+import { useTimerStore } from '../store/timerSlice';
+import { reloadAllTabs } from '../store/tabSync';
+import { flushStorage } from '../lib/persistStorage';
+import {
+  createBackup,
+  parseBackup,
+  diffBackup,
+  restoreBackup,
+  BackupBundle,
+  BackupSectionDiff,
+  BackupSectionStatus
+} from '../utils/backup';
+import { downloadFile, fileDateStamp } from '../utils/download';
+
+const STATUS_LABELS: Record<BackupSectionStatus, string> = {
+  added: 'Not set here',
+  changed: 'Changed',
+  unchanged: 'Same',
+  removed: 'Not in backup',
+};
+
+const STATUS_CLASSES: Record<BackupSectionStatus, string> = {
+  added: 'text-emerald-600 dark:text-emerald-400',
+  changed: 'text-amber-600 dark:text-amber-400',
+  unchanged: 'text-gray-400 dark:text-gray-500',
+  removed: 'text-red-600 dark:text-red-400',
+};
+
+/**
+ * BackupRestore
+ * Download a backup of the whole app, or restore one. A restore first shows
+ * what each section would change; everything or only the picked sections can
+ * be restored, after which the app reloads in every open tab.
+ */
+export const BackupRestore = () => {
+  const isSessionActive = useTimerStore(state => state.isSessionActive);
+  const [isOpen, setIsOpen] = useState(false);
+  const [pending, setPending] = useState<{ bundle: BackupBundle; diff: BackupSectionDiff[] } | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(() => new Set());
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleDownload = () => {
+    const bundle = createBackup();
+    downloadFile(JSON.stringify(bundle, null, 2), `flowship-backup-${fileDateStamp()}.json`, 'application/json');
+    console.log(`[Backup] Exported ${Object.keys(bundle.sections).length} sections`);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const bundle = parseBackup(await file.text());
+      const diff = diffBackup(bundle);
+      setPending({ bundle, diff });
+      // Sections with something to restore start selected
+      setSelected(new Set(diff.filter(section => section.status === 'changed' || section.status === 'added').map(section => section.id)));
+      setError(null);
+      setIsOpen(false);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleRestore = async (sectionIds: string[]) => {
+    if (!pending || isSessionActive) return;
+    restoreBackup(pending.bundle, sectionIds);
+    await flushStorage();
+    // Other tabs still hold the old stores and would write them back
+    reloadAllTabs();
+  };
+
+  const toggleSection = (id: string) => {
+    setSelected(current => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  return (
+    <div className="fixed top-4 right-16 z-30">
+      <button
+        type="button"
+        onClick={() => setIsOpen(o => !o)}
+        className="p-2 rounded-lg bg-blue-100 text-gray-800 hover:bg-blue-200 dark:bg-gray-800 dark:text-gray-200 dark:hover:bg-gray-700 transition-all duration-300 ease-in-out hover:scale-110"
+        title="Back up or restore all data"
+        aria-expanded={isOpen}
+      >
+        <span className="block w-6 h-6 leading-6 text-center">💾</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-12 w-60 p-3 rounded-lg shadow-xl bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200 text-xs space-y-2">
+          <div className="font-semibold">Backup</div>
+          <p className="text-gray-500 dark:text-gray-400">History, goals, todos, notes, settings and panel layout in one file.</p>
+          <button
+            type="button"
+            onClick={handleDownload}
+            className="w-full px-2 py-1 rounded bg-violet-600 text-white hover:bg-violet-700"
+          >
+            Download backup
+          </button>
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="w-full px-2 py-1 rounded bg-white/40 dark:bg-gray-700/60 hover:bg-white/60 dark:hover:bg-gray-700"
+          >
+            Restore from file…
+          </button>
+          {error && <div className="text-red-600 dark:text-red-400">{error}</div>}
+        </div>
+      )}
+      <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+
+      {pending && (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+          <div className="bg-white dark:bg-gray-800 text-gray-900 dark:text-white rounded-lg shadow-xl p-6 max-w-lg w-full mx-4 text-sm">
+            <h2 className="text-lg font-semibold mb-1">Restore backup</h2>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+              Saved {new Date(pending.bundle.createdAt).toLocaleString()} · restored sections replace what is stored now
+            </p>
+
+            <ul className="max-h-[50vh] overflow-y-auto space-y-1.5 mb-4">
+              {pending.diff.map(section => (
+                <li key={section.id}>
+                  <label className="flex items-start gap-2">
+                    <input
+                      type="checkbox"
+                      className="mt-0.5"
+                      checked={selected.has(section.id)}
+                      disabled={section.status === 'unchanged'}
+                      onChange={() => toggleSection(section.id)}
+                    />
+                    <span className="flex-1 min-w-0">
+                      <span className="flex justify-between gap-2">
+                        <span className="font-medium">{section.label}</span>
+                        <span className={`text-xs ${STATUS_CLASSES[section.status]}`}>{STATUS_LABELS[section.status]}</span>
+                      </span>
+                      {section.details.length > 0 && (
+                        <span className="block text-xs text-gray-500 dark:text-gray-400">{section.details.join(' · ')}</span>
+                      )}
+                    </span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+
+            {isSessionActive && (
+              <div className="mb-3 text-xs text-amber-600 dark:text-amber-400">Finish or stop the current session before restoring.</div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <button type="button" onClick={() => setPending(null)} className="px-3 py-1.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700">
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={() => handleRestore([...selected])}
+                disabled={isSessionActive || selected.size === 0}
+                className="px-3 py-1.5 rounded bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-40"
+              >
+                Restore selected
+              </button>
+              <button
+                type="button"
+                onClick={() => handleRestore(pending.diff.map(section => section.id))}
+                disabled={isSessionActive}
+                className="px-3 py-1.5 rounded bg-violet-600 text-white hover:bg-violet-700 disabled:opacity-40"
+                title="Replace everything with the backup; sections not in it are reset"
+              >
+                Replace all
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BackupRestore;
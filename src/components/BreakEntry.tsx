@@ -1,6 +1,13 @@
 import { useState, useEffect, useRef } from 'react';
 import { msToClock } from '../utils/time';
-import { TIMER_UPDATE_INTERVAL_MS } from '../constants';
+import { TIMER_UPDATE_INTERVAL_MS, BREAK_OUTCOME } from '../constants';
+import type { BreakOutcome } from '../store/historySlice';
+
+const OUTCOME_LABELS: Record<BreakOutcome, string> = {
+  [BREAK_OUTCOME.ON_TIME]: 'on time',
+  [BREAK_OUTCOME.CUT_SHORT]: 'cut short',
+  [BREAK_OUTCOME.OVERRUN]: 'overrun'
+};
 
 interface BreakEntryProps {
   breakStartTime: number; // When the previous session ended
@@ -9,6 +16,9 @@ interface BreakEntryProps {
   onNoteChange: (note: string) => void;
   onNoteSave: (note: string) => void;
   isActive: boolean;     // Whether this is the current active break
+  plannedDurationMs?: number; // Planned length for Pomodoro cycle breaks
+  isLongBreak?: boolean;
+  outcome?: BreakOutcome;
 }
 
 export const BreakEntry = ({ 
@@ -17,7 +27,10 @@ export const BreakEntry = ({
   note, 
   onNoteChange, 
   onNoteSave,
-  isActive 
+  isActive,
+  plannedDurationMs,
+  isLongBreak,
+  outcome
 }: BreakEntryProps) => {
   const [elapsedTime, setElapsedTime] = useState<number>(0);
   const inputRef = useRef<HTMLInputElement>(null);
@@ -64,7 +77,14 @@ export const BreakEntry = ({
     <div className="bg-gray-100 dark:bg-gray-700 rounded p-2 text-xs flex items-center space-x-3">
       {/* Break duration */}
       <span className="text-gray-500 dark:text-gray-400 flex-shrink-0 italic">
-        ⏱ {msToClock(elapsedTime)} break
+        ⏱ {msToClock(elapsedTime)}
+        {plannedDurationMs !== undefined && ` / ${msToClock(plannedDurationMs)}`}
+        {isLongBreak ? ' long' : ''} break
+        {outcome && (
+          <span className={`ml-1 not-italic ${outcome === BREAK_OUTCOME.ON_TIME ? 'text-green-600 dark:text-green-400' : 'text-orange-600 dark:text-orange-400'}`}>
+            ({OUTCOME_LABELS[outcome]})
+          </span>
+        )}
       </span>
       {/* Note input - takes remaining space */}
       <input
@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import { useTimerStore, CycleConfig } from '../store/timerSlice';
+
+interface CycleSettingsProps {
+  className?: string;
+}
+
+type NumericCycleKey = 'focusMinutes' | 'shortBreakMinutes' | 'longBreakMinutes' | 'cyclesBeforeLongBreak';
+
+const NUMERIC_FIELDS: { key: NumericCycleKey; label: string }[] = [
+  { key: 'focusMinutes', label: 'Focus (min)' },
+  { key: 'shortBreakMinutes', label: 'Short break (min)' },
+  { key: 'longBreakMinutes', label: 'Long break (min)' },
+  { key: 'cyclesBeforeLongBreak', label: 'Long break every' },
+];
+
+/**
+ * CycleSettings
+ * Toggle for Pomodoro cycle mode plus a compact popover to tune cycle lengths
+ * and auto-start behaviour.
+ */
+export const CycleSettings = ({ className = '' }: CycleSettingsProps) => {
+  const {
+    cycleMode,
+    cycleConfig,
+    isSessionActive,
+    setCycleMode,
+    updateCycleConfig,
+    resetCycles
+  } = useTimerStore();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleNumberChange = (key: NumericCycleKey, value: string) => {
+    const num = parseInt(value, 10);
+    if (!isNaN(num)) updateCycleConfig({ [key]: num } as Partial<CycleConfig>);
+  };
+
+  return (
+    <div className={`relative ${className}`}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(o => !o)}
+        className={`h-8 px-2 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-violet-500 ${
+          cycleMode
+            ? 'text-white bg-violet-600'
+            : 'text-gray-800 dark:text-gray-200 bg-white/40 dark:bg-gray-700/60 hover:bg-white/60 dark:hover:bg-gray-700'
+        }`}
+        title="Pomodoro cycles"
+        aria-expanded={isOpen}
+      >
+        🍅
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-10 z-30 w-60 p-3 rounded-lg shadow-xl bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200 text-xs space-y-2">
+          <label className="flex items-center justify-between gap-2 font-semibold">
+            <span>Cycle mode</span>
+            <input
+              type="checkbox"
+              checked={cycleMode}
+              disabled={isSessionActive}
+              onChange={(e) => setCycleMode(e.target.checked)}
+            />
+          </label>
+
+          {NUMERIC_FIELDS.map(({ key, label }) => (
+            <label key={key} className="flex items-center justify-between gap-2">
+              <span>{label}</span>
+              <input
+                type="number"
+                min={1}
+                value={cycleConfig[key]}
+                onChange={(e) => handleNumberChange(key, e.target.value)}
+                className="w-16 px-2 py-1 border rounded dark:bg-gray-700 dark:border-gray-600"
+              />
+            </label>
+          ))}
+
+          <label className="flex items-center justify-between gap-2">
+            <span>Auto-start breaks</span>
+            <input
+              type="checkbox"
+              checked={cycleConfig.autoStartBreaks}
+              onChange={(e) => updateCycleConfig({ autoStartBreaks: e.target.checked })}
+            />
+          </label>
+          <label className="flex items-center justify-between gap-2">
+            <span>Auto-start focus</span>
+            <input
+              type="checkbox"
+              checked={cycleConfig.autoStartFocus}
+              onChange={(e) => updateCycleConfig({ autoStartFocus: e.target.checked })}
+            />
+          </label>
+
+          <div className="flex justify-end pt-1">
+            <button
+              type="button"
+              onClick={() => resetCycles()}
+              className="px-2 py-1 rounded-md bg-white/40 dark:bg-gray-700/60 hover:bg-white/60 dark:hover:bg-gray-700"
+            >
+              Reset counter
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,157 @@
+import { useMemo, useState } from 'react';
+import { useHistoryStore } from '../store/historySlice';
+import { useStreakStore } from '../store/streakSlice';
+import { getDailyStreak } from '../utils/streaks';
+import { getSystemTimeZone } from '../utils/stats';
+import { WEEKDAY_LABELS, DAILY_STREAK_FREEZE_EARN_DAYS } from '../constants';
+
+interface DailyStreakBadgeProps {
+  className?: string;
+}
+
+const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat(undefined, { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * DailyStreakBadge
+ * Consecutive days meeting the daily focus minimum, with a popover for the
+ * minimum, rest days, freeze tokens and the time zone days are counted in.
+ */
+export const DailyStreakBadge = ({ className = '' }: DailyStreakBadgeProps) => {
+  const history = useHistoryStore(state => state.history);
+  const {
+    minFocusMinutes,
+    restDays,
+    useFreezeTokens,
+    timeZone,
+    setMinFocusMinutes,
+    toggleRestDay,
+    setUseFreezeTokens,
+    setTimeZone
+  } = useStreakStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [timeZoneDraft, setTimeZoneDraft] = useState(timeZone ?? '');
+
+  const streak = useMemo(() => getDailyStreak(history, {
+    minFocusMinutes,
+    restDays,
+    useFreezeTokens,
+    timeZone: timeZone ?? undefined,
+  }), [history, minFocusMinutes, restDays, useFreezeTokens, timeZone]);
+
+  const commitTimeZone = () => {
+    const value = timeZoneDraft.trim();
+    if (!value) {
+      setTimeZone(null);
+    } else if (isValidTimeZone(value)) {
+      setTimeZone(value);
+    } else {
+      setTimeZoneDraft(timeZone ?? '');
+    }
+  };
+
+  const status = streak.todayMet
+    ? 'Today counts'
+    : streak.isRestDay
+      ? 'Rest day'
+      : `${streak.todayMinutes}/${minFocusMinutes} min today`;
+
+  return (
+    <div className={`relative ${className}`}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(o => !o)}
+        className={`text-white text-[11px] font-semibold px-2.5 py-1 rounded-br-lg rounded-tl-2xl shadow-[0_0_12px_rgba(16,185,129,0.45)] ring-1 ring-emerald-300/60 backdrop-blur-sm bg-gradient-to-br from-emerald-500 via-teal-500 to-cyan-600 ${streak.todayMet ? '' : 'opacity-80'}`}
+        title={`Daily streak: ${streak.current} days (best ${streak.longest}). ${status}`}
+        aria-expanded={isOpen}
+      >
+        📅 {streak.current}d{streak.freezeTokens > 0 && <span className="ml-1">🧊{streak.freezeTokens}</span>}
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-8 z-30 w-64 p-3 rounded-lg shadow-xl bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200 text-xs space-y-2">
+          <div className="flex justify-between">
+            <span className="font-semibold">Daily streak</span>
+            <span className="opacity-70">{status}</span>
+          </div>
+          <div className="grid grid-cols-2 gap-2 text-center">
+            <div className="p-1.5 rounded bg-gray-100 dark:bg-gray-700/50">
+              <div className="opacity-70">Current</div>
+              <div className="text-sm font-semibold">{streak.current} days</div>
+            </div>
+            <div className="p-1.5 rounded bg-gray-100 dark:bg-gray-700/50">
+              <div className="opacity-70">Longest</div>
+              <div className="text-sm font-semibold">{streak.longest} days</div>
+            </div>
+          </div>
+          {streak.abandonedToday > 0 && (
+            <div className="text-amber-600 dark:text-amber-400">
+              {streak.abandonedToday} abandoned today · not counted towards the minimum
+            </div>
+          )}
+
+          <label className="flex items-center justify-between gap-2">
+            <span>Minimum focus per day</span>
+            <span>
+              <input
+                type="number"
+                min={1}
+                value={minFocusMinutes}
+                onChange={e => setMinFocusMinutes(Number(e.target.value) || 1)}
+                className="w-14 px-1 py-0.5 rounded border border-gray-300 dark:border-gray-600 bg-transparent text-right"
+              /> min
+            </span>
+          </label>
+
+          <div>
+            <div className="mb-1">Rest days</div>
+            <div className="flex gap-1">
+              {WEEKDAY_LABELS.map((label, weekday) => (
+                <button
+                  key={label}
+                  type="button"
+                  onClick={() => toggleRestDay(weekday)}
+                  className={`flex-1 py-0.5 rounded ${restDays.includes(weekday)
+                    ? 'bg-emerald-600 text-white'
+                    : 'bg-gray-100 dark:bg-gray-700/60 hover:bg-gray-200 dark:hover:bg-gray-700'}`}
+                  aria-pressed={restDays.includes(weekday)}
+                >
+                  {label.slice(0, 2)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <label className="flex items-start gap-2">
+            <input type="checkbox" checked={useFreezeTokens} onChange={e => setUseFreezeTokens(e.target.checked)} className="mt-0.5" />
+            <span>
+              Freeze tokens: earn one every {DAILY_STREAK_FREEZE_EARN_DAYS} qualifying days, spent on a missed day
+              {streak.frozenDays.length > 0 && ` (used ${streak.frozenDays.length})`}
+            </span>
+          </label>
+
+          <label className="block">
+            <span>Time zone</span>
+            <input
+              type="text"
+              value={timeZoneDraft}
+              placeholder={`${getSystemTimeZone()} (browser)`}
+              onChange={e => setTimeZoneDraft(e.target.value)}
+              onBlur={commitTimeZone}
+              onKeyDown={e => e.key === 'Enter' && commitTimeZone()}
+              className="w-full mt-0.5 px-1 py-0.5 rounded border border-gray-300 dark:border-gray-600 bg-transparent"
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DailyStreakBadge;
@@ -1,5 +1,8 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useTimerStore } from '../store/timerSlice';
+import { useHistoryStore } from '../store/historySlice';
+import { useGoalStore, isGoalCompleted } from '../store/goalSlice';
+import { getProjectSuggestions, getTagSuggestions } from '../utils/projects';
 import { STORAGE_KEYS } from '../constants';
 
 interface DeepFocusInputProps {
@@ -36,16 +39,39 @@ export const DeepFocusInput = ({ className = '', onStartSession }: DeepFocusInpu
     isSessionActive, 
     currentGoal,
     currentDifficulty,
+    currentProject,
+    currentTags,
+    currentGoalId,
     handleGoalSet,
     handleDifficultySet,
+    setCurrentProject,
+    setCurrentTags,
+    setCurrentGoalId,
     startSession
   } = useTimerStore();
+  const history = useHistoryStore(state => state.history);
+  const goals = useGoalStore(state => state.goals);
   
   const [goal, setGoal] = useState('');
   const [placeholderIndex, setPlaceholderIndex] = useState(0);
   const [isFocused, setIsFocused] = useState(false);
   const [previousActiveState, setPreviousActiveState] = useState(isSessionActive);
   const [difficulty, setDifficulty] = useState<'easy' | 'medium' | 'hard'>(currentDifficulty);
+  const [tagDraft, setTagDraft] = useState('');
+
+  // Autocomplete from past sessions
+  const projectSuggestions = useMemo(() => getProjectSuggestions(history), [history]);
+  const tagSuggestions = useMemo(
+    () => getTagSuggestions(history).filter(tag => !currentTags.includes(tag)),
+    [history, currentTags]
+  );
+
+  // Goals still open, plus the linked one even once it is reached
+  const linkedGoal = goals.find(g => g.id === currentGoalId) ?? null;
+  const goalOptions = useMemo(
+    () => goals.filter(g => g.id === currentGoalId || !isGoalCompleted(g, history)),
+    [goals, currentGoalId, history]
+  );
 
   // Store difficulty in localStorage
   useEffect(() => {
@@ -88,6 +114,11 @@ export const DeepFocusInput = ({ className = '', onStartSession }: DeepFocusInpu
     setPreviousActiveState(isSessionActive);
   }, [isSessionActive, previousActiveState]);
 
+  // Follow difficulty changes made elsewhere (planner, presets)
+  useEffect(() => {
+    setDifficulty(currentDifficulty);
+  }, [currentDifficulty]);
+
   // Sync local goal state with store
   useEffect(() => {
     if (currentGoal && !goal) {
@@ -120,6 +151,20 @@ export const DeepFocusInput = ({ className = '', onStartSession }: DeepFocusInpu
     handleDifficultySet(newDifficulty);
   };
 
+  const addTag = (raw: string) => {
+    if (raw.trim()) setCurrentTags([...currentTags, ...raw.split(',')]);
+    setTagDraft('');
+  };
+
+  const handleTagKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(tagDraft);
+    } else if (e.key === 'Backspace' && !tagDraft && currentTags.length > 0) {
+      setCurrentTags(currentTags.slice(0, -1));
+    }
+  };
+
   const currentPlaceholder = isFocused && !goal 
     ? "What's your focus goal?" 
     : PLACEHOLDER_TEXTS[placeholderIndex];
@@ -149,6 +194,78 @@ export const DeepFocusInput = ({ className = '', onStartSession }: DeepFocusInpu
         />
       </div>
       
+      {/* Goal, project and tags */}
+      {isSessionActive ? (
+        (linkedGoal || currentProject || currentTags.length > 0) && (
+          <div className="flex flex-wrap gap-1 mb-2 text-xs text-gray-500 dark:text-gray-400">
+            {linkedGoal && <span>🎯 {linkedGoal.what}</span>}
+            {currentProject && <span>📁 {currentProject}</span>}
+            {currentTags.map(tag => <span key={tag}>#{tag}</span>)}
+          </div>
+        )
+      ) : (
+        <div className="flex flex-wrap items-center gap-2 mb-2 text-xs max-w-[500px]">
+          {goals.length > 0 && (
+            <select
+              tabIndex={2}
+              value={linkedGoal ? linkedGoal.id : ''}
+              onChange={e => setCurrentGoalId(e.target.value || null)}
+              aria-label="Goal"
+              title="Linked sessions count towards this goal"
+              className="w-36 px-2 py-1 border rounded-md bg-white dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+            >
+              <option value="">🎯 No goal</option>
+              {goalOptions.map(g => <option key={g.id} value={g.id}>🎯 {g.what || 'Untitled goal'}</option>)}
+            </select>
+          )}
+          <input
+            tabIndex={2}
+            type="text"
+            list="focus-project-suggestions"
+            value={currentProject}
+            onChange={e => setCurrentProject(e.target.value)}
+            placeholder="📁 Project"
+            aria-label="Project"
+            className="w-32 px-2 py-1 border rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white dark:placeholder-gray-400"
+            maxLength={60}
+          />
+          <datalist id="focus-project-suggestions">
+            {projectSuggestions.map(project => <option key={project} value={project} />)}
+          </datalist>
+          <div className="flex flex-wrap items-center gap-1 flex-1 min-w-[140px] px-2 py-0.5 border rounded-md dark:bg-gray-700 dark:border-gray-600">
+            {currentTags.map(tag => (
+              <span key={tag} className="inline-flex items-center gap-0.5 px-1.5 rounded bg-violet-100 text-violet-800 dark:bg-violet-900/60 dark:text-violet-200">
+                #{tag}
+                <button
+                  type="button"
+                  onClick={() => setCurrentTags(currentTags.filter(t => t !== tag))}
+                  className="opacity-60 hover:opacity-100"
+                  aria-label={`Remove tag ${tag}`}
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+            <input
+              tabIndex={2}
+              type="text"
+              list="focus-tag-suggestions"
+              value={tagDraft}
+              onChange={e => setTagDraft(e.target.value)}
+              onKeyDown={handleTagKeyDown}
+              onBlur={() => addTag(tagDraft)}
+              placeholder={currentTags.length === 0 ? '# Tags' : ''}
+              aria-label="Add tag"
+              className="flex-1 min-w-[60px] py-0.5 bg-transparent focus:outline-none dark:text-white dark:placeholder-gray-400"
+              maxLength={40}
+            />
+            <datalist id="focus-tag-suggestions">
+              {tagSuggestions.map(tag => <option key={tag} value={tag} />)}
+            </datalist>
+          </div>
+        </div>
+      )}
+
       {/* Difficulty selector */}
       {!isSessionActive && (
         <div className="flex gap-2 text-xs">
@@ -0,0 +1,95 @@
+import { useEffect, useState } from 'react';
+import { useTimerStore } from '../store/timerSlice';
+import {
+  DISTRACTION_CATEGORY,
+  DISTRACTION_CATEGORY_LABELS,
+  DISTRACTION_CATEGORY_PICK_WINDOW_MS
+} from '../constants';
+
+interface DistractionCategoryPickerProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const CATEGORIES = Object.values(DISTRACTION_CATEGORY);
+
+/**
+ * DistractionCategoryPicker
+ * Shown briefly after a distraction is logged. Number keys 1-5 (or a click)
+ * categorize it; an optional note is saved with Enter. Closes by itself
+ * unless the note field is in use.
+ */
+export const DistractionCategoryPicker = ({ isOpen, onClose }: DistractionCategoryPickerProps) => {
+  const annotateLastDistraction = useTimerStore(state => state.annotateLastDistraction);
+  const [note, setNote] = useState('');
+  const [isEditingNote, setIsEditingNote] = useState(false);
+
+  // Fresh note field for every logged distraction
+  useEffect(() => {
+    if (isOpen) {
+      setNote('');
+      setIsEditingNote(false);
+    }
+  }, [isOpen]);
+
+  // Auto-close after the pick window
+  useEffect(() => {
+    if (!isOpen || isEditingNote) return;
+    const timeout = setTimeout(onClose, DISTRACTION_CATEGORY_PICK_WINDOW_MS);
+    return () => clearTimeout(timeout);
+  }, [isOpen, isEditingNote, onClose]);
+
+  // Number keys pick a category while open
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (document.activeElement?.tagName === 'INPUT' || document.activeElement?.tagName === 'TEXTAREA') return;
+      const category = CATEGORIES[parseInt(e.key, 10) - 1];
+      if (category) {
+        annotateLastDistraction({ category });
+        onClose();
+      } else if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, annotateLastDistraction, onClose]);
+
+  if (!isOpen) return null;
+
+  const handleNoteSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    annotateLastDistraction({ note });
+    onClose();
+  };
+
+  return (
+    <div className="fixed bottom-20 left-1/2 transform -translate-x-1/2 z-50 p-3 rounded-lg shadow-xl bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200 text-xs space-y-2 animate-fade-in-scale">
+      <div className="flex items-center gap-1">
+        {CATEGORIES.map((category, index) => (
+          <button
+            key={category}
+            type="button"
+            onClick={() => { annotateLastDistraction({ category }); onClose(); }}
+            className="px-2 py-1 rounded bg-gray-100 dark:bg-gray-700 hover:bg-violet-100 dark:hover:bg-violet-900/40"
+          >
+            <span className="font-mono text-gray-400 mr-1">{index + 1}</span>
+            {DISTRACTION_CATEGORY_LABELS[category]}
+          </button>
+        ))}
+      </div>
+      <form onSubmit={handleNoteSubmit}>
+        <input
+          type="text"
+          value={note}
+          onChange={e => setNote(e.target.value)}
+          onFocus={() => setIsEditingNote(true)}
+          onKeyDown={e => { if (e.key === 'Escape') onClose(); }}
+          placeholder="Optional note, Enter to save"
+          className="w-full px-2 py-1 border rounded dark:bg-gray-700 dark:border-gray-600"
+        />
+      </form>
+    </div>
+  );
+};
@@ -1,5 +1,9 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
-import { useTimerStore } from '../store/timerSlice';
+import { useTimerStore, getCyclesInRound } from '../store/timerSlice';
+import { CycleSettings } from './CycleSettings';
+import { PresetPicker } from './PresetPicker';
+import { msToClock } from '../utils/time';
+import { FLOWTIME_MILESTONE_OPTIONS, SESSION_EXTENSION_MINUTES } from '../constants';
 
 interface FocusSessionTimerProps {
   isCompact?: boolean;
@@ -8,6 +12,7 @@ interface FocusSessionTimerProps {
   onPause?: () => void; // For playing sounds
   onResume?: () => void; // For playing sounds
   onTimerEnd?: () => void; // For playing sounds
+  onMilestone?: () => void; // Soft chime for flowtime milestones
 }
 
 const MOTIVATIONAL_STARTS = [
@@ -64,7 +69,8 @@ export const FocusSessionTimer = ({
   onSessionStart,
   onPause,
   onResume,
-  onTimerEnd
+  onTimerEnd,
+  onMilestone
 }: FocusSessionTimerProps) => {
   // Get timer state and actions from the store
   const { 
@@ -76,7 +82,27 @@ export const FocusSessionTimer = ({
     startSession,
     pauseTimer,
     resumeTimer,
-    endSession
+    endSession,
+    abandonSession,
+    cycleMode,
+    cycleConfig,
+    completedCycles,
+    isBreakPending,
+    isLongBreak,
+    breakEndTime,
+    breakRemainingTime,
+    lastBreakCompletedAt,
+    lastSessionCompletedAt,
+    startBreak,
+    elapsedTime,
+    milestoneMinutes,
+    milestonesReached,
+    setMilestoneMinutes,
+    overtimeEnabled,
+    isOvertime,
+    overtimeMs,
+    setOvertimeEnabled,
+    extendSession
   } = useTimerStore();
   
   const [startClickCount, setStartClickCount] = useState(0);
@@ -84,6 +110,43 @@ export const FocusSessionTimer = ({
   const [stopMessage, setStopMessage] = useState(STOP_MESSAGES[0]);
   const [streakCount, setStreakCount] = useState(0);
   const wrapperRef = useRef<HTMLDivElement>(null);
+  const lastBreakCompletedRef = useRef(lastBreakCompletedAt);
+  const lastSessionCompletedRef = useRef(lastSessionCompletedAt);
+  const lastMilestoneRef = useRef(milestonesReached);
+  const wasOvertimeRef = useRef(isOvertime);
+
+  // Play the done cue when the planned time runs out and overtime begins.
+  // While hidden, the notification plays it instead.
+  useEffect(() => {
+    if (isOvertime && !wasOvertimeRef.current) {
+      if (onTimerEnd && !document.hidden) onTimerEnd();
+    }
+    wasOvertimeRef.current = isOvertime;
+  }, [isOvertime, onTimerEnd]);
+
+  // Chime on each flowtime milestone without ending the session
+  useEffect(() => {
+    if (milestonesReached > lastMilestoneRef.current) {
+      if (onMilestone) onMilestone();
+    }
+    lastMilestoneRef.current = milestonesReached;
+  }, [milestonesReached, onMilestone]);
+
+  // Play the done cue when a session runs out on its own
+  useEffect(() => {
+    if (lastSessionCompletedAt && lastSessionCompletedAt !== lastSessionCompletedRef.current) {
+      if (onTimerEnd && !document.hidden) onTimerEnd();
+    }
+    lastSessionCompletedRef.current = lastSessionCompletedAt;
+  }, [lastSessionCompletedAt, onTimerEnd]);
+
+  // Play the done cue when a cycle break runs to its planned end
+  useEffect(() => {
+    if (lastBreakCompletedAt && lastBreakCompletedAt !== lastBreakCompletedRef.current) {
+      if (onTimerEnd && !document.hidden) onTimerEnd();
+    }
+    lastBreakCompletedRef.current = lastBreakCompletedAt;
+  }, [lastBreakCompletedAt, onTimerEnd]);
 
   useEffect(() => {
     const storedStreakCount = localStorage.getItem('totalStreakSessions');
@@ -196,6 +259,14 @@ export const FocusSessionTimer = ({
     if (onTimerEnd) onTimerEnd(); // Play sound
   };
 
+  // Abandoned sessions stay in history but count towards neither streaks nor goals
+  const handleAbandon = () => {
+    if (!isSessionActive) return;
+    const reason = window.prompt('Abandon this session? It will not count towards your streak.\nReason (optional):', '');
+    if (reason === null) return;
+    abandonSession(reason);
+  };
+
   return (
     <div className={`flex ${isCompact ? 'flex-row items-center space-x-4' : 'flex-col items-center space-y-4 p-4'} relative`}>
       <div ref={wrapperRef} className="panel-glass flex items-center gap-2 z-10 px-2 py-1 overflow-visible">
@@ -231,6 +302,62 @@ export const FocusSessionTimer = ({
           <span className="text-gray-600 dark:text-gray-400">min</span>
         </div>
 
+        {/* Flowtime: milestone picker before launch, elapsed clock while running */}
+        {isInfinite && !isSessionActive && (
+          <select
+            value={milestoneMinutes}
+            onChange={(e) => setMilestoneMinutes(parseInt(e.target.value, 10))}
+            className="h-8 px-1 rounded-md text-xs border dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+            title="Chime every N minutes"
+          >
+            {FLOWTIME_MILESTONE_OPTIONS.map(option => (
+              <option key={option} value={option}>{option === 0 ? 'No chime' : `🔔 ${option}m`}</option>
+            ))}
+          </select>
+        )}
+        {isInfinite && isSessionActive && (
+          <span className="font-mono text-sm text-gray-700 dark:text-gray-200" title="Elapsed focus time">
+            +{msToClock(elapsedTime)}
+          </span>
+        )}
+
+        {/* Overtime: opt in before launch, extend or watch overtime while running */}
+        {!isInfinite && !isSessionActive && (
+          <button
+            type="button"
+            onClick={() => setOvertimeEnabled(!overtimeEnabled)}
+            aria-pressed={overtimeEnabled}
+            className={`h-8 px-2 rounded-md text-xs font-semibold focus:outline-none focus:ring-2 focus:ring-violet-500 ${
+              overtimeEnabled
+                ? 'text-white bg-violet-600'
+                : 'text-gray-800 dark:text-gray-200 bg-white/40 dark:bg-gray-700/60 hover:bg-white/60 dark:hover:bg-gray-700'
+            }`}
+            title={overtimeEnabled ? 'Overtime on: keep counting after zero' : 'Overtime off: stop at zero'}
+          >
+            OT
+          </button>
+        )}
+        {!isInfinite && isSessionActive && (
+          <div className="flex items-center gap-1">
+            {isOvertime && (
+              <span className="font-mono text-sm text-orange-500 dark:text-orange-400" title="Overtime">
+                +{msToClock(overtimeMs)}
+              </span>
+            )}
+            {SESSION_EXTENSION_MINUTES.map(extra => (
+              <button
+                key={extra}
+                type="button"
+                onClick={() => extendSession(extra)}
+                className="h-7 px-1.5 rounded-md text-xs text-gray-800 dark:text-gray-200 bg-white/40 dark:bg-gray-700/60 hover:bg-white/60 dark:hover:bg-gray-700"
+                title={`Extend by ${extra} minutes`}
+              >
+                +{extra}
+              </button>
+            ))}
+          </div>
+        )}
+
         <div className="flex space-x-2">
           {!isSessionActive && (
             <button
@@ -244,6 +371,16 @@ export const FocusSessionTimer = ({
             </button>
           )}
 
+          {!isSessionActive && isBreakPending && (
+            <button
+              onClick={() => startBreak()}
+              className="px-3 py-1 rounded font-semibold text-sm bg-white/40 dark:bg-gray-700/60 hover:bg-white/60 dark:hover:bg-gray-700 text-gray-800 dark:text-gray-200"
+              title={`Start ${isLongBreak ? 'long' : 'short'} break`}
+            >
+              Break
+            </button>
+          )}
+
           {isSessionActive && (
             <>
               <button
@@ -271,11 +408,35 @@ export const FocusSessionTimer = ({
               >
                 Stop
               </button>
+
+              <button
+                onClick={handleAbandon}
+                className={`
+                  px-2 py-1 rounded font-semibold
+                  text-deep-purple-700 hover:bg-purple-100 dark:text-purple-200 dark:hover:bg-deep-purple-900
+                  ${isCompact ? 'text-sm' : ''}
+                `}
+                title="Abandon: keep it in history without counting it"
+              >
+                Abandon
+              </button>
               
 
             </>
           )}
         </div>
+
+        {/* Pomodoro cycle counter and break countdown */}
+        {cycleMode && (
+          <div className="flex flex-col items-center text-xs text-gray-600 dark:text-gray-300 whitespace-nowrap" title="Completed focus cycles">
+            <span>🍅 {getCyclesInRound({ completedCycles, isLongBreak, isSessionActive, cycleConfig })}/{cycleConfig.cyclesBeforeLongBreak}</span>
+            {!isSessionActive && breakEndTime !== null && (
+              <span className="italic">{isLongBreak ? 'Long' : 'Short'} break {msToClock(breakRemainingTime)}</span>
+            )}
+          </div>
+        )}
+        <PresetPicker onSessionStart={onSessionStart} />
+        <CycleSettings />
       </div>
     </div>
   );
@@ -1,8 +1,15 @@
 import React from "react";
 import { useFortyHz } from "@/features/audio/useFortyHz";
+import { useAppEvent } from "@/hooks/useAppEvent";
 
 export const FortyHzButton: React.FC = () => {
-  const { isOn, toggle } = useFortyHz();
+  const { isOn, start, stop, toggle } = useFortyHz();
+
+  // Presets switch the overlay on or off via `fortyhz:set`
+  useAppEvent("fortyhz:set", ({ on }) => {
+    if (on && !isOn) start();
+    if (!on && isOn) stop();
+  });
 
   return (
     <button
@@ -0,0 +1,83 @@
+import { DIFFICULTY, DIFFICULTY_LABELS } from '../constants';
+import { HistoryFilter, isHistoryFilterActive } from '../utils/historyFilter';
+
+type Difficulty = typeof DIFFICULTY[keyof typeof DIFFICULTY];
+
+interface HistoryFilterBarProps {
+  filter: HistoryFilter;
+  onChange: (changes: Partial<HistoryFilter>) => void;
+  onClear: () => void;
+  matchCount: number;
+  totalCount: number;
+}
+
+const fieldClass = 'px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white/70 dark:bg-gray-800/70 text-gray-800 dark:text-gray-200';
+
+/**
+ * HistoryFilterBar
+ * Search and filters above the Session History list.
+ */
+export const HistoryFilterBar = ({ filter, onChange, onClear, matchCount, totalCount }: HistoryFilterBarProps) => {
+  const isActive = isHistoryFilterActive(filter);
+
+  return (
+    <div className="mb-4 space-y-2 text-xs">
+      <input
+        type="search"
+        value={filter.query}
+        onChange={e => onChange({ query: e.target.value })}
+        placeholder="Search goals, projects, #tags and notes…"
+        className={`w-full ${fieldClass}`}
+        aria-label="Search history"
+      />
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-1">
+          <span className="text-gray-500 dark:text-gray-400">From</span>
+          <input type="date" value={filter.from} max={filter.to || undefined} onChange={e => onChange({ from: e.target.value })} className={fieldClass} />
+        </label>
+        <label className="flex items-center gap-1">
+          <span className="text-gray-500 dark:text-gray-400">To</span>
+          <input type="date" value={filter.to} min={filter.from || undefined} onChange={e => onChange({ to: e.target.value })} className={fieldClass} />
+        </label>
+        <select
+          value={filter.difficulty}
+          onChange={e => onChange({ difficulty: e.target.value as Difficulty | '' })}
+          className={fieldClass}
+          aria-label="Difficulty"
+        >
+          <option value="">Any difficulty</option>
+          {Object.values(DIFFICULTY).map(level => (
+            <option key={level} value={level}>{DIFFICULTY_LABELS[level]}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-1">
+          <span className="text-gray-500 dark:text-gray-400">Min</span>
+          <input
+            type="number"
+            min={0}
+            value={filter.minMinutes || ''}
+            placeholder="0"
+            onChange={e => onChange({ minMinutes: Math.max(0, Number(e.target.value) || 0) })}
+            className={`w-14 ${fieldClass}`}
+            aria-label="Minimum duration in minutes"
+          />
+          <span className="text-gray-500 dark:text-gray-400">min</span>
+        </label>
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={filter.onlyDistracted} onChange={e => onChange({ onlyDistracted: e.target.checked })} />
+          <span>With distractions</span>
+        </label>
+      </div>
+      {isActive && (
+        <div className="flex items-center justify-between text-gray-500 dark:text-gray-400">
+          <span>Showing {matchCount} of {totalCount} entries</span>
+          <button type="button" onClick={onClear} className="underline hover:text-gray-700 dark:hover:text-gray-200">
+            Clear filters
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryFilterBar;
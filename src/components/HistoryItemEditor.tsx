@@ -0,0 +1,225 @@
+import { useState } from 'react';
+import { useHistoryStore, isSessionData, getSessionOutcome, HistoryItem, SessionOutcome } from '../store/historySlice';
+import { DIFFICULTY, DIFFICULTY_LABELS, DEFAULT_GOAL, SESSION_OUTCOME, SESSION_OUTCOME_LABELS } from '../constants';
+import { useGoalStore } from '../store/goalSlice';
+import { normalizeTags, getProjectSuggestions } from '../utils/projects';
+
+type Difficulty = typeof DIFFICULTY[keyof typeof DIFFICULTY];
+
+interface HistoryItemEditorProps {
+  item: HistoryItem | null; // null logs a new session
+  onClose: () => void;
+}
+
+// Value for a datetime-local input, in local time
+const toInputValue = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const fromInputValue = (value: string) => value ? new Date(value).getTime() : NaN;
+
+const inputClass = 'w-full mt-0.5 px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-transparent';
+
+/**
+ * HistoryItemEditor
+ * Modal to log a session done away from the app or to edit a history entry.
+ * Sessions can also be split in two here. Every change can be undone from the
+ * Session History header.
+ */
+export const HistoryItemEditor = ({ item, onClose }: HistoryItemEditorProps) => {
+  const { history, addManualSession, editSession, editBreak, splitSession } = useHistoryStore();
+  const goals = useGoalStore(state => state.goals);
+  const session = item && isSessionData(item) ? item : null;
+  const breakItem = item && !isSessionData(item) ? item : null;
+
+  const [start, setStart] = useState(toInputValue(session?.timestamp ?? breakItem?.start ?? Date.now() - 25 * 60000));
+  const [end, setEnd] = useState(breakItem?.end ? toInputValue(breakItem.end) : '');
+  const [minutes, setMinutes] = useState(session ? Math.round(session.duration / 60000) : 25);
+  const [goal, setGoal] = useState(session?.goal ?? '');
+  const [difficulty, setDifficulty] = useState<Difficulty>(session?.difficulty ?? DIFFICULTY.MEDIUM);
+  const [distractions, setDistractions] = useState(session?.distractions ?? 0);
+  const [comment, setComment] = useState(session?.comment ?? '');
+  const [project, setProject] = useState(session?.project ?? '');
+  const [tags, setTags] = useState((session?.tags ?? []).join(', '));
+  const [goalId, setGoalId] = useState(session?.goalId ?? '');
+  const [outcome, setOutcome] = useState<SessionOutcome>(session ? getSessionOutcome(session) : SESSION_OUTCOME.COMPLETED);
+  const [outcomeReason, setOutcomeReason] = useState(session?.outcomeReason ?? '');
+  const [note, setNote] = useState(breakItem?.note ?? '');
+  const [splitMinutes, setSplitMinutes] = useState(session ? Math.floor(session.duration / 120000) : 0);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = () => {
+    const startMs = fromInputValue(start);
+    if (!Number.isFinite(startMs)) return setError('Enter a valid start time');
+
+    if (breakItem) {
+      const endMs = end ? fromInputValue(end) : null;
+      if (endMs !== null && !(endMs > startMs)) return setError('The break must end after it starts');
+      if (breakItem.end !== null && endMs === null) return setError('Enter an end time');
+      editBreak(breakItem.id, { start: startMs, ...(endMs !== null && { end: endMs }), note });
+    } else {
+      if (!(minutes > 0)) return setError('Focus time must be at least a minute');
+      const fields = {
+        timestamp: startMs,
+        duration: Math.round(minutes * 60000),
+        goal: goal.trim() || DEFAULT_GOAL,
+        difficulty,
+        distractions: Math.max(0, Math.floor(distractions)),
+        comment: comment.trim() || undefined,
+        project: project.trim() || undefined,
+        tags: normalizeTags(tags.split(',')),
+        goalId: goalId || undefined,
+        outcome,
+        outcomeReason: outcome !== SESSION_OUTCOME.COMPLETED ? outcomeReason.trim() || undefined : undefined,
+      };
+      if (session) {
+        editSession(session.id, fields);
+      } else {
+        addManualSession(fields);
+      }
+    }
+    onClose();
+  };
+
+  const handleSplit = () => {
+    if (!session) return;
+    const focusMs = splitMinutes * 60000;
+    if (!(focusMs > 0 && focusMs < session.duration)) return setError('Split point must fall inside the session');
+    splitSession(session.id, focusMs);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 text-gray-900 dark:text-white rounded-lg shadow-xl p-6 max-w-md w-full mx-4 text-sm space-y-3">
+        <h2 className="text-lg font-semibold">
+          {breakItem ? 'Edit break' : session ? 'Edit session' : 'Log a session'}
+        </h2>
+
+        <label className="block">
+          <span>Start</span>
+          <input type="datetime-local" value={start} onChange={e => setStart(e.target.value)} className={inputClass} />
+        </label>
+
+        {breakItem ? (
+          <>
+            <label className="block">
+              <span>End</span>
+              <input type="datetime-local" value={end} onChange={e => setEnd(e.target.value)} className={inputClass} />
+            </label>
+            <label className="block">
+              <span>Note</span>
+              <input type="text" value={note} onChange={e => setNote(e.target.value)} className={inputClass} />
+            </label>
+          </>
+        ) : (
+          <>
+            <label className="block">
+              <span>Goal</span>
+              <input type="text" value={goal} placeholder={DEFAULT_GOAL} onChange={e => setGoal(e.target.value)} className={inputClass} />
+            </label>
+            <div className="grid grid-cols-3 gap-2">
+              <label className="block">
+                <span>Focus (min)</span>
+                <input type="number" min={1} value={minutes} onChange={e => setMinutes(Number(e.target.value))} className={inputClass} />
+              </label>
+              <label className="block">
+                <span>Distractions</span>
+                <input type="number" min={0} value={distractions} onChange={e => setDistractions(Number(e.target.value))} className={inputClass} />
+              </label>
+              <label className="block">
+                <span>Difficulty</span>
+                <select value={difficulty} onChange={e => setDifficulty(e.target.value as Difficulty)} className={`${inputClass} dark:bg-gray-800`}>
+                  {Object.values(DIFFICULTY).map(level => (
+                    <option key={level} value={level}>{DIFFICULTY_LABELS[level]}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <label className="block">
+                <span>Project</span>
+                <input type="text" list="editor-project-suggestions" value={project} onChange={e => setProject(e.target.value)} className={inputClass} />
+                <datalist id="editor-project-suggestions">
+                  {getProjectSuggestions(history).map(name => <option key={name} value={name} />)}
+                </datalist>
+              </label>
+              <label className="block">
+                <span>Tags (comma separated)</span>
+                <input type="text" value={tags} onChange={e => setTags(e.target.value)} className={inputClass} />
+              </label>
+            </div>
+            {(goals.length > 0 || goalId) && (
+              <label className="block">
+                <span>Counts towards goal</span>
+                <select value={goalId} onChange={e => setGoalId(e.target.value)} className={`${inputClass} dark:bg-gray-800`}>
+                  <option value="">No goal</option>
+                  {goals.map(g => <option key={g.id} value={g.id}>{g.what || 'Untitled goal'}</option>)}
+                  {goalId && !goals.some(g => g.id === goalId) && <option value={goalId}>Removed goal</option>}
+                </select>
+              </label>
+            )}
+            <div className="grid grid-cols-2 gap-2">
+              <label className="block">
+                <span>Outcome</span>
+                <select value={outcome} onChange={e => setOutcome(e.target.value as SessionOutcome)} className={`${inputClass} dark:bg-gray-800`}>
+                  {Object.values(SESSION_OUTCOME).map(value => (
+                    <option key={value} value={value}>{SESSION_OUTCOME_LABELS[value]}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="block">
+                <span>Reason</span>
+                <input
+                  type="text"
+                  value={outcomeReason}
+                  disabled={outcome === SESSION_OUTCOME.COMPLETED}
+                  onChange={e => setOutcomeReason(e.target.value)}
+                  className={`${inputClass} disabled:opacity-50`}
+                />
+              </label>
+            </div>
+            <label className="block">
+              <span>Comment</span>
+              <input type="text" value={comment} onChange={e => setComment(e.target.value)} className={inputClass} />
+            </label>
+          </>
+        )}
+
+        {session && session.duration >= 120000 && (
+          <div className="flex items-end gap-2 pt-2 border-t border-gray-200 dark:border-gray-700">
+            <label className="block flex-1">
+              <span>Split after (min of focus)</span>
+              <input
+                type="number"
+                min={1}
+                max={Math.floor(session.duration / 60000) - 1}
+                value={splitMinutes}
+                onChange={e => setSplitMinutes(Number(e.target.value))}
+                className={inputClass}
+              />
+            </label>
+            <button type="button" onClick={handleSplit} className="px-3 py-1.5 rounded bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600">
+              ✂️ Split
+            </button>
+          </div>
+        )}
+
+        {error && <div className="text-red-600 dark:text-red-400 text-xs">{error}</div>}
+
+        <div className="flex justify-end gap-2 pt-2">
+          <button type="button" onClick={onClose} className="px-3 py-1.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700">
+            Cancel
+          </button>
+          <button type="button" onClick={handleSave} className="px-3 py-1.5 rounded bg-violet-600 text-white hover:bg-violet-700">
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryItemEditor;
@@ -0,0 +1,282 @@
+import { useRef, useState } from 'react';
+import { useHistoryStore, isSessionData, getItemStart, HistoryItem } from '../store/historySlice';
+import {
+  exportHistoryJson,
+  exportHistoryCsv,
+  parseHistoryImport,
+  previewHistoryImport,
+  mergeHistory,
+  HistoryImportPreview
+} from '../utils/historyTransfer';
+import { useSystemLogStore } from '../store/systemLogSlice';
+import { useCalendarStore } from '../store/calendarSlice';
+import { exportSessionsIcs, parseIcsEvents } from '../utils/ical';
+import { buildDailyJournal } from '../utils/journal';
+import { parseDayKey } from '../utils/stats';
+import { downloadFile, fileDateStamp } from '../utils/download';
+
+interface HistoryTransferProps {
+  className?: string;
+  onImported?: (count: number) => void;
+}
+
+const describeItem = (item: HistoryItem) => {
+  const when = new Date(getItemStart(item)).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' });
+  return isSessionData(item) ? `${when} · ${item.goal}` : `${when} · Break`;
+};
+
+/**
+ * HistoryTransfer
+ * Popover to export history as JSON or CSV and to import a file. Imports are
+ * previewed (new, unchanged, conflicting and rejected rows) before merging.
+ * A single day can also be exported as a Markdown journal note, and sessions
+ * as calendar events; meetings are imported from .ics files.
+ */
+export const HistoryTransfer = ({ className = '', onImported }: HistoryTransferProps) => {
+  const { history, setHistory } = useHistoryStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [preview, setPreview] = useState<HistoryImportPreview | null>(null);
+  const [replaceConflicts, setReplaceConflicts] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [journalDay, setJournalDay] = useState(fileDateStamp());
+  const [journalStatus, setJournalStatus] = useState<string | null>(null);
+  const { events, importEvents, clearEvents } = useCalendarStore();
+  const [calendarStatus, setCalendarStatus] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const icsInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = (kind: 'json' | 'csv') => {
+    const name = `deepwork-history-${fileDateStamp()}.${kind}`;
+    if (kind === 'json') {
+      downloadFile(exportHistoryJson(history), name, 'application/json');
+    } else {
+      downloadFile(exportHistoryCsv(history), name, 'text/csv');
+    }
+    console.log(`[HistoryTransfer] Exported ${history.length} items as ${kind}`);
+  };
+
+  const handleJournal = async (action: 'copy' | 'download') => {
+    if (!journalDay) return;
+    const markdown = buildDailyJournal(history, parseDayKey(journalDay), { systemLog: useSystemLogStore.getState().note });
+    if (action === 'download') {
+      downloadFile(markdown, `${journalDay}.md`, 'text/markdown');
+      setJournalStatus(null);
+    } else {
+      try {
+        await navigator.clipboard.writeText(markdown);
+        setJournalStatus('Copied to clipboard');
+      } catch {
+        setJournalStatus('Clipboard unavailable, download instead');
+      }
+    }
+    console.log(`[HistoryTransfer] Exported journal for ${journalDay} (${action})`);
+  };
+
+  const handleIcsExport = () => {
+    downloadFile(exportSessionsIcs(history), `deepwork-sessions-${fileDateStamp()}.ics`, 'text/calendar');
+    console.log('[HistoryTransfer] Exported sessions as ics');
+  };
+
+  const handleIcsFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const parsed = parseIcsEvents(await file.text());
+      const added = importEvents(parsed);
+      setCalendarStatus(`Imported ${parsed.length} events (${added} new)`);
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const parsed = parseHistoryImport(await file.text(), file.name);
+      setPreview(previewHistoryImport(useHistoryStore.getState().history, parsed));
+      setReplaceConflicts(false);
+      setError(null);
+      setIsOpen(false);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleCommit = () => {
+    if (!preview) return;
+    setHistory(mergeHistory(useHistoryStore.getState().history, preview, replaceConflicts));
+    const count = preview.added.length + (replaceConflicts ? preview.conflicts.length : 0);
+    console.log(`[HistoryTransfer] Imported ${count} items`);
+    setPreview(null);
+    onImported?.(count);
+  };
+
+  return (
+    <div className={`relative ${className}`}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(o => !o)}
+        className="h-7 px-2 rounded-md text-xs bg-white/40 dark:bg-gray-700/60 hover:bg-white/60 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-violet-500 text-gray-800 dark:text-gray-200"
+        title="Export or import history"
+        aria-expanded={isOpen}
+      >
+        ⇅
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-9 z-30 w-56 p-3 rounded-lg shadow-xl bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200 text-xs space-y-2">
+          <div className="font-semibold">Export</div>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => handleExport('json')}
+              disabled={history.length === 0}
+              className="flex-1 px-2 py-1 rounded bg-white/40 dark:bg-gray-700/60 hover:bg-white/60 dark:hover:bg-gray-700 disabled:opacity-40"
+            >
+              JSON
+            </button>
+            <button
+              type="button"
+              onClick={() => handleExport('csv')}
+              disabled={history.length === 0}
+              className="flex-1 px-2 py-1 rounded bg-white/40 dark:bg-gray-700/60 hover:bg-white/60 dark:hover:bg-gray-700 disabled:opacity-40"
+            >
+              CSV
+            </button>
+          </div>
+          <div className="font-semibold pt-1">Day as Markdown</div>
+          <input
+            type="date"
+            value={journalDay}
+            onChange={e => { setJournalDay(e.target.value); setJournalStatus(null); }}
+            className="w-full px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-transparent"
+            aria-label="Journal day"
+          />
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => handleJournal('copy')}
+              disabled={!journalDay}
+              className="flex-1 px-2 py-1 rounded bg-white/40 dark:bg-gray-700/60 hover:bg-white/60 dark:hover:bg-gray-700 disabled:opacity-40"
+            >
+              Copy
+            </button>
+            <button
+              type="button"
+              onClick={() => handleJournal('download')}
+              disabled={!journalDay}
+              className="flex-1 px-2 py-1 rounded bg-white/40 dark:bg-gray-700/60 hover:bg-white/60 dark:hover:bg-gray-700 disabled:opacity-40"
+            >
+              Download .md
+            </button>
+          </div>
+          {journalStatus && <div className="text-gray-500 dark:text-gray-400">{journalStatus}</div>}
+          <div className="font-semibold pt-1">Calendar (.ics)</div>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={handleIcsExport}
+              disabled={!history.some(isSessionData)}
+              className="flex-1 px-2 py-1 rounded bg-white/40 dark:bg-gray-700/60 hover:bg-white/60 dark:hover:bg-gray-700 disabled:opacity-40"
+            >
+              Export sessions
+            </button>
+            <button
+              type="button"
+              onClick={() => icsInputRef.current?.click()}
+              className="flex-1 px-2 py-1 rounded bg-white/40 dark:bg-gray-700/60 hover:bg-white/60 dark:hover:bg-gray-700"
+            >
+              Import meetings…
+            </button>
+          </div>
+          <input ref={icsInputRef} type="file" accept=".ics,text/calendar" onChange={handleIcsFile} className="hidden" />
+          {(calendarStatus || events.length > 0) && (
+            <div className="flex items-center justify-between text-gray-500 dark:text-gray-400">
+              <span>{calendarStatus ?? `${events.length} meetings imported`}</span>
+              {events.length > 0 && (
+                <button type="button" onClick={() => { clearEvents(); setCalendarStatus(null); }} className="underline hover:text-gray-700 dark:hover:text-gray-200">
+                  Clear
+                </button>
+              )}
+            </div>
+          )}
+          <div className="font-semibold pt-1">Import</div>
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="w-full px-2 py-1 rounded bg-violet-600 text-white hover:bg-violet-700"
+          >
+            Choose JSON or CSV file…
+          </button>
+          <input ref={fileInputRef} type="file" accept=".json,.csv,application/json,text/csv" onChange={handleFile} className="hidden" />
+          {error && <div className="text-red-600 dark:text-red-400">{error}</div>}
+        </div>
+      )}
+
+      {preview && (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+          <div className="bg-white dark:bg-gray-800 text-gray-900 dark:text-white rounded-lg shadow-xl p-6 max-w-lg w-full mx-4 text-sm">
+            <h2 className="text-lg font-semibold mb-3">Import preview</h2>
+            <div className="grid grid-cols-4 gap-2 text-center mb-4">
+              {[
+                ['New', preview.added.length],
+                ['Unchanged', preview.unchanged.length],
+                ['Conflicts', preview.conflicts.length],
+                ['Rejected', preview.rejected.length],
+              ].map(([label, count]) => (
+                <div key={label} className="p-2 rounded bg-gray-100 dark:bg-gray-700/50">
+                  <div className="text-[11px] uppercase tracking-wide text-gray-500 dark:text-gray-400">{label}</div>
+                  <div className="text-lg font-semibold">{count}</div>
+                </div>
+              ))}
+            </div>
+
+            {preview.conflicts.length > 0 && (
+              <div className="mb-3">
+                <div className="font-medium mb-1">Conflicts (same id, different content)</div>
+                <ul className="max-h-32 overflow-y-auto text-xs text-gray-600 dark:text-gray-300 space-y-0.5">
+                  {preview.conflicts.map(({ existing, incoming }) => (
+                    <li key={incoming.id}>{describeItem(existing)} → {describeItem(incoming)}</li>
+                  ))}
+                </ul>
+                <label className="flex items-center gap-2 mt-2 text-xs">
+                  <input type="checkbox" checked={replaceConflicts} onChange={e => setReplaceConflicts(e.target.checked)} />
+                  <span>Replace my entries with the imported versions</span>
+                </label>
+              </div>
+            )}
+
+            {preview.rejected.length > 0 && (
+              <div className="mb-3">
+                <div className="font-medium mb-1">Rejected rows</div>
+                <ul className="max-h-32 overflow-y-auto text-xs text-red-600 dark:text-red-400 space-y-0.5">
+                  {preview.rejected.map(({ row, reason }) => (
+                    <li key={`${row}-${reason}`}>Row {row}: {reason}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2 mt-4">
+              <button type="button" onClick={() => setPreview(null)} className="px-3 py-1.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700">
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleCommit}
+                disabled={preview.added.length === 0 && !(replaceConflicts && preview.conflicts.length > 0)}
+                className="px-3 py-1.5 rounded bg-violet-600 text-white hover:bg-violet-700 disabled:opacity-40"
+              >
+                Import
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
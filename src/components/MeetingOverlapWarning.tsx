@@ -0,0 +1,59 @@
+import { useEffect, useState } from 'react';
+import { useTimerStore } from '../store/timerSlice';
+import { useCalendarStore, getOverlappingEvents } from '../store/calendarSlice';
+import { CALENDAR_OVERLAP_CHECK_INTERVAL_MS } from '../constants';
+
+interface MeetingOverlapWarningProps {
+  className?: string;
+}
+
+const formatClock = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+/**
+ * MeetingOverlapWarning
+ * Warns when the session's planned end (or, before starting, the chosen
+ * length from now) runs into an imported calendar event.
+ */
+export const MeetingOverlapWarning = ({ className = '' }: MeetingOverlapWarningProps) => {
+  const events = useCalendarStore(state => state.events);
+  const isSessionActive = useTimerStore(state => state.isSessionActive);
+  const isInfinite = useTimerStore(state => state.isInfinite);
+  const isPaused = useTimerStore(state => state.isPaused);
+  const minutes = useTimerStore(state => state.minutes);
+  const sessionEndTime = useTimerStore(state => state.sessionEndTime);
+  const [now, setNow] = useState(() => Date.now());
+
+  // A slow clock is enough: meetings are minutes apart
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), CALENDAR_OVERLAP_CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (events.length === 0 || isInfinite) return null;
+
+  let plannedEnd: number | null = null;
+  if (!isSessionActive) {
+    const length = parseInt(minutes, 10);
+    plannedEnd = length > 0 ? now + length * 60000 : null;
+  } else if (isPaused) {
+    plannedEnd = now + useTimerStore.getState().remainingTime;
+  } else {
+    plannedEnd = sessionEndTime;
+  }
+  if (plannedEnd === null) return null;
+
+  // In overtime the planned end has passed; only current events matter
+  const [event] = getOverlappingEvents(events, now, Math.max(now, plannedEnd));
+  if (!event) return null;
+
+  return (
+    <div className={`text-xs text-amber-700 dark:text-amber-300 ${className}`} role="status">
+      ⚠ {event.start <= now
+        ? `“${event.title}” is happening now (until ${formatClock(event.end)})`
+        : `${isSessionActive ? 'This session' : 'A session started now'} would run into “${event.title}” at ${formatClock(event.start)}`}
+    </div>
+  );
+};
+
+export default MeetingOverlapWarning;
@@ -0,0 +1,195 @@
+import { useMemo, useState } from 'react';
+import { useHistoryStore } from '../store/historySlice';
+import { DIFFICULTY, DIFFICULTY_LABELS } from '../constants';
+import { formatTotalDuration } from '../utils/time';
+import {
+  getDailyStats,
+  getWeeklyStats,
+  getMonthlyStats,
+  getRecentPeriods,
+  getSystemTimeZone,
+  getWeekday,
+  parseDayKey,
+  PeriodStats,
+  StatsPeriod
+} from '../utils/stats';
+
+const HEATMAP_WEEKS = 20;
+const HEATMAP_LEVEL_CLASSES = [
+  'bg-gray-200 dark:bg-gray-700/60',
+  'bg-violet-200 dark:bg-violet-900',
+  'bg-violet-400 dark:bg-violet-700',
+  'bg-violet-600 dark:bg-violet-500',
+  'bg-violet-800 dark:bg-violet-300',
+];
+const TREND_COUNTS: Record<StatsPeriod, number> = { day: 14, week: 12, month: 12 };
+const TREND_LABELS: Record<StatsPeriod, string> = { day: 'Days', week: 'Weeks', month: 'Months' };
+const DIFFICULTY_BAR_CLASSES = {
+  [DIFFICULTY.EASY]: 'bg-emerald-400',
+  [DIFFICULTY.MEDIUM]: 'bg-amber-400',
+  [DIFFICULTY.HARD]: 'bg-rose-500',
+};
+
+const formatDay = (period: PeriodStats) =>
+  new Date(period.start).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' });
+
+const formatPeriodLabel = (period: PeriodStats, kind: StatsPeriod) => {
+  const date = new Date(period.start);
+  if (kind === 'month') return date.toLocaleDateString([], { month: 'short' });
+  return date.toLocaleDateString([], { month: 'numeric', day: 'numeric' });
+};
+
+const describePeriod = (period: PeriodStats) => [
+  `${formatTotalDuration(period.focusMs)} focus, ${formatTotalDuration(period.breakMs)} break`,
+  `${period.sessionCount} sessions, ${period.avgDistractions.toFixed(1)} distractions avg`,
+  ...(period.abandonedCount > 0 ? [`${period.abandonedCount} abandoned (${formatTotalDuration(period.abandonedMs)})`] : []),
+  period.focusBreakRatio !== null ? `Focus/break ${period.focusBreakRatio.toFixed(1)}:1` : 'No breaks',
+].join('\n');
+
+// Heatmap intensity relative to the busiest day shown
+const getLevel = (focusMs: number, maxMs: number) =>
+  focusMs <= 0 || maxMs <= 0 ? 0 : Math.min(4, Math.ceil((focusMs / maxMs) * 4));
+
+/**
+ * MiniStats
+ * Calendar heatmap of daily focus time and a trend chart per day, week or
+ * month, computed from history in the browser's time zone.
+ */
+export const MiniStats = () => {
+  const history = useHistoryStore(state => state.history);
+  const [trendPeriod, setTrendPeriod] = useState<StatsPeriod>('week');
+  const timeZone = getSystemTimeZone();
+
+  const daily = useMemo(() => getDailyStats(history, { timeZone }), [history, timeZone]);
+
+  // Columns are weeks (Monday first), ending with the current partial week
+  const heatmapWeeks = useMemo(() => {
+    const today = getRecentPeriods(daily, 'day', 1, Date.now(), { timeZone })[0];
+    const weekday = getWeekday(parseDayKey(today.key));
+    const days = getRecentPeriods(daily, 'day', (HEATMAP_WEEKS - 1) * 7 + weekday + 1, Date.now(), { timeZone });
+    const weeks: PeriodStats[][] = [];
+    for (let i = 0; i < days.length; i += 7) weeks.push(days.slice(i, i + 7));
+    return weeks;
+  }, [daily, timeZone]);
+
+  const heatmapMaxMs = useMemo(
+    () => Math.max(0, ...heatmapWeeks.flat().map(day => day.focusMs)),
+    [heatmapWeeks]
+  );
+
+  const trend = useMemo(() => {
+    const stats = trendPeriod === 'day'
+      ? daily
+      : trendPeriod === 'week'
+        ? getWeeklyStats(history, { timeZone })
+        : getMonthlyStats(history, { timeZone });
+    return getRecentPeriods(stats, trendPeriod, TREND_COUNTS[trendPeriod], Date.now(), { timeZone });
+  }, [daily, history, trendPeriod, timeZone]);
+
+  const trendMaxMs = Math.max(0, ...trend.map(period => period.focusMs));
+  const current = trend[trend.length - 1];
+  const mixTotal = Object.values(current.difficultyMix).reduce((sum, count) => sum + count, 0);
+
+  return (
+    <div className="space-y-4 text-xs text-gray-700 dark:text-gray-300">
+      <div>
+        <div className="font-semibold mb-1">Focus calendar</div>
+        <div className="flex gap-[3px] overflow-x-auto" role="grid" aria-label="Daily focus time">
+          {heatmapWeeks.map(week => (
+            <div key={week[0].key} className="flex flex-col gap-[3px]" role="row">
+              {week.map(day => (
+                <div
+                  key={day.key}
+                  role="gridcell"
+                  className={`w-3 h-3 rounded-sm ${HEATMAP_LEVEL_CLASSES[getLevel(day.focusMs, heatmapMaxMs)]}`}
+                  title={`${formatDay(day)}\n${describePeriod(day)}`}
+                />
+              ))}
+            </div>
+          ))}
+        </div>
+        <div className="flex items-center gap-1 mt-1 opacity-70">
+          <span>Less</span>
+          {HEATMAP_LEVEL_CLASSES.map(levelClass => (
+            <span key={levelClass} className={`w-2.5 h-2.5 rounded-sm ${levelClass}`} />
+          ))}
+          <span>More</span>
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <div className="font-semibold">Focus trend</div>
+          <div className="flex gap-1">
+            {(Object.keys(TREND_LABELS) as StatsPeriod[]).map(period => (
+              <button
+                key={period}
+                type="button"
+                onClick={() => setTrendPeriod(period)}
+                className={`px-1.5 py-0.5 rounded ${trendPeriod === period
+                  ? 'bg-violet-600 text-white'
+                  : 'bg-white/40 dark:bg-gray-700/60 hover:bg-white/60 dark:hover:bg-gray-700'}`}
+                aria-pressed={trendPeriod === period}
+              >
+                {TREND_LABELS[period]}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="flex items-end gap-1 h-20">
+          {trend.map(period => (
+            <div key={period.key} className="flex-1 h-full flex items-end" title={`${period.key}\n${describePeriod(period)}`}>
+              <div
+                className="w-full rounded-t bg-violet-500/80 dark:bg-violet-400/80"
+                style={{ height: trendMaxMs > 0 ? `${Math.max(2, (period.focusMs / trendMaxMs) * 100)}%` : '2%' }}
+              />
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-between mt-1 opacity-60">
+          <span>{formatPeriodLabel(trend[0], trendPeriod)}</span>
+          <span>{formatPeriodLabel(current, trendPeriod)}</span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="p-2 rounded bg-white/40 dark:bg-gray-700/40">
+          <div className="opacity-70">Focus (current {trendPeriod})</div>
+          <div className="text-sm font-semibold">{formatTotalDuration(current.focusMs)}</div>
+        </div>
+        <div className="p-2 rounded bg-white/40 dark:bg-gray-700/40">
+          <div className="opacity-70">Sessions</div>
+          <div className="text-sm font-semibold">{current.sessionCount}</div>
+        </div>
+        <div className="p-2 rounded bg-white/40 dark:bg-gray-700/40">
+          <div className="opacity-70">Avg distractions</div>
+          <div className="text-sm font-semibold">{current.avgDistractions.toFixed(1)}</div>
+        </div>
+        <div className="p-2 rounded bg-white/40 dark:bg-gray-700/40">
+          <div className="opacity-70">Focus / break</div>
+          <div className="text-sm font-semibold">
+            {current.focusBreakRatio !== null ? `${current.focusBreakRatio.toFixed(1)} : 1` : '—'}
+          </div>
+        </div>
+      </div>
+
+      {mixTotal > 0 && (
+        <div>
+          <div className="opacity-70 mb-1">Difficulty mix</div>
+          <div className="flex h-2 rounded overflow-hidden">
+            {Object.values(DIFFICULTY).map(level => current.difficultyMix[level] > 0 && (
+              <div
+                key={level}
+                className={DIFFICULTY_BAR_CLASSES[level]}
+                style={{ width: `${(current.difficultyMix[level] / mixTotal) * 100}%` }}
+                title={`${DIFFICULTY_LABELS[level]}: ${current.difficultyMix[level]}`}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MiniStats;
@@ -1,78 +1,33 @@
-import React, { useEffect, useState } from 'react';
+import React, { useState } from 'react';
 import { useSound } from '../features/audio/useSound';
-import { STORAGE_KEYS } from '../constants';
+import { useMissionStore } from '../store/missionSlice';
 import InlineCollapsibleCard from './ui/InlineCollapsibleCard';
 import { useInlineMinimize } from '../hooks/useInlineMinimize';
-
-interface TodoItem {
-  id: string;
-  text: string;
-  done: boolean;
-  // Marks items created via Mission Goal feature
-  fromGoal?: boolean;
-}
+import { useAppEvent } from '../hooks/useAppEvent';
 
 export const MissionBoard: React.FC = () => {
-  const [items, setItems] = useState<TodoItem[]>([]);
+  const { items, addItem: addMission, toggleItem: toggleMission, deleteItem } = useMissionStore();
   const [newItemText, setNewItemText] = useState('');
   const playCheckSound = useSound('check.mp3');
   const { collapsed, toggle } = useInlineMinimize('mission-board', false);
 
-  // Load items
-  useEffect(() => {
-    const savedItems = localStorage.getItem(STORAGE_KEYS.TODO);
-    if (savedItems) {
-      try {
-        const parsed = JSON.parse(savedItems);
-        if (Array.isArray(parsed)) setItems(parsed);
-      } catch (e) {
-        console.error('Failed to parse todo items:', e);
-      }
-    }
-  }, []);
-
-  // Persist items
-  useEffect(() => {
-    localStorage.setItem(STORAGE_KEYS.TODO, JSON.stringify(items));
-  }, [items]);
-
-  const generateId = () => Date.now().toString(36) + Math.random().toString(36).slice(2);
-
   const addItem = (e: React.FormEvent) => {
     e.preventDefault();
     if (!newItemText.trim()) return;
-    setItems(prev => [{ id: generateId(), text: newItemText.trim(), done: false, fromGoal: false }, ...prev]);
+    addMission(newItemText);
     setNewItemText('');
   };
 
   // Listen for mission additions from Goal Panel
-  useEffect(() => {
-    const onAdd = (e: Event) => {
-      try {
-        const { title, source } = (e as CustomEvent<{ title?: string; source?: string }>).detail ?? {};
-        if (!title || !title.trim()) return;
-        setItems(prev => [{ id: generateId(), text: title.trim(), done: false, fromGoal: source === 'goal-panel' }, ...prev]);
-      } catch (err) {
-        console.warn('[MissionBoard] Failed to handle mission:add', err);
-      }
-    };
-    window.addEventListener('mission:add', onAdd as EventListener);
-    return () => window.removeEventListener('mission:add', onAdd as EventListener);
-  }, []);
+  useAppEvent('mission:add', ({ title, source }) => {
+    addMission(title, source === 'goal-panel');
+  });
 
   const toggleItem = (id: string) => {
-    setItems(prev => prev.map(it => {
-      if (it.id === id) {
-        const newDone = !it.done;
-        if (newDone) playCheckSound();
-        return { ...it, done: newDone };
-      }
-      return it;
-    }));
+    if (!items.find(it => it.id === id)?.done) playCheckSound();
+    toggleMission(id);
   };
 
-  const deleteItem = (id: string) => setItems(prev => prev.filter(it => it.id !== id));
-
   return (
     <InlineCollapsibleCard
       id="mission-board"
@@ -0,0 +1,306 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import InlineCollapsibleCard from './ui/InlineCollapsibleCard';
+import { useInlineMinimize } from '../hooks/useInlineMinimize';
+import {
+  usePlannerStore,
+  PlannedBlock,
+  getBlocksForDay,
+  getBlockStatus,
+  getDayStart,
+  getNextDayStart,
+  compareBlockWithHistory
+} from '../store/plannerSlice';
+import { useCalendarStore, CalendarEvent, getEventsForDay, getOverlappingEvents } from '../store/calendarSlice';
+import { useHistoryStore, isSessionData } from '../store/historySlice';
+import { useTimerStore } from '../store/timerSlice';
+import { formatTotalDuration } from '../utils/time';
+import {
+  DIFFICULTY,
+  DIFFICULTY_LABELS,
+  PLANNER_DEFAULT_BLOCK_MINUTES,
+  PLANNER_ON_TIME_TOLERANCE_MS,
+  PLANNER_REMINDER_CHECK_INTERVAL_MS
+} from '../constants';
+
+type Difficulty = typeof DIFFICULTY[keyof typeof DIFFICULTY];
+
+interface PlannerPanelProps {
+  onReminder?: (block: PlannedBlock) => void;
+  onBlockStart?: () => void;
+}
+
+const STATUS_STYLES = {
+  upcoming: 'border-gray-300 dark:border-gray-600',
+  due: 'border-violet-500 bg-violet-50 dark:bg-violet-900/30',
+  done: 'border-green-500',
+  missed: 'border-red-400 opacity-70',
+} as const;
+
+const formatClock = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+// Combine a day and an "HH:MM" input value into a timestamp
+const atTimeOfDay = (day: number, time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const date = new Date(day);
+  date.setHours(hours || 0, minutes || 0, 0, 0);
+  return date.getTime();
+};
+
+/**
+ * PlannerPanel
+ * Day timeline of planned focus blocks. Due blocks trigger a reminder and can
+ * be started with one click; past blocks show planned vs actual focus.
+ * Meetings imported from a calendar show up as busy blocks.
+ */
+export const PlannerPanel: React.FC<PlannerPanelProps> = ({ onReminder, onBlockStart }) => {
+  const { collapsed, toggle } = useInlineMinimize('planner', false);
+  const { blocks, addBlock, removeBlock, markReminded, startBlock } = usePlannerStore();
+  const history = useHistoryStore(state => state.history);
+  const events = useCalendarStore(state => state.events);
+  const isSessionActive = useTimerStore(state => state.isSessionActive);
+  const plannedBlockId = useTimerStore(state => state.plannedBlockId);
+
+  const [day, setDay] = useState(() => getDayStart(Date.now()));
+  const [now, setNow] = useState(() => Date.now());
+  const [time, setTime] = useState('09:00');
+  const [minutes, setMinutes] = useState(String(PLANNER_DEFAULT_BLOCK_MINUTES));
+  const [goal, setGoal] = useState('');
+  const [difficulty, setDifficulty] = useState<Difficulty>(DIFFICULTY.MEDIUM);
+
+  const dayBlocks = useMemo(() => getBlocksForDay(blocks, day), [blocks, day]);
+  const dayEvents = useMemo(() => getEventsForDay(events, day), [events, day]);
+
+  // Planned blocks and busy blocks interleaved by start time
+  const timeline = useMemo(() => [
+    ...dayBlocks.map(block => ({ kind: 'block' as const, at: block.startAt, block })),
+    ...dayEvents.map(event => ({ kind: 'busy' as const, at: event.start, event })),
+  ].sort((a, b) => a.at - b.at), [dayBlocks, dayEvents]);
+  const isToday = day === getDayStart(now);
+
+  // Latest callback without restarting the reminder interval
+  const onReminderRef = useRef(onReminder);
+  onReminderRef.current = onReminder;
+
+  // Check for due blocks on a slow interval; each block reminds once
+  useEffect(() => {
+    const checkReminders = () => {
+      const current = Date.now();
+      setNow(current);
+      if (useTimerStore.getState().isSessionActive) return;
+      for (const block of getBlocksForDay(usePlannerStore.getState().blocks, current)) {
+        if (!block.remindedAt && getBlockStatus(block, useHistoryStore.getState().history, current) === 'due') {
+          console.log(`[Planner] Block due: '${block.goal}'`);
+          markReminded(block.id);
+          onReminderRef.current?.(block);
+        }
+      }
+    };
+    checkReminders();
+    const interval = setInterval(checkReminders, PLANNER_REMINDER_CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [markReminded]);
+
+  // Planned vs actual for the selected day
+  const dayTotals = useMemo(() => {
+    const nextDay = getNextDayStart(day);
+    const plannedMs = dayBlocks.reduce((total, block) => total + block.durationMinutes * 60000, 0);
+    const daySessions = history.filter(isSessionData).filter(s => s.timestamp >= day && s.timestamp < nextDay);
+    const fromPlanMs = daySessions.filter(s => s.plannedBlockId).reduce((total, s) => total + s.duration, 0);
+    const unplannedMs = daySessions.filter(s => !s.plannedBlockId).reduce((total, s) => total + s.duration, 0);
+    return { plannedMs, fromPlanMs, unplannedMs };
+  }, [dayBlocks, history, day]);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const duration = parseInt(minutes, 10);
+    if (!goal.trim() || isNaN(duration) || duration <= 0) return;
+    addBlock({
+      startAt: atTimeOfDay(day, time),
+      durationMinutes: duration,
+      goal: goal.trim(),
+      difficulty,
+    });
+    setGoal('');
+  };
+
+  const handleStart = (id: string) => {
+    startBlock(id);
+    onBlockStart?.();
+  };
+
+  const shiftDay = (delta: number) => {
+    const next = new Date(day);
+    next.setDate(next.getDate() + delta);
+    setDay(next.getTime());
+  };
+
+  const renderComparison = (block: PlannedBlock) => {
+    const { plannedMs, actualMs, startDelayMs } = compareBlockWithHistory(block, history);
+    const delayLabel = startDelayMs === null
+      ? ''
+      : Math.abs(startDelayMs) <= PLANNER_ON_TIME_TOLERANCE_MS
+        ? ' · on time'
+        : ` · started ${startDelayMs > 0 ? '+' : '-'}${formatTotalDuration(Math.abs(startDelayMs))}`;
+    return (
+      <span className="text-[11px] text-gray-500 dark:text-gray-400">
+        {formatTotalDuration(actualMs)} of {formatTotalDuration(plannedMs)}{delayLabel}
+      </span>
+    );
+  };
+
+  const renderBusy = (event: CalendarEvent) => (
+    <div
+      key={`busy-${event.id}`}
+      className="pl-3 pr-2 py-1.5 border-l-4 border-gray-400 dark:border-gray-500 rounded bg-[repeating-linear-gradient(135deg,transparent,transparent_6px,rgba(156,163,175,0.15)_6px,rgba(156,163,175,0.15)_12px)]"
+      title={event.location ? `${event.title} · ${event.location}` : event.title}
+    >
+      <div className="text-[11px] font-mono text-gray-500 dark:text-gray-400">
+        {formatClock(event.start)}–{formatClock(event.end)} · Busy
+      </div>
+      <div className="text-sm text-gray-600 dark:text-gray-300 truncate">{event.title}</div>
+    </div>
+  );
+
+  return (
+    <InlineCollapsibleCard
+      id="planner"
+      title="Day Planner"
+      subtitle={<span className="opacity-70">Schedule focus blocks</span>}
+      helpTitle="Plan blocks, get reminded, start with one click"
+      onHelpClick={() => {}}
+      collapsed={collapsed}
+      onToggleCollapse={toggle}
+      className="p-0"
+      contentClassName="p-3"
+    >
+      {/* Day navigation */}
+      <div className="flex items-center justify-between mb-3 text-sm text-gray-800 dark:text-gray-200">
+        <button onClick={() => shiftDay(-1)} className="px-2 rounded hover:bg-gray-200 dark:hover:bg-gray-700" aria-label="Previous day">‹</button>
+        <span className="font-medium">
+          {isToday ? 'Today' : new Date(day).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })}
+        </span>
+        <button onClick={() => shiftDay(1)} className="px-2 rounded hover:bg-gray-200 dark:hover:bg-gray-700" aria-label="Next day">›</button>
+      </div>
+
+      {/* Add block */}
+      <form onSubmit={handleAdd} className="mb-3 grid grid-cols-[auto_4rem_1fr] gap-2 text-sm">
+        <input
+          type="time"
+          value={time}
+          onChange={e => setTime(e.target.value)}
+          className="p-1.5 border rounded dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+          aria-label="Start time"
+        />
+        <input
+          type="number"
+          min={1}
+          value={minutes}
+          onChange={e => setMinutes(e.target.value)}
+          className="p-1.5 border rounded dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+          aria-label="Minutes"
+        />
+        <select
+          value={difficulty}
+          onChange={e => setDifficulty(e.target.value as Difficulty)}
+          className="p-1.5 border rounded dark:bg-gray-700 dark:border-gray-600 dark:text-white min-w-0"
+          aria-label="Difficulty"
+        >
+          {Object.values(DIFFICULTY).map(level => (
+            <option key={level} value={level}>{DIFFICULTY_LABELS[level]}</option>
+          ))}
+        </select>
+        <div className="col-span-3 flex">
+          <input
+            type="text"
+            value={goal}
+            onChange={e => setGoal(e.target.value)}
+            placeholder="Block goal..."
+            className="flex-grow min-w-0 p-2 border rounded-l focus:outline-none focus:ring-2 focus:ring-deep-purple-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+          />
+          <button
+            type="submit"
+            className="px-3 py-2 bg-deep-purple-600 text-white rounded-r font-medium hover:bg-deep-purple-700 dark:bg-deep-purple-700 dark:hover:bg-deep-purple-800"
+          >
+            Plan
+          </button>
+        </div>
+      </form>
+
+      {/* Timeline */}
+      <div className="space-y-1.5 max-h-[50vh] overflow-y-auto pr-1">
+        {timeline.length === 0 ? (
+          <div className="text-xs text-gray-500 dark:text-gray-400 py-2">No blocks planned.</div>
+        ) : (
+          timeline.map(entry => {
+            if (entry.kind === 'busy') return renderBusy(entry.event);
+            const { block } = entry;
+            const conflict = getOverlappingEvents(dayEvents, block.startAt, block.startAt + block.durationMinutes * 60000)[0];
+            const status = getBlockStatus(block, history, now);
+            const isRunning = isSessionActive && plannedBlockId === block.id;
+            return (
+              <div
+                key={block.id}
+                className={`pl-3 pr-2 py-2 border-l-4 rounded bg-gray-100 dark:bg-gray-700/50 flex items-center justify-between gap-2 group ${STATUS_STYLES[status]}`}
+              >
+                <div className="min-w-0">
+                  <div className="text-[11px] font-mono text-gray-500 dark:text-gray-400">
+                    {formatClock(block.startAt)}–{formatClock(block.startAt + block.durationMinutes * 60000)}
+                  </div>
+                  <div className="text-sm text-gray-800 dark:text-gray-200 truncate">{block.goal}</div>
+                  {status === 'done' && renderComparison(block)}
+                  {status === 'missed' && <span className="text-[11px] text-red-500 dark:text-red-400">Missed</span>}
+                  {conflict && status !== 'done' && status !== 'missed' && (
+                    <span className="text-[11px] text-amber-600 dark:text-amber-400">⚠ Overlaps {conflict.title}</span>
+                  )}
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  {isRunning ? (
+                    <span className="text-[11px] text-violet-600 dark:text-violet-300">In progress</span>
+                  ) : status !== 'done' && (
+                    <button
+                      onClick={() => handleStart(block.id)}
+                      disabled={isSessionActive}
+                      className="px-2 py-1 text-xs rounded bg-deep-purple-600 text-white hover:bg-deep-purple-700 disabled:opacity-40"
+                      title={`Start ${block.durationMinutes} min · ${DIFFICULTY_LABELS[block.difficulty]}`}
+                    >
+                      ▶
+                    </button>
+                  )}
+                  <button
+                    onClick={() => removeBlock(block.id)}
+                    className="text-gray-400 hover:text-red-500 dark:text-gray-500 dark:hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity px-1"
+                    aria-label="Delete block"
+                    title="Delete"
+                  >
+                    ×
+                  </button>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      {/* Planned vs actual */}
+      {(dayBlocks.length > 0 || dayTotals.unplannedMs > 0) && (
+        <div className="mt-3 pt-2 border-t border-gray-200 dark:border-gray-700 grid grid-cols-3 gap-2 text-center text-[11px] text-gray-500 dark:text-gray-400">
+          <div>
+            <div className="uppercase tracking-wide">Planned</div>
+            <div className="text-sm font-semibold text-gray-800 dark:text-gray-200">{formatTotalDuration(dayTotals.plannedMs)}</div>
+          </div>
+          <div>
+            <div className="uppercase tracking-wide">From plan</div>
+            <div className="text-sm font-semibold text-gray-800 dark:text-gray-200">{formatTotalDuration(dayTotals.fromPlanMs)}</div>
+          </div>
+          <div>
+            <div className="uppercase tracking-wide">Unplanned</div>
+            <div className="text-sm font-semibold text-gray-800 dark:text-gray-200">{formatTotalDuration(dayTotals.unplannedMs)}</div>
+          </div>
+        </div>
+      )}
+    </InlineCollapsibleCard>
+  );
+};
+
+export default PlannerPanel;
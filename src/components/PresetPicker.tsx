@@ -0,0 +1,249 @@
+import React, { useState } from 'react';
+import { usePresetStore, SessionPreset } from '../store/presetSlice';
+import { useTimerStore } from '../store/timerSlice';
+import { useWarpStore } from '../store/warpSlice';
+import { useAudio } from '../features/audio/AudioProvider';
+import { useApplyPreset } from '../hooks/useApplyPreset';
+import { DIFFICULTY, DIFFICULTY_LABELS, WARP_MODE, EXPERIMENT_LIGHT_SPEED } from '../constants';
+
+interface PresetPickerProps {
+  className?: string;
+  onSessionStart?: () => void;
+}
+
+type PresetDraft = Omit<SessionPreset, 'id'>;
+
+const WARP_LABELS: Record<string, string> = {
+  [WARP_MODE.NONE]: 'Off',
+  [WARP_MODE.BACKGROUND]: 'SpaceX',
+  [WARP_MODE.FULL]: 'Full',
+  [WARP_MODE.LIGHT_SPEED]: 'Light Speed',
+};
+
+const WARP_OPTIONS = EXPERIMENT_LIGHT_SPEED
+  ? [WARP_MODE.NONE, WARP_MODE.BACKGROUND, WARP_MODE.LIGHT_SPEED]
+  : [WARP_MODE.NONE, WARP_MODE.BACKGROUND, WARP_MODE.FULL];
+
+const ALBUMS = ['album1', 'album2', 'album3'] as const;
+
+const describePreset = (preset: SessionPreset) =>
+  `${preset.minutes === null ? '∞' : `${preset.minutes}m`} / ${DIFFICULTY_LABELS[preset.difficulty]} / ` +
+  `${WARP_LABELS[preset.warpMode]} / ${preset.album}${preset.fortyHz ? ' / 40Hz' : ''}`;
+
+/**
+ * PresetPicker
+ * Popover listing named session presets. Each can be applied (timer, warp,
+ * music, 40Hz) or applied and started in one click, and edited in place.
+ */
+export const PresetPicker = ({ className = '', onSessionStart }: PresetPickerProps) => {
+  const { presets, addPreset, updatePreset, removePreset } = usePresetStore();
+  const isSessionActive = useTimerStore(state => state.isSessionActive);
+  const { selectedAlbum } = useAudio();
+  const applyPreset = useApplyPreset();
+  const [isOpen, setIsOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<PresetDraft | null>(null);
+
+  // Start a new preset from whatever is set up right now
+  const draftFromCurrent = (): PresetDraft => {
+    const timer = useTimerStore.getState();
+    const minutes = parseInt(timer.minutes, 10);
+    return {
+      name: '',
+      minutes: timer.isInfinite ? null : (isNaN(minutes) ? 25 : minutes),
+      difficulty: timer.currentDifficulty,
+      warpMode: useWarpStore.getState().warpMode,
+      album: selectedAlbum,
+      fortyHz: false,
+    };
+  };
+
+  const startEditing = (preset: SessionPreset | null) => {
+    if (preset) {
+      const { id, ...rest } = preset;
+      setEditingId(id);
+      setDraft(rest);
+    } else {
+      setEditingId(null);
+      setDraft(draftFromCurrent());
+    }
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft || !draft.name.trim()) return;
+    const preset = { ...draft, name: draft.name.trim() };
+    if (editingId) {
+      updatePreset(editingId, preset);
+    } else {
+      addPreset(preset);
+    }
+    setDraft(null);
+    setEditingId(null);
+  };
+
+  const handleApply = (id: string, start: boolean) => {
+    if (applyPreset(id, { start }) && start) {
+      onSessionStart?.();
+      setIsOpen(false);
+    }
+  };
+
+  const inputClass = 'px-2 py-1 border rounded dark:bg-gray-700 dark:border-gray-600 min-w-0';
+
+  return (
+    <div className={`relative ${className}`}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(o => !o)}
+        className="h-8 px-2 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-violet-500 text-gray-800 dark:text-gray-200 bg-white/40 dark:bg-gray-700/60 hover:bg-white/60 dark:hover:bg-gray-700"
+        title="Session presets"
+        aria-expanded={isOpen}
+      >
+        ★
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-10 z-30 w-72 p-3 rounded-lg shadow-xl bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200 text-xs space-y-2">
+          <div className="font-semibold">Presets</div>
+
+          {presets.length === 0 && <div className="text-gray-500 dark:text-gray-400">No presets yet.</div>}
+
+          {presets.map(preset => (
+            <div key={preset.id} className="flex items-center justify-between gap-2 group">
+              <div className="min-w-0">
+                <div className="font-medium truncate">{preset.name}</div>
+                <div className="text-[10px] text-gray-500 dark:text-gray-400 truncate">{describePreset(preset)}</div>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                <button
+                  type="button"
+                  onClick={() => handleApply(preset.id, false)}
+                  disabled={isSessionActive}
+                  className="px-2 py-1 rounded bg-white/40 dark:bg-gray-700/60 hover:bg-white/60 dark:hover:bg-gray-700 disabled:opacity-40"
+                  title="Apply settings"
+                >
+                  Apply
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleApply(preset.id, true)}
+                  disabled={isSessionActive}
+                  className="px-2 py-1 rounded bg-violet-600 text-white hover:bg-violet-700 disabled:opacity-40"
+                  title="Apply and start"
+                >
+                  ▶
+                </button>
+                <button
+                  type="button"
+                  onClick={() => startEditing(preset)}
+                  className="px-1 text-gray-400 hover:text-violet-500"
+                  title="Edit"
+                >
+                  ✎
+                </button>
+                <button
+                  type="button"
+                  onClick={() => removePreset(preset.id)}
+                  className="px-1 text-gray-400 hover:text-red-500"
+                  title="Delete"
+                >
+                  ×
+                </button>
+              </div>
+            </div>
+          ))}
+
+          {draft ? (
+            <form onSubmit={handleSave} className="pt-2 border-t border-gray-200 dark:border-gray-700 grid grid-cols-2 gap-2">
+              <input
+                type="text"
+                value={draft.name}
+                onChange={e => setDraft({ ...draft, name: e.target.value })}
+                placeholder="Preset name"
+                className={`${inputClass} col-span-2`}
+                autoFocus
+              />
+              <label className="flex items-center gap-1">
+                <input
+                  type="number"
+                  min={1}
+                  value={draft.minutes ?? ''}
+                  disabled={draft.minutes === null}
+                  onChange={e => setDraft({ ...draft, minutes: parseInt(e.target.value, 10) || 1 })}
+                  className={`${inputClass} w-14`}
+                  aria-label="Minutes"
+                />
+                <span>min</span>
+              </label>
+              <label className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={draft.minutes === null}
+                  onChange={e => setDraft({ ...draft, minutes: e.target.checked ? null : 25 })}
+                />
+                <span>∞</span>
+              </label>
+              <select
+                value={draft.difficulty}
+                onChange={e => setDraft({ ...draft, difficulty: e.target.value as PresetDraft['difficulty'] })}
+                className={inputClass}
+                aria-label="Difficulty"
+              >
+                {Object.values(DIFFICULTY).map(level => (
+                  <option key={level} value={level}>{DIFFICULTY_LABELS[level]}</option>
+                ))}
+              </select>
+              <select
+                value={draft.warpMode}
+                onChange={e => setDraft({ ...draft, warpMode: e.target.value as PresetDraft['warpMode'] })}
+                className={inputClass}
+                aria-label="Warp mode"
+              >
+                {WARP_OPTIONS.map(mode => (
+                  <option key={mode} value={mode}>{WARP_LABELS[mode]}</option>
+                ))}
+              </select>
+              <select
+                value={draft.album}
+                onChange={e => setDraft({ ...draft, album: e.target.value as PresetDraft['album'] })}
+                className={inputClass}
+                aria-label="Album"
+              >
+                {ALBUMS.map(album => (
+                  <option key={album} value={album}>{album.replace('album', 'Album ')}</option>
+                ))}
+              </select>
+              <label className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={draft.fortyHz}
+                  onChange={e => setDraft({ ...draft, fortyHz: e.target.checked })}
+                />
+                <span>40Hz</span>
+              </label>
+              <div className="col-span-2 flex justify-end gap-2">
+                <button type="button" onClick={() => setDraft(null)} className="px-2 py-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700">
+                  Cancel
+                </button>
+                <button type="submit" className="px-2 py-1 rounded bg-violet-600 text-white hover:bg-violet-700">
+                  Save
+                </button>
+              </div>
+            </form>
+          ) : (
+            <div className="flex justify-end pt-1">
+              <button
+                type="button"
+                onClick={() => startEditing(null)}
+                className="px-2 py-1 rounded-md bg-white/40 dark:bg-gray-700/60 hover:bg-white/60 dark:hover:bg-gray-700"
+              >
+                Save current as preset
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import { useMemo } from 'react';
+import InlineCollapsibleCard from './ui/InlineCollapsibleCard';
+import { useInlineMinimize } from '../hooks/useInlineMinimize';
+import { useHistoryStore } from '../store/historySlice';
+import { useProjectStore } from '../store/projectSlice';
+import { getProjectSummaries, ProjectSummary } from '../utils/projects';
+import { formatTotalDuration } from '../utils/time';
+
+const STATUS_BAR_CLASSES: Record<ProjectSummary['status'], string> = {
+  none: 'bg-violet-500',
+  'on-track': 'bg-emerald-500',
+  behind: 'bg-amber-500',
+  over: 'bg-red-500',
+};
+
+const describeStatus = (summary: ProjectSummary) => {
+  if (summary.status === 'over' && summary.budgetMs !== null) {
+    return `Over budget by ${formatTotalDuration(summary.weekMs - summary.budgetMs)}`;
+  }
+  if (summary.status === 'behind' && summary.expectedMs !== null) {
+    return `Behind plan: ${formatTotalDuration(summary.weekMs)} of ${formatTotalDuration(summary.expectedMs)} due by now`;
+  }
+  return null;
+};
+
+/**
+ * ProjectPanel
+ * Focus time per project, this week against an optional weekly budget.
+ */
+export const ProjectPanel = () => {
+  const { collapsed, toggle } = useInlineMinimize('projects', false);
+  const history = useHistoryStore(state => state.history);
+  const { budgets, setWeeklyBudget } = useProjectStore();
+
+  const summaries = useMemo(() => getProjectSummaries(history, budgets), [history, budgets]);
+  const warnings = summaries.filter(summary => summary.status === 'over' || summary.status === 'behind').length;
+
+  return (
+    <InlineCollapsibleCard
+      id="projects"
+      title="Projects"
+      subtitle={<span className="opacity-70">{warnings > 0 ? `${warnings} need attention` : 'Time per project'}</span>}
+      collapsed={collapsed}
+      onToggleCollapse={toggle}
+      className="p-0 rounded-2xl"
+      contentClassName="p-3"
+    >
+      {summaries.length === 0 ? (
+        <div className="text-sm text-gray-500 dark:text-gray-400">
+          Pick a project before starting a session to total time per project.
+        </div>
+      ) : (
+        <ul className="space-y-3 text-xs text-gray-700 dark:text-gray-300">
+          {summaries.map(summary => {
+            const status = describeStatus(summary);
+            const barWidth = summary.budgetMs ? Math.min(100, (summary.weekMs / summary.budgetMs) * 100) : 0;
+            return (
+              <li key={summary.project}>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-semibold truncate" title={summary.project}>📁 {summary.project}</span>
+                  <span className="opacity-70 flex-shrink-0">
+                    {formatTotalDuration(summary.totalMs)} · {summary.sessionCount} sessions
+                  </span>
+                </div>
+                <div className="flex items-center gap-2 mt-1">
+                  <span className="w-20 flex-shrink-0">
+                    Week {formatTotalDuration(summary.weekMs)}
+                  </span>
+                  <div className="flex-1 h-1.5 rounded bg-gray-200 dark:bg-gray-700 overflow-hidden">
+                    {summary.budgetMs !== null && (
+                      <div className={`h-full ${STATUS_BAR_CLASSES[summary.status]}`} style={{ width: `${barWidth}%` }} />
+                    )}
+                  </div>
+                  <label className="flex items-center gap-1 flex-shrink-0" title="Weekly budget in hours (empty for none)">
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      value={summary.budgetMs !== null ? summary.budgetMs / 3600000 : ''}
+                      placeholder="—"
+                      onChange={e => setWeeklyBudget(summary.project, e.target.value === '' ? null : Number(e.target.value) * 60)}
+                      className="w-12 px-1 py-0.5 rounded border border-gray-300 dark:border-gray-600 bg-transparent text-right"
+                      aria-label={`Weekly budget for ${summary.project} in hours`}
+                    />
+                    <span className="opacity-70">h/wk</span>
+                  </label>
+                </div>
+                {status && (
+                  <div className={summary.status === 'over' ? 'mt-0.5 text-red-600 dark:text-red-400' : 'mt-0.5 text-amber-600 dark:text-amber-400'}>
+                    ⚠ {status}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </InlineCollapsibleCard>
+  );
+};
+
+export default ProjectPanel;
@@ -1,140 +1,390 @@
-import { useMemo } from 'react';
+import { memo, useCallback, useEffect, useMemo, useState } from 'react';
 import { formatDistanceToNow } from 'date-fns';
 import { BreakEntry } from './BreakEntry';
-import { msToClock } from '../utils/time';
-import { 
-  SESSION_TYPE, 
-  DIFFICULTY, 
-  DIFFICULTY_LABELS, 
+import { msToClock, formatTotalDuration } from '../utils/time';
+import {
+  SESSION_TYPE,
+  DIFFICULTY,
+  DIFFICULTY_LABELS,
   GOOD_POSTURE_THRESHOLD_PERCENT,
-  MAX_DISTRACTIONS_FOR_STREAK
+  MAX_DISTRACTIONS_FOR_STREAK,
+  DISTRACTION_CATEGORY_LABELS,
+  SESSION_OUTCOME,
+  SESSION_OUTCOME_LABELS,
+  HISTORY_PAGE_DAYS
 } from '../constants';
-import { SessionData, BreakData, HistoryItem } from '../store/historySlice';
+import { SessionData, BreakData, HistoryItem, getDistractionCategoryTotals, getSessionOutcome, isAbandonedSession } from '../store/historySlice';
+import { getDayStart } from '../store/plannerSlice';
+import { HistoryDayGroup } from '../utils/historyGroups';
+import { useVirtualList } from '../hooks/useVirtualList';
 
 // History item type guard functions
 const isSessionData = (item: HistoryItem): item is SessionData => item.type === SESSION_TYPE.FOCUS;
 const isBreakData = (item: HistoryItem): item is BreakData => item.type === SESSION_TYPE.BREAK;
 
+// Tooltip listing each logged distraction of a session
+const describeDistractions = (session: SessionData) =>
+  (session.distractionLog ?? [])
+    .map(event => {
+      const time = new Date(event.at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+      const label = event.category ? DISTRACTION_CATEGORY_LABELS[event.category] : 'Uncategorized';
+      return `${time} ${label}${event.note ? ` — ${event.note}` : ''}`;
+    })
+    .join('\n');
+
+// Day header label: Today, Yesterday or the date
+const describeDay = (dayStart: number) => {
+  const today = getDayStart(Date.now());
+  if (dayStart === today) return 'Today';
+  const yesterday = new Date(today);
+  yesterday.setDate(yesterday.getDate() - 1);
+  if (dayStart === yesterday.getTime()) return 'Yesterday';
+  return new Date(dayStart).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+};
+
 // Update props to use unified history
 interface SessionHistoryProps {
-  history: HistoryItem[];
+  groups: HistoryDayGroup[]; // Entries to show, grouped by day
+  fullHistory: HistoryItem[]; // Unfiltered history, for finding adjacent sessions
+  emptyMessage?: string;
   onBreakNoteChange: (breakId: string, note: string) => void;
   onBreakNoteSave: (breakId: string, note: string) => void;
+  isEditing?: boolean; // Show edit, merge and delete controls on each entry
+  onEditItem?: (item: HistoryItem) => void;
+  onDeleteItem?: (id: string) => void;
+  onMergeSessions?: (id: string, previousId: string) => void;
 }
 
-export const SessionHistory = ({ 
-  history,
+type HistoryRow =
+  | { kind: 'day'; key: string; group: HistoryDayGroup; collapsed: boolean }
+  | { kind: 'item'; key: string; item: HistoryItem };
+
+// Row heights before measuring, in px
+const ROW_ESTIMATES = { day: 36, session: 52, break: 64, editControls: 28 };
+
+const editButtonClass = 'px-1.5 py-0.5 rounded text-xs hover:bg-white/60 dark:hover:bg-gray-600';
+
+// Edit controls shown under an entry in edit mode
+const EditControls = ({ onEdit, onDelete, onMerge }: { onEdit: () => void; onDelete: () => void; onMerge?: () => void }) => (
+  <div className="flex justify-end gap-1 -mt-0.5 mb-1">
+    <button type="button" onClick={onEdit} className={editButtonClass} title="Edit entry">✏️</button>
+    {onMerge && (
+      <button type="button" onClick={onMerge} className={editButtonClass} title="Merge with the previous session">🔗</button>
+    )}
+    <button type="button" onClick={onDelete} className={editButtonClass} title="Delete entry">🗑️</button>
+  </div>
+);
+
+const SessionRow = ({ session }: { session: SessionData }) => {
+  // Update streak logic to match constants
+  const isStreak = session.distractions < MAX_DISTRACTIONS_FOR_STREAK && !isAbandonedSession(session);
+  const outcome = getSessionOutcome(session);
+
+  // Difficulty badge (🟢/🟡/🔴)
+  const difficultyBadge = {
+    [DIFFICULTY.EASY]: '🟢',
+    [DIFFICULTY.MEDIUM]: '🟡',
+    [DIFFICULTY.HARD]: '🔴'
+  }[session.difficulty || DIFFICULTY.MEDIUM];
+
+  return (
+    <div
+      className={`rounded-lg p-3 text-sm flex items-center justify-between ${
+        isStreak
+          ? 'bg-green-100 dark:bg-green-900/30'
+          : 'bg-gray-200 dark:bg-gray-700/80'
+      }`}
+    >
+      <div className="flex items-center space-x-2 flex-1 overflow-hidden">
+        {/* Goal and difficulty badge */}
+        <span title={DIFFICULTY_LABELS[session.difficulty || DIFFICULTY.MEDIUM]} className="flex-shrink-0">
+          {difficultyBadge}
+        </span>
+        <span title="Goal" className="truncate text-gray-800 dark:text-gray-200 font-medium flex-1 flex items-center">
+          {session.goal}
+          {(session.project || session.tags?.length) && (
+            <span className="ml-2 text-xs font-normal text-violet-700 dark:text-violet-300 truncate" title="Project and tags">
+              {[session.project && `📁 ${session.project}`, ...(session.tags ?? []).map(tag => `#${tag}`)].filter(Boolean).join(' ')}
+            </span>
+          )}
+          {outcome !== SESSION_OUTCOME.COMPLETED && (
+            <span
+              className={`ml-2 text-[10px] uppercase tracking-wide ${outcome === SESSION_OUTCOME.ABANDONED ? 'text-red-600 dark:text-red-400' : 'text-amber-600 dark:text-amber-400'}`}
+              title={session.outcomeReason || SESSION_OUTCOME_LABELS[outcome]}
+            >
+              {SESSION_OUTCOME_LABELS[outcome]}
+            </span>
+          )}
+          {session.manual && (
+            <span className="ml-2 text-[10px] uppercase tracking-wide text-gray-500 dark:text-gray-400" title="Logged or edited by hand">
+              manual
+            </span>
+          )}
+          {session.comment && (
+            <span className="ml-2 text-xs italic text-gray-500 dark:text-gray-400 truncate max-w-[160px] inline-block">
+              {session.comment}
+            </span>
+          )}
+        </span>
+      </div>
+
+      <div className="flex items-center space-x-3 flex-shrink-0">
+        <span title="Net focus time" className="text-gray-600 dark:text-gray-400">
+          ⏱️ {msToClock(session.duration)}
+        </span>
+        {!!session.overtimeMs && (
+          <span title="Overtime" className="text-orange-600 dark:text-orange-400">
+            +{msToClock(session.overtimeMs)}
+          </span>
+        )}
+        {session.pauseLog && session.pauseLog.length > 0 && (
+          <span
+            title={`Paused ${session.pauseLog.length}× for ${msToClock(session.pausedMs ?? 0)}`}
+            className="text-gray-500 dark:text-gray-400"
+          >
+            ⏸ {msToClock(session.pausedMs ?? 0)}
+          </span>
+        )}
+        <span title="Posture" className={`${session.posture !== undefined && session.posture >= GOOD_POSTURE_THRESHOLD_PERCENT ? 'text-green-600 dark:text-green-400' : 'text-gray-600 dark:text-gray-400'}`}>
+          👤 {session.posture !== undefined ? `${session.posture}%` : 'no data'}
+        </span>
+        <span
+          title={session.distractionLog?.length ? `Distractions:\n${describeDistractions(session)}` : "Distractions"}
+          className={`${session.distractions >= MAX_DISTRACTIONS_FOR_STREAK ? 'text-red-600 dark:text-red-400 font-bold' : 'text-green-600 dark:text-green-400'} flex items-center`}
+        >
+          ❌ {session.distractions}
+          {session.distractionLog?.some(event => event.note) && (
+            <span className="ml-1 text-xs inline-block text-gray-500 dark:text-gray-400">
+              📝
+            </span>
+          )}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+interface HistoryEntryProps extends Pick<SessionHistoryProps,
+  'onBreakNoteChange' | 'onBreakNoteSave' | 'onEditItem' | 'onDeleteItem' | 'onMergeSessions'> {
+  item: HistoryItem;
+  isEditing: boolean;
+  previousSessionId?: string;
+}
+
+// One entry; memoized so unchanged rows skip rendering when the list updates
+const HistoryEntry = memo(({
+  item,
+  isEditing,
+  previousSessionId,
+  onBreakNoteChange,
+  onBreakNoteSave,
+  onEditItem,
+  onDeleteItem,
+  onMergeSessions
+}: HistoryEntryProps) => {
+  const editControls = isEditing && (
+    <EditControls
+      onEdit={() => onEditItem?.(item)}
+      onDelete={() => onDeleteItem?.(item.id)}
+      onMerge={previousSessionId && onMergeSessions
+        ? () => onMergeSessions(item.id, previousSessionId)
+        : undefined}
+    />
+  );
+
+  if (isBreakData(item)) {
+    return (
+      <>
+        <BreakEntry
+          breakStartTime={item.start}
+          breakEndTime={item.end}
+          note={item.note}
+          onNoteChange={(note) => onBreakNoteChange(item.id, note)}
+          onNoteSave={(note) => onBreakNoteSave(item.id, note)}
+          isActive={item.end === null}
+          plannedDurationMs={item.plannedDurationMs}
+          isLongBreak={item.isLongBreak}
+          outcome={item.outcome}
+        />
+        {editControls}
+      </>
+    );
+  }
+
+  return (
+    <>
+      <SessionRow session={item} />
+      {editControls}
+    </>
+  );
+});
+
+/**
+ * SessionHistory
+ * History grouped by day with collapsible day headers. Only rows near the
+ * viewport are mounted, and older days are added a page at a time as the list
+ * is scrolled to its end.
+ * Paging limits rendering only; the history store holds every entry.
+ */
+export const SessionHistory = memo(({
+  groups,
+  fullHistory,
+  emptyMessage = 'No sessions recorded yet. Start your first focus session!',
   onBreakNoteChange,
-  onBreakNoteSave
-}: SessionHistoryProps) => { 
-  
-  // Filter just session items to check if we have any
-  const sessionItems = useMemo(() => 
-    history.filter(isSessionData), 
-  [history]);
+  onBreakNoteSave,
+  isEditing = false,
+  onEditItem,
+  onDeleteItem,
+  onMergeSessions
+}: SessionHistoryProps) => {
+  const [collapsedDays, setCollapsedDays] = useState<Set<number>>(() => new Set());
+  const [dayLimit, setDayLimit] = useState(HISTORY_PAGE_DAYS);
+
+  const sessionCount = useMemo(() => groups.reduce((total, group) => total + group.sessionCount, 0), [groups]);
 
   // Find the oldest session for the "first session" indicator
   const oldestSession = useMemo(() => {
-    const sessions = sessionItems.sort((a, b) => a.timestamp - b.timestamp);
-    return sessions.length > 0 ? sessions[0] : null;
-  }, [sessionItems]);
+    for (let g = groups.length - 1; g >= 0; g--) {
+      const items = groups[g].items;
+      for (let i = items.length - 1; i >= 0; i--) {
+        const item = items[i];
+        if (isSessionData(item)) return item;
+      }
+    }
+    return null;
+  }, [groups]);
+
+  // The next older session for each session, for merging
+  const previousSessionIds = useMemo(() => {
+    const previous = new Map<string, string>();
+    const sessions = fullHistory.filter(isSessionData);
+    sessions.forEach((session, index) => {
+      if (index + 1 < sessions.length) previous.set(session.id, sessions[index + 1].id);
+    });
+    return previous;
+  }, [fullHistory]);
 
-  if (sessionItems.length === 0) {
+  // Distractions per category across all sessions
+  const categoryTotals = useMemo(() =>
+    Object.entries(getDistractionCategoryTotals(groups.flatMap(group => group.items.filter(isSessionData))))
+      .filter(([, count]) => count > 0),
+  [groups]);
+
+  // Flat list of day headers and the entries of expanded days
+  const rows = useMemo(() => {
+    const result: HistoryRow[] = [];
+    for (const group of groups.slice(0, dayLimit)) {
+      const collapsed = collapsedDays.has(group.dayStart);
+      result.push({ kind: 'day', key: `day-${group.dayStart}`, group, collapsed });
+      if (collapsed) continue;
+      for (const item of group.items) {
+        result.push({ kind: 'item', key: `${item.type}-${item.id}`, item });
+      }
+    }
+    return result;
+  }, [groups, dayLimit, collapsedDays]);
+
+  const hasMoreDays = groups.length > dayLimit;
+
+  const getKey = useCallback((index: number) => rows[index].key, [rows]);
+  const estimateSize = useCallback((index: number) => {
+    const row = rows[index];
+    if (row.kind === 'day') return ROW_ESTIMATES.day;
+    const base = isBreakData(row.item) ? ROW_ESTIMATES.break : ROW_ESTIMATES.session;
+    return base + (isEditing ? ROW_ESTIMATES.editControls : 0);
+  }, [rows, isEditing]);
+
+  const { scrollRef, onScroll, measureElement, items, paddingTop, paddingBottom, endIndex } = useVirtualList({
+    count: rows.length,
+    getKey,
+    estimateSize,
+  });
+
+  // Load the next page of days once the last row comes into view
+  useEffect(() => {
+    if (hasMoreDays && rows.length > 0 && endIndex >= rows.length - 1) {
+      setDayLimit(limit => limit + HISTORY_PAGE_DAYS);
+    }
+  }, [hasMoreDays, endIndex, rows.length]);
+
+  const toggleDay = (dayStart: number) => {
+    setCollapsedDays(current => {
+      const next = new Set(current);
+      if (next.has(dayStart)) next.delete(dayStart);
+      else next.add(dayStart);
+      return next;
+    });
+  };
+
+  if (sessionCount === 0) {
     return (
       <div className="text-center text-gray-500 dark:text-gray-400 py-4">
-        No sessions recorded yet. Start your first focus session!
+        {emptyMessage}
       </div>
     );
   }
 
   return (
     <>
-      {/* Render all history items in order - newest first */}
-      <div className="space-y-1">
-        {history.map((item) => {
-          if (isBreakData(item)) {
-            // Render break item
-            return (
-              <BreakEntry
-                key={`break-${item.id}`}
-                breakStartTime={item.start}
-                breakEndTime={item.end}
-                note={item.note}
-                onNoteChange={(note) => onBreakNoteChange(item.id, note)}
-                onNoteSave={(note) => onBreakNoteSave(item.id, note)}
-                isActive={item.end === null}
-              />
-            );
-          } else {
-            // Render session item
-            const session = item;
-            // Update streak logic to match constants
-            const isStreak = session.distractions < MAX_DISTRACTIONS_FOR_STREAK;
-            
-            // Difficulty badge (🟢/🟡/🔴)
-            const difficultyBadge = {
-              [DIFFICULTY.EASY]: '🟢',
-              [DIFFICULTY.MEDIUM]: '🟡',
-              [DIFFICULTY.HARD]: '🔴'
-            }[session.difficulty || DIFFICULTY.MEDIUM];
-            
+      {categoryTotals.length > 0 && (
+        <div className="flex flex-wrap gap-x-3 gap-y-1 mb-2 text-xs text-gray-500 dark:text-gray-400" title="Distractions by category">
+          {categoryTotals.map(([category, count]) => (
+            <span key={category}>
+              {category === 'uncategorized' ? 'Uncategorized' : DISTRACTION_CATEGORY_LABELS[category as keyof typeof DISTRACTION_CATEGORY_LABELS]} {count}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* Days newest first; only the rows near the viewport are mounted */}
+      <div ref={scrollRef} onScroll={onScroll} className="max-h-[70vh] overflow-y-auto pr-1">
+        <div style={{ paddingTop, paddingBottom }}>
+          {items.map(({ index, key }) => {
+            const row = rows[index];
             return (
-              <div 
-                key={`session-${session.id}`} 
-                className={`rounded-lg p-3 text-sm flex items-center justify-between ${
-                  isStreak 
-                    ? 'bg-green-100 dark:bg-green-900/30' 
-                    : 'bg-gray-200 dark:bg-gray-700/80'
-                }`}
-              >
-                <div className="flex items-center space-x-2 flex-1 overflow-hidden">
-                  {/* Goal and difficulty badge */}
-                  <span title={
-                    session.difficulty === DIFFICULTY.EASY ? DIFFICULTY_LABELS[DIFFICULTY.EASY] :
-                    session.difficulty === DIFFICULTY.MEDIUM ? DIFFICULTY_LABELS[DIFFICULTY.MEDIUM] :
-                    DIFFICULTY_LABELS[DIFFICULTY.HARD]
-                  } className="flex-shrink-0">
-                    {difficultyBadge}
-                  </span>
-                  <span title="Goal" className="truncate text-gray-800 dark:text-gray-200 font-medium flex-1 flex items-center">
-                    {session.goal}
-                    {session.comment && (
-                      <span className="ml-2 text-xs italic text-gray-500 dark:text-gray-400 truncate max-w-[160px] inline-block">
-                        {session.comment}
-                      </span>
-                    )}
-                  </span>
-                </div>
-
-                <div className="flex items-center space-x-3 flex-shrink-0">
-                  <span title="Duration" className="text-gray-600 dark:text-gray-400">
-                    ⏱️ {msToClock(session.duration)}
-                  </span>
-                  <span title="Posture" className={`${session.posture !== undefined && session.posture >= GOOD_POSTURE_THRESHOLD_PERCENT ? 'text-green-600 dark:text-green-400' : 'text-gray-600 dark:text-gray-400'}`}>
-                    👤 {session.posture !== undefined ? `${session.posture}%` : 'N/A'}
-                  </span>
-                  <span 
-                    title={session.distractionLog ? `Distractions: ${session.distractionLog}` : "Distractions"} 
-                    className={`${session.distractions >= MAX_DISTRACTIONS_FOR_STREAK ? 'text-red-600 dark:text-red-400 font-bold' : 'text-green-600 dark:text-green-400'} flex items-center`}
+              <div key={key} ref={measureElement} data-virtual-key={key} className="pb-1">
+                {row.kind === 'day' ? (
+                  <button
+                    type="button"
+                    onClick={() => toggleDay(row.group.dayStart)}
+                    className="w-full flex items-center justify-between px-1 pt-2 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+                    aria-expanded={!row.collapsed}
                   >
-                    ❌ {session.distractions}
-                    {session.distractionLog && (
-                      <span className="ml-1 text-xs inline-block text-gray-500 dark:text-gray-400">
-                        📝
-                      </span>
-                    )}
-                  </span>
-                </div>
+                    <span>{row.collapsed ? '▸' : '▾'} {describeDay(row.group.dayStart)}</span>
+                    <span className="font-normal normal-case tracking-normal">
+                      {formatTotalDuration(row.group.focusMs)} · {row.group.sessionCount} session{row.group.sessionCount === 1 ? '' : 's'}
+                    </span>
+                  </button>
+                ) : (
+                  <HistoryEntry
+                    item={row.item}
+                    isEditing={isEditing}
+                    previousSessionId={previousSessionIds.get(row.item.id)}
+                    onBreakNoteChange={onBreakNoteChange}
+                    onBreakNoteSave={onBreakNoteSave}
+                    onEditItem={onEditItem}
+                    onDeleteItem={onDeleteItem}
+                    onMergeSessions={onMergeSessions}
+                  />
+                )}
               </div>
             );
-          }
-        })}
+          })}
+        </div>
 
-        {/* First session indicator */}
-        {oldestSession && (
+        {hasMoreDays ? (
+          <button
+            type="button"
+            onClick={() => setDayLimit(limit => limit + HISTORY_PAGE_DAYS)}
+            className="w-full py-1 text-xs text-gray-500 dark:text-gray-400 underline hover:text-gray-700 dark:hover:text-gray-200"
+          >
+            Load older days
+          </button>
+        ) : oldestSession && (
+          /* First session indicator */
           <div className="text-center text-gray-400 dark:text-gray-500 text-xs pt-1">
             First session recorded {formatDistanceToNow(
-              oldestSession.timestamp, 
+              oldestSession.timestamp,
               { addSuffix: true }
             )}
           </div>
@@ -142,4 +392,4 @@ export const SessionHistory = ({
       </div>
     </>
   );
-}; 
\ No newline at end of file
+});
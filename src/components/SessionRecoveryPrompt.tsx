@@ -0,0 +1,59 @@
+import { useTimerStore } from '../store/timerSlice';
+import { msToClock } from '../utils/time';
+
+/**
+ * SessionRecoveryPrompt
+ * Shown on boot when a restored session ran past its end (or went silent)
+ * while the app was closed. Lets the user keep, trim or discard it.
+ */
+export const SessionRecoveryPrompt = () => {
+  const recovery = useTimerStore(state => state.recovery);
+  const currentGoal = useTimerStore(state => state.currentGoal);
+  const sessionStartTime = useTimerStore(state => state.sessionStartTime);
+  const recoverSession = useTimerStore(state => state.recoverSession);
+
+  if (!recovery) return null;
+
+  const formatClockTime = (timestamp: number) =>
+    new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+  const keepUntil = recovery.plannedEndAt ?? Date.now();
+  const trimUntil = Math.min(recovery.lastSeenAt, keepUntil);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4 transition-opacity duration-300 ease-in-out">
+      <div className="bg-white dark:bg-gray-800 text-gray-900 dark:text-white rounded-lg shadow-xl p-6 max-w-md w-full mx-4 animate-fade-in-scale">
+        <h2 className="text-xl font-semibold flex items-center mb-4">
+          <span className="mr-2 text-yellow-500">⏳</span> Unfinished Session
+        </h2>
+
+        <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+          {currentGoal ? <>"<span className="font-medium">{currentGoal}</span>"</> : 'A session'} started at{' '}
+          {formatClockTime(sessionStartTime)} was still running when the app closed. The app was last
+          seen at {formatClockTime(recovery.lastSeenAt)}.
+        </p>
+
+        <div className="space-y-2">
+          <button
+            onClick={() => recoverSession('keep')}
+            className="w-full px-4 py-2 rounded-md bg-deep-purple-600 hover:bg-deep-purple-500 text-white text-sm font-medium text-left"
+          >
+            Keep — record until {formatClockTime(keepUntil)}
+          </button>
+          <button
+            onClick={() => recoverSession('trim')}
+            className="w-full px-4 py-2 rounded-md bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 text-sm font-medium text-left"
+          >
+            Trim — record until {formatClockTime(trimUntil)} ({msToClock(Math.max(0, trimUntil - sessionStartTime))} wall time)
+          </button>
+          <button
+            onClick={() => recoverSession('discard')}
+            className="w-full px-4 py-2 rounded-md bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-400 hover:bg-red-200 dark:hover:bg-red-800/40 text-sm font-medium text-left"
+          >
+            Discard — don't record this session
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
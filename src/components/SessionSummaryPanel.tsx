@@ -1,17 +1,26 @@
 import { useState, useEffect } from 'react';
 import { getRandomQuote } from '../utils/quoteUtils';
+import { DISTRACTION_CATEGORY_LABELS } from '../constants';
+import type { DistractionEvent } from '../store/historySlice';
 
 interface SessionSummaryProps {
   isVisible: boolean;
-  onClose: () => void;
+  onClose: (comment: string) => void; // Saves the comment
+  onAddDistraction: () => void; // Records one more (uncategorized) distraction on the session
   sessionData: {
     timestamp: number;
     duration: number;
     goal: string;
     posture?: number;
+    postureStats?: { goodMs: number; badMs: number; ruleFailures: Record<string, number> };
     distractions: number;
     comment?: string;
-    distractionLog?: string;
+    distractionLog?: DistractionEvent[];
+    pauseLog?: { start: number; end: number }[];
+    pausedMs?: number;
+    plannedDurationMs?: number;
+    extensions?: number[];
+    overtimeMs?: number;
   } | null;
   streakCount?: number;
   onStreakEnded?: () => void;
@@ -20,13 +29,13 @@ interface SessionSummaryProps {
 export const SessionSummaryPanel = ({ 
   isVisible, 
   onClose, 
+  onAddDistraction,
   sessionData, 
   streakCount = 0, 
   onStreakEnded 
 }: SessionSummaryProps) => {
   const [quote, setQuote] = useState('');
   const [comment, setComment] = useState('');
-  const [distractionCount, setDistractionCount] = useState(0);
   const [streakEnded, setStreakEnded] = useState(false);
 
   // Effect for setting the quote only when panel first becomes visible
@@ -45,9 +54,6 @@ export const SessionSummaryPanel = ({
         setComment(sessionData.comment);
       }
       
-      // Always update distraction count from session data
-      setDistractionCount(sessionData.distractions);
-      
       // Check if this session ended the streak
       if (sessionData.distractions >= 3 && streakCount > 0) {
         setStreakEnded(true);
@@ -58,15 +64,16 @@ export const SessionSummaryPanel = ({
         setStreakEnded(false);
       }
     }
-  }, [isVisible, sessionData?.distractions, streakCount, onStreakEnded]);
+    // Once per summary shown: later distractions are checked as they are added
+  }, [isVisible, sessionData?.timestamp]);
 
   const handleCommentChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setComment(e.target.value);
   };
 
   const handleAddDistraction = () => {
-    const newCount = distractionCount + 1;
-    setDistractionCount(newCount);
+    if (!sessionData) return;
+    const newCount = sessionData.distractions + 1;
     
     // Check if adding this distraction will end the streak
     if (newCount >= 3 && streakCount > 0 && !streakEnded) {
@@ -76,17 +83,11 @@ export const SessionSummaryPanel = ({
       }
     }
     
-    if (sessionData) {
-      sessionData.distractions = newCount;
-    }
+    onAddDistraction();
   };
 
   const handleSave = () => {
-    if (sessionData) {
-      sessionData.comment = comment;
-      sessionData.distractions = distractionCount;
-    }
-    onClose();
+    onClose(comment);
   };
 
   if (!isVisible || !sessionData) return null;
@@ -97,6 +98,11 @@ export const SessionSummaryPanel = ({
     return `${minutes}:${seconds.toString().padStart(2, '0')}`;
   };
 
+  // Rules that failed most often during the session
+  const topPostureFailures = Object.entries(sessionData.postureStats?.ruleFailures ?? {})
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 3);
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4 transition-opacity duration-300 ease-in-out">
       <div className="bg-white dark:bg-gray-800 text-gray-900 dark:text-white rounded-lg shadow-xl p-6 max-w-md w-full mx-4 transform transition-all duration-300 ease-in-out scale-95 animate-fade-in-scale">
@@ -129,23 +135,55 @@ export const SessionSummaryPanel = ({
 
           <div className="flex items-center">
             <span className="mr-3 text-lg">⏱️</span>
-            <span className="text-gray-500 dark:text-gray-400">Duration: </span>
+            <span className="text-gray-500 dark:text-gray-400">Net focus: </span>
             <span className="ml-2 font-medium">{formatDuration(sessionData.duration)}</span>
           </div>
 
+          {sessionData.plannedDurationMs !== undefined && (
+            <div className="flex items-center">
+              <span className="mr-3 text-lg">🎯</span>
+              <span className="text-gray-500 dark:text-gray-400">Planned: </span>
+              <span className="ml-2 font-medium">
+                {formatDuration(sessionData.plannedDurationMs)}
+                {sessionData.extensions && sessionData.extensions.length > 0 &&
+                  ` + ${formatDuration(sessionData.extensions.reduce((total, ms) => total + ms, 0))} extended`}
+                {!!sessionData.overtimeMs && ` + ${formatDuration(sessionData.overtimeMs)} overtime`}
+              </span>
+            </div>
+          )}
+
           <div className="flex items-center">
-            <span className="mr-3 text-lg">👤</span>
-            <span className="text-gray-500 dark:text-gray-400">Posture: </span>
+            <span className="mr-3 text-lg">⏸</span>
+            <span className="text-gray-500 dark:text-gray-400">Paused: </span>
             <span className="ml-2 font-medium">
-              {sessionData.posture !== undefined ? `${sessionData.posture}%` : 'N/A'}
+              {sessionData.pauseLog && sessionData.pauseLog.length > 0
+                ? `${sessionData.pauseLog.length}× · ${formatDuration(sessionData.pausedMs ?? 0)}`
+                : 'Never'}
             </span>
           </div>
 
+          <div>
+            <div className="flex items-center">
+              <span className="mr-3 text-lg">👤</span>
+              <span className="text-gray-500 dark:text-gray-400">Posture: </span>
+              <span className="ml-2 font-medium">
+                {sessionData.posture !== undefined ? `${sessionData.posture}%` : 'No data (tracking off)'}
+              </span>
+            </div>
+            {topPostureFailures.length > 0 && (
+              <ul className="ml-9 mt-1 text-xs text-gray-500 dark:text-gray-400">
+                {topPostureFailures.map(([rule, count]) => (
+                  <li key={rule}>{rule} · {count}×</li>
+                ))}
+              </ul>
+            )}
+          </div>
+
           <div className="flex items-center justify-between">
             <div className="flex items-center">
               <span className="mr-3 text-lg">❌</span>
               <span className="text-gray-500 dark:text-gray-400">Distractions: </span>
-              <span className="ml-2 font-medium">{distractionCount}</span>
+              <span className="ml-2 font-medium">{sessionData.distractions}</span>
             </div>
             
             {/* Distraction Button */}
@@ -159,6 +197,19 @@ export const SessionSummaryPanel = ({
             </button>
           </div>
 
+          {/* Distraction timeline */}
+          {sessionData.distractionLog && sessionData.distractionLog.length > 0 && (
+            <ol className="ml-9 space-y-0.5 text-xs text-gray-600 dark:text-gray-300">
+              {sessionData.distractionLog.map((event, index) => (
+                <li key={`${event.at}-${index}`} className="flex gap-2">
+                  <span className="font-mono text-gray-400">+{formatDuration(Math.max(0, event.at - sessionData.timestamp))}</span>
+                  <span>{event.category ? DISTRACTION_CATEGORY_LABELS[event.category] : 'Uncategorized'}</span>
+                  {event.note && <span className="italic text-gray-500 dark:text-gray-400 truncate">{event.note}</span>}
+                </li>
+              ))}
+            </ol>
+          )}
+
           {/* Comment Field */}
           <div className="mt-6 pt-4 border-t border-gray-200 dark:border-gray-700 space-y-4">
             <div>
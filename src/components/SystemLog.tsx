@@ -1,20 +1,15 @@
-import React, { useEffect, useRef, useState } from 'react';
-import { STORAGE_KEYS } from '../constants';
+import React, { useRef, useState } from 'react';
+import { useSystemLogStore } from '../store/systemLogSlice';
 import InlineCollapsibleCard from './ui/InlineCollapsibleCard';
 import { useInlineMinimize } from '../hooks/useInlineMinimize';
 
 export const SystemLog: React.FC = () => {
-  const [note, setNote] = useState('');
+  const saveNote = useSystemLogStore(state => state.setNote);
+  const [note, setNote] = useState(() => useSystemLogStore.getState().note);
   const saveTimeoutRef = useRef<number | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const { collapsed, toggle } = useInlineMinimize('system-log', false);
 
-  // Load saved note from localStorage
-  useEffect(() => {
-    const savedNote = localStorage.getItem(STORAGE_KEYS.NOTEPAD);
-    if (savedNote) setNote(savedNote);
-  }, []);
-
   // Handle note changes with auto-save
   const handleNoteChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     const newNote = e.target.value;
@@ -24,14 +19,14 @@ export const SystemLog: React.FC = () => {
       clearTimeout(saveTimeoutRef.current);
     }
     saveTimeoutRef.current = window.setTimeout(() => {
-      localStorage.setItem(STORAGE_KEYS.NOTEPAD, newNote);
+      saveNote(newNote);
       // console.log('SystemLog auto-saved');
     }, 1500);
   };
 
   // Save on blur
   const handleBlur = () => {
-    localStorage.setItem(STORAGE_KEYS.NOTEPAD, note);
+    saveNote(note);
   };
 
   // Keyboard shortcuts: Alt+Shift+T inserts timestamp at cursor
@@ -49,7 +44,7 @@ export const SystemLog: React.FC = () => {
       const end = ta.selectionEnd;
       const newValue = note.substring(0, start) + ts + note.substring(end);
       setNote(newValue);
-      localStorage.setItem(STORAGE_KEYS.NOTEPAD, newValue);
+      saveNote(newValue);
       setTimeout(() => {
         ta.selectionStart = start + ts.length;
         ta.selectionEnd = start + ts.length;
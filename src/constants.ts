@@ -9,6 +9,81 @@ export const DEFAULT_TIMER_MINUTES = '25';
 export const TIMER_UPDATE_INTERVAL_MS = 1000;
 export const INFINITY_SYMBOL = '∞';
 
+// ===== FLOWTIME (COUNT-UP) MILESTONES =====
+export const FLOWTIME_MILESTONE_OPTIONS = [0, 15, 25, 45, 60] as const; // Minutes, 0 = off
+export const DEFAULT_FLOWTIME_MILESTONE_MINUTES = 0;
+
+// ===== OVERTIME =====
+export const SESSION_EXTENSION_MINUTES = [5, 10] as const; // Quick "+N min" actions
+
+// ===== SESSION RECOVERY =====
+// An infinite session restored after a longer silence asks before counting the gap
+export const SESSION_RECOVERY_GAP_MS = 2 * 60 * 1000;
+
+// ===== DAILY PLANNER =====
+export const PLANNER_REMINDER_LEAD_MS = 60 * 1000; // Remind one minute before a block is due
+export const PLANNER_REMINDER_CHECK_INTERVAL_MS = 15 * 1000;
+export const PLANNER_DEFAULT_BLOCK_MINUTES = 50;
+export const PLANNER_ON_TIME_TOLERANCE_MS = 5 * 60 * 1000; // Starts within this window count as on time
+
+// ===== CALENDAR (ICS) =====
+export const ICS_PRODUCT_ID = '-//Deep Work//Focus Sessions//EN';
+export const ICS_UID_DOMAIN = 'deepwork.local'; // Session UIDs are <session id>@<domain>
+export const CALENDAR_OVERLAP_CHECK_INTERVAL_MS = 30 * 1000;
+// Recurring meetings are expanded this far around the import date
+export const CALENDAR_RECURRENCE_PAST_DAYS = 7;
+export const CALENDAR_RECURRENCE_FUTURE_DAYS = 60;
+
+// ===== CROSS-TAB SYNC =====
+export const TAB_SYNC_CHANNEL = 'deepwork-tab-sync';
+export const TAB_LEADER_LOCK = 'deepwork-timer-leader';
+
+// ===== POMODORO CYCLES =====
+export const POMODORO_DEFAULTS = {
+  FOCUS_MINUTES: 25,
+  SHORT_BREAK_MINUTES: 5,
+  LONG_BREAK_MINUTES: 15,
+  CYCLES_BEFORE_LONG_BREAK: 4,
+  AUTO_START_BREAKS: true,
+  AUTO_START_FOCUS: false
+} as const;
+
+// ===== BREAK OUTCOMES =====
+export const BREAK_OUTCOME = {
+  ON_TIME: 'on-time',
+  CUT_SHORT: 'cut-short',
+  OVERRUN: 'overrun'
+} as const;
+
+export const BREAK_OUTCOME_TOLERANCE_MS = 5000; // Within ±5s of the plan counts as on time
+
+// ===== SESSION OUTCOMES =====
+export const SESSION_OUTCOME = {
+  COMPLETED: 'completed',
+  ENDED_EARLY: 'ended-early',
+  ABANDONED: 'abandoned',
+  INTERRUPTED: 'interrupted'
+} as const;
+
+export const SESSION_OUTCOME_LABELS = {
+  [SESSION_OUTCOME.COMPLETED]: 'Completed',
+  [SESSION_OUTCOME.ENDED_EARLY]: 'Ended early',
+  [SESSION_OUTCOME.ABANDONED]: 'Abandoned',
+  [SESSION_OUTCOME.INTERRUPTED]: 'Interrupted'
+} as const;
+
+export const SESSION_COMPLETE_TOLERANCE_MS = 5000; // Sessions within 5s of their plan count as completed
+
+// ===== HISTORY EXPORT =====
+export const HISTORY_EXPORT_FORMAT = 'deepwork-history';
+export const HISTORY_EXPORT_VERSION = 2; // Bump when the exported item schema changes
+export const HISTORY_UNDO_LIMIT = 20; // Manual history edits that can be undone
+export const HISTORY_PAGE_DAYS = 14; // Days added to the Session History list per page
+
+// ===== BACKUP =====
+export const BACKUP_FORMAT = 'flowship-backup';
+export const BACKUP_VERSION = 1; // Bump when the bundle layout changes; store versions migrate on their own
+
 // ===== SESSION TYPES =====
 export const SESSION_TYPE = {
   FOCUS: 'session',
@@ -28,9 +103,30 @@ export const DIFFICULTY_LABELS = {
   [DIFFICULTY.HARD]: 'Deep Thinking'
 } as const;
 
+// ===== DISTRACTION CATEGORIES =====
+// Listed in number-key order: press 1-5 after `d` to categorize
+export const DISTRACTION_CATEGORY = {
+  PHONE: 'phone',
+  CHAT: 'chat',
+  THOUGHT: 'thought',
+  NOISE: 'noise',
+  OTHER: 'other'
+} as const;
+
+export const DISTRACTION_CATEGORY_LABELS = {
+  [DISTRACTION_CATEGORY.PHONE]: '📱 Phone',
+  [DISTRACTION_CATEGORY.CHAT]: '💬 Chat',
+  [DISTRACTION_CATEGORY.THOUGHT]: '💭 Thought',
+  [DISTRACTION_CATEGORY.NOISE]: '🔊 Noise',
+  [DISTRACTION_CATEGORY.OTHER]: '❓ Other'
+} as const;
+
+export const DISTRACTION_CATEGORY_PICK_WINDOW_MS = 4000; // Time to pick a category after logging
+
 // ===== POSTURE TRACKING =====
 export const BAD_POSTURE_TIME_THRESHOLD_MS = 10000; // 10 seconds before triggering nudge
 export const GOOD_POSTURE_THRESHOLD_PERCENT = 80; // 80% or above is considered good posture
+export const POSTURE_SAMPLE_MAX_GAP_MS = 5000; // Longer gaps between samples (sleep, pause) are not attributed
 
 // ===== SOUND FILES =====
 export const SOUND_FILES = {
@@ -172,6 +268,10 @@ export const AUDIO_VOLUME = {
   DEFAULT_MUSIC: 0.5       // Default music volume from appSlice
 } as const;
 
+// ===== PERSISTENT STORAGE =====
+export const STORAGE_DB_NAME = 'deepwork'; // IndexedDB database backing the persisted stores
+export const STORAGE_SYNC_CHANNEL = 'deepwork-storage-sync'; // Tells other tabs about writes
+
 // ===== LOCAL STORAGE KEYS =====
 export const STORAGE_KEYS = {
   HISTORY: 'deepwork-history-storage',
@@ -180,6 +280,14 @@ export const STORAGE_KEYS = {
   WARP: 'deepwork-warp-storage',
   POSTURE: 'deepwork-posture-storage',
   FOCUS_BOOSTER: 'deepwork-focus-booster-storage',
+  PLANNER: 'deepwork-planner-storage',
+  PRESETS: 'deepwork-presets-storage',
+  GOAL: 'deepwork-goal-storage',
+  MISSIONS: 'deepwork-missions-storage',
+  SYSTEM_LOG: 'deepwork-system-log-storage',
+  STREAK: 'deepwork-streak-storage',
+  PROJECTS: 'deepwork-projects-storage',
+  CALENDAR: 'deepwork-calendar-storage',
   DARK_MODE: 'darkMode',
   WARP_MODE: 'warpMode',
   STARFIELD_QUALITY: 'starfieldQuality',
@@ -193,6 +301,12 @@ export const STORAGE_KEYS = {
 
 // ===== STREAK SETTINGS =====
 export const MAX_DISTRACTIONS_FOR_STREAK = 2; // Maximum number of distractions allowed to maintain streak
+export const DAILY_STREAK_DEFAULT_MIN_MINUTES = 25; // Focus minutes a day needs to count toward the daily streak
+export const DAILY_STREAK_FREEZE_EARN_DAYS = 7; // One freeze token is earned per this many qualifying days
+export const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'] as const; // Monday = 0
+
+// ===== PROJECTS =====
+export const PROJECT_BUDGET_PACE_TOLERANCE = 0.2; // Share of the week's due budget a project may lag before it is flagged behind
 
 // ===== UI ELEMENT IDS =====
 export const ELEMENT_IDS = {
@@ -0,0 +1,14 @@
+import { useEffect, useRef } from 'react';
+import { onEvent, AppEventType, AppEventHandler } from '../lib/eventBus';
+
+/**
+ * useAppEvent
+ * Subscribes a component to an event bus event for its lifetime. The latest
+ * handler is always called, so callers do not need to memoize it.
+ */
+export function useAppEvent<K extends AppEventType>(type: K, handler: AppEventHandler<K>) {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => onEvent(type, (payload) => handlerRef.current(payload)), [type]);
+}
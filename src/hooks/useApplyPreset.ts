@@ -0,0 +1,28 @@
+import { useCallback } from 'react';
+import { usePresetStore } from '../store/presetSlice';
+import { useTimerStore } from '../store/timerSlice';
+import { useAudio } from '../features/audio/AudioProvider';
+import { emitEvent } from '../lib/eventBus';
+
+/**
+ * useApplyPreset
+ * Applies a session preset across every store it touches: timer and warp via
+ * the preset store, the album via the audio context and the 40Hz overlay via
+ * the `fortyhz:set` bus event. Optionally starts the session right away.
+ */
+export function useApplyPreset() {
+  const { selectAlbum } = useAudio();
+
+  return useCallback((id: string, options: { start?: boolean } = {}) => {
+    const preset = usePresetStore.getState().applyPreset(id);
+    if (!preset) return false;
+
+    selectAlbum(preset.album);
+    emitEvent('fortyhz:set', { on: preset.fortyHz });
+
+    if (options.start) {
+      useTimerStore.getState().startSession();
+    }
+    return true;
+  }, [selectAlbum]);
+}
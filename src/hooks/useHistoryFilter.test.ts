@@ -0,0 +1,39 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { useHistoryFilter } from './useHistoryFilter';
+import { EMPTY_HISTORY_FILTER } from '../utils/historyFilter';
+
+// Move to a hash the way back/forward navigation does
+const navigateToHash = (hash: string) => {
+  act(() => {
+    window.history.replaceState(null, '', `${window.location.pathname}${hash}`);
+    window.dispatchEvent(new HashChangeEvent('hashchange'));
+  });
+};
+
+describe('useHistoryFilter', () => {
+  afterEach(() => {
+    window.history.replaceState(null, '', window.location.pathname);
+  });
+
+  it('should follow the filter in the hash', () => {
+    const { result } = renderHook(() => useHistoryFilter());
+
+    navigateToHash('#history?q=report&distracted=1');
+
+    expect(result.current.filter).toEqual({ ...EMPTY_HISTORY_FILTER, query: 'report', onlyDistracted: true });
+  });
+
+  it('should reset the filter when going back to a hash without one', () => {
+    window.history.replaceState(null, '', `${window.location.pathname}#history?q=report`);
+    const { result } = renderHook(() => useHistoryFilter());
+    expect(result.current.filter.query).toBe('report');
+
+    navigateToHash('');
+    expect(result.current.filter).toEqual(EMPTY_HISTORY_FILTER);
+
+    navigateToHash('#history?q=report');
+    navigateToHash('#history');
+    expect(result.current.filter).toEqual(EMPTY_HISTORY_FILTER);
+  });
+});
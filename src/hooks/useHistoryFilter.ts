@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  EMPTY_HISTORY_FILTER,
+  HistoryFilter,
+  historyFilterToHash,
+  parseHistoryFilterHash
+} from '../utils/historyFilter';
+
+const readHashFilter = () =>
+  typeof window === 'undefined' ? null : parseHistoryFilterHash(window.location.hash);
+
+/**
+ * useHistoryFilter
+ * Session History filter state mirrored in the URL hash, so a filtered view can
+ * be bookmarked. Hashes that are not history filters are left alone.
+ */
+export function useHistoryFilter() {
+  const [filter, setFilterState] = useState<HistoryFilter>(() => readHashFilter() ?? EMPTY_HISTORY_FILTER);
+
+  // Follow back/forward navigation and edited or opened bookmarks. A hash
+  // without a filter means the unfiltered view.
+  useEffect(() => {
+    const onHashChange = () => setFilterState(readHashFilter() ?? EMPTY_HISTORY_FILTER);
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+
+  const setFilter = useCallback((next: HistoryFilter) => {
+    setFilterState(next);
+    const currentHash = window.location.hash;
+    if (currentHash && !parseHistoryFilterHash(currentHash)) return;
+    const hash = historyFilterToHash(next);
+    const url = `${window.location.pathname}${window.location.search}${hash ? `#${hash}` : ''}`;
+    window.history.replaceState(window.history.state, '', url);
+  }, []);
+
+  const updateFilter = useCallback(
+    (changes: Partial<HistoryFilter>) => setFilter({ ...filter, ...changes }),
+    [filter, setFilter]
+  );
+
+  const clearFilter = useCallback(() => setFilter(EMPTY_HISTORY_FILTER), [setFilter]);
+
+  return { filter, setFilter, updateFilter, clearFilter } as const;
+}
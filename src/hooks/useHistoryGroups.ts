@@ -0,0 +1,22 @@
+import { useMemo, useRef } from 'react';
+import { HistoryItem } from '../store/historySlice';
+import { groupHistoryByDay, sumHistoryTotals, HistoryDayGroup } from '../utils/historyGroups';
+
+/**
+ * useHistoryGroups
+ * Day groups and totals for a history list. Both only recompute when the list
+ * changes, and unchanged days keep their previous group object.
+ */
+export function useHistoryGroups(history: HistoryItem[]) {
+  const previousRef = useRef<HistoryDayGroup[]>([]);
+
+  const groups = useMemo(() => {
+    const next = groupHistoryByDay(history, previousRef.current);
+    previousRef.current = next;
+    return next;
+  }, [history]);
+
+  const totals = useMemo(() => sumHistoryTotals(groups), [groups]);
+
+  return { groups, totals };
+}
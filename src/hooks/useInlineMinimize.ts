@@ -1,4 +1,5 @@
 import { useCallback, useEffect, useMemo, useState } from 'react';
+import { onEvent, emitEvent } from '../lib/eventBus';
 
 /**
  * useInlineMinimize
@@ -27,36 +28,12 @@ export function useInlineMinimize(id: string, defaultCollapsed = false) {
   const toggle = useCallback(() => setCollapsed((c) => !c), []);
 
   // Listen for a global collapse-all event to minimize all inline cards on session start
-  useEffect(() => {
-    if (typeof window === 'undefined') return;
-    const handler = () => setCollapsed(true);
-    window.addEventListener('inline-collapse:all', handler);
-    return () => {
-      window.removeEventListener('inline-collapse:all', handler);
-    };
-  }, [setCollapsed]);
+  useEffect(() => onEvent('inline-collapse:all', () => setCollapsed(true)), [setCollapsed]);
 
   // Listen for a per-panel set event to explicitly set collapsed state
-  useEffect(() => {
-    if (typeof window === 'undefined') return;
-    const onSet = (e: Event) => {
-      const target = e.target as HTMLElement | null;
-      const pid = target?.getAttribute('data-panel-id');
-      if (!pid || pid !== id) return;
-      try {
-        const ce = e as CustomEvent<{ collapsed?: boolean }>;
-        if (typeof ce.detail?.collapsed === 'boolean') {
-          setCollapsed(!!ce.detail.collapsed);
-        }
-      } catch {}
-    };
-    window.addEventListener('inline-collapse:set', onSet as EventListener);
-    document.addEventListener('inline-collapse:set', onSet as EventListener);
-    return () => {
-      window.removeEventListener('inline-collapse:set', onSet as EventListener);
-      document.removeEventListener('inline-collapse:set', onSet as EventListener);
-    };
-  }, [id, setCollapsed]);
+  useEffect(() => onEvent('inline-collapse:set', ({ panelId, collapsed: next }) => {
+    if (panelId === id) setCollapsed(next);
+  }), [id, setCollapsed]);
 
   return { collapsed, setCollapsed, toggle } as const;
 }
@@ -90,9 +67,7 @@ function isExpanded(el: HTMLElement): boolean {
 }
 
 function requestExpand(el: HTMLElement) {
-  try {
-    el.dispatchEvent(new CustomEvent('inline-collapse:set', { detail: { collapsed: false }, bubbles: true }));
-  } catch {}
+  emitEvent('inline-collapse:set', { panelId: panelId(el), collapsed: false });
   el.setAttribute('data-collapsed', 'false');
   el.classList.remove('collapsed');
 }
@@ -115,15 +90,11 @@ export function useInlineMinimizeSnapshot() {
       clearSnapshot();
     };
 
-    if (typeof window !== 'undefined') {
-      window.addEventListener('inline-collapse:capture', onCapture as EventListener);
-      window.addEventListener('inline-collapse:restore', onRestore as EventListener);
-    }
+    const unsubscribeCapture = onEvent('inline-collapse:capture', onCapture);
+    const unsubscribeRestore = onEvent('inline-collapse:restore', onRestore);
     return () => {
-      if (typeof window !== 'undefined') {
-        window.removeEventListener('inline-collapse:capture', onCapture as EventListener);
-        window.removeEventListener('inline-collapse:restore', onRestore as EventListener);
-      }
+      unsubscribeCapture();
+      unsubscribeRestore();
     };
   }, []);
 }
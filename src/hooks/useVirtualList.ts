@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+interface VirtualListOptions {
+  count: number;
+  getKey: (index: number) => string;
+  estimateSize: (index: number) => number; // Height in px until the row is measured
+  overscanPx?: number; // Extra height rendered above and below the viewport
+}
+
+/**
+ * useVirtualList
+ * Windowed rendering for a scrollable list of rows with varying heights. Only
+ * rows near the viewport are mounted; spacers stand in for the rest. Rendered
+ * rows are measured, so estimates only need to be close.
+ */
+export function useVirtualList({ count, getKey, estimateSize, overscanPx = 600 }: VirtualListOptions) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const sizesRef = useRef(new Map<string, number>());
+  const observedRef = useRef(new Set<HTMLElement>());
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const [measureVersion, setMeasureVersion] = useState(0);
+
+  // One observer for every mounted row; a size change re-runs the layout
+  const [resizeObserver] = useState(() => typeof ResizeObserver === 'undefined' ? null : new ResizeObserver(entries => {
+    let changed = false;
+    for (const entry of entries) {
+      const element = entry.target as HTMLElement;
+      const key = element.dataset.virtualKey;
+      const height = element.getBoundingClientRect().height;
+      if (key && height > 0 && sizesRef.current.get(key) !== height) {
+        sizesRef.current.set(key, height);
+        changed = true;
+      }
+    }
+    if (changed) setMeasureVersion(version => version + 1);
+  }));
+
+  useEffect(() => () => resizeObserver?.disconnect(), [resizeObserver]);
+
+  // Stop observing rows that were unmounted
+  useEffect(() => {
+    for (const element of observedRef.current) {
+      if (!element.isConnected) {
+        resizeObserver?.unobserve(element);
+        observedRef.current.delete(element);
+      }
+    }
+  });
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    const update = () => setViewportHeight(element.clientHeight);
+    update();
+    if (typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(update);
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const onScroll = useCallback((e: React.UIEvent<HTMLElement>) => setScrollTop(e.currentTarget.scrollTop), []);
+
+  const measureElement = useCallback((element: HTMLElement | null) => {
+    if (!element || observedRef.current.has(element)) return;
+    observedRef.current.add(element);
+    resizeObserver?.observe(element);
+  }, [resizeObserver]);
+
+  const layout = useMemo(() => {
+    const offsets: number[] = new Array(count);
+    let totalHeight = 0;
+    for (let index = 0; index < count; index++) {
+      offsets[index] = totalHeight;
+      totalHeight += sizesRef.current.get(getKey(index)) ?? estimateSize(index);
+    }
+
+    const top = Math.max(0, scrollTop - overscanPx);
+    const bottom = scrollTop + viewportHeight + overscanPx;
+    let start = 0;
+    while (start < count - 1 && offsets[start + 1] <= top) start++;
+    let end = start;
+    while (end < count - 1 && offsets[end + 1] < bottom) end++;
+
+    return {
+      startIndex: count > 0 ? start : 0,
+      endIndex: count > 0 ? end : -1,
+      paddingTop: count > 0 ? offsets[start] : 0,
+      paddingBottom: count > 0 ? totalHeight - (end + 1 < count ? offsets[end + 1] : totalHeight) : 0,
+    };
+    // measureVersion: sizes live in a ref and change without new options
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [count, getKey, estimateSize, scrollTop, viewportHeight, overscanPx, measureVersion]);
+
+  const items = useMemo(() => {
+    const result: { index: number; key: string }[] = [];
+    for (let index = layout.startIndex; index <= layout.endIndex; index++) {
+      result.push({ index, key: getKey(index) });
+    }
+    return result;
+  }, [layout, getKey]);
+
+  return { scrollRef, onScroll, measureElement, items, ...layout };
+}
@@ -0,0 +1,41 @@
+import { describe, it, expect, vi } from 'vitest';
+import { emitEvent, onEvent } from './eventBus';
+
+describe('eventBus', () => {
+  it('should deliver typed payloads to subscribers', () => {
+    const handler = vi.fn();
+    const unsubscribe = onEvent('mission:add', handler);
+
+    emitEvent('mission:add', { title: 'Ship it', source: 'goal-panel' });
+    unsubscribe();
+
+    expect(handler).toHaveBeenCalledWith({ title: 'Ship it', source: 'goal-panel' });
+  });
+
+  it('should stop delivering after unsubscribe', () => {
+    const handler = vi.fn();
+    const unsubscribe = onEvent('inline-collapse:all', handler);
+
+    unsubscribe();
+    emitEvent('inline-collapse:all');
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should keep calling other handlers when one throws', () => {
+    const failing = vi.fn(() => {
+      throw new Error('boom');
+    });
+    const handler = vi.fn();
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const unsubscribeFailing = onEvent('fortyhz:set', failing);
+    const unsubscribe = onEvent('fortyhz:set', handler);
+
+    emitEvent('fortyhz:set', { on: true });
+    unsubscribeFailing();
+    unsubscribe();
+    warn.mockRestore();
+
+    expect(handler).toHaveBeenCalledWith({ on: true });
+  });
+});
@@ -0,0 +1,64 @@
+import type { SessionData } from '../store/historySlice';
+import type { IdleRenderer } from '../preferences/starfieldPrefs';
+
+/**
+ * Typed in-app event bus
+ * Single map of every cross-module event. Producers call `emitEvent`, consumers
+ * subscribe with `onEvent` (or the `useAppEvent` hook) and get typed payloads.
+ */
+export interface AppEventMap {
+  // Session lifecycle (emitted by the timer store)
+  'session:started': { goal: string; difficulty: string; durationMs: number | null; startedAt: number };
+  'session:paused': { at: number };
+  'session:resumed': { at: number; pausedMs: number };
+  'session:distraction': { count: number; at: number };
+  'session:ended': { session: SessionData };
+
+  // Missions
+  'mission:add': { title: string; source?: 'goal-panel' };
+
+  // Inline panels
+  'inline-collapse:all': undefined;
+  'inline-collapse:capture': undefined;
+  'inline-collapse:restore': undefined;
+  'inline-collapse:set': { panelId: string; collapsed: boolean };
+
+  // Preferences and audio
+  'starfield:idleRendererChanged': IdleRenderer;
+  'fortyhz:set': { on: boolean };
+}
+
+export type AppEventType = keyof AppEventMap;
+export type AppEventHandler<K extends AppEventType> = (payload: AppEventMap[K]) => void;
+
+// Events without a payload can be emitted without a second argument
+type EmitArgs<K extends AppEventType> = AppEventMap[K] extends undefined ? [] : [payload: AppEventMap[K]];
+
+// Stored untyped; `onEvent` and `emitEvent` keep each type paired with its payload
+type StoredHandler = (payload: unknown) => void;
+
+const handlers = new Map<AppEventType, Set<StoredHandler>>();
+
+export function onEvent<K extends AppEventType>(type: K, handler: AppEventHandler<K>): () => void {
+  const set = handlers.get(type) ?? new Set();
+  handlers.set(type, set);
+  const stored = handler as StoredHandler;
+  set.add(stored);
+  return () => {
+    set.delete(stored);
+  };
+}
+
+export function emitEvent<K extends AppEventType>(type: K, ...args: EmitArgs<K>): void {
+  const set = handlers.get(type);
+  if (!set) return;
+  // Copy so handlers can unsubscribe while being called
+  for (const handler of Array.from(set)) {
+    try {
+      handler(args[0]);
+    } catch (error) {
+      // One failing consumer must not break the producer or other consumers
+      console.warn(`[EventBus] Handler for '${type}' failed:`, error);
+    }
+  }
+}
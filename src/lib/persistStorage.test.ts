@@ -0,0 +1,146 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import {
+  initStorage,
+  flushStorage,
+  resetStorage,
+  storageAdapter,
+  appStorage,
+  createMemoryBackend,
+  createMigrate
+} from './persistStorage';
+import { STORAGE_KEYS } from '../constants';
+
+// localStorage stand-in holding real values
+const stubLocalStorage = (entries: Record<string, string>) => {
+  const data = new Map(Object.entries(entries));
+  vi.stubGlobal('localStorage', {
+    get length() { return data.size; },
+    key: (index: number) => [...data.keys()][index] ?? null,
+    getItem: (key: string) => data.get(key) ?? null,
+    setItem: (key: string, value: string) => data.set(key, value),
+    removeItem: (key: string) => data.delete(key),
+  });
+  return data;
+};
+
+describe('persistStorage', () => {
+  afterEach(() => {
+    resetStorage();
+    vi.unstubAllGlobals();
+  });
+
+  it('should serve values loaded from the backend and write changes back', async () => {
+    const backend = createMemoryBackend({ [STORAGE_KEYS.APP]: '{"state":{},"version":0}' });
+    await initStorage(backend);
+
+    expect(storageAdapter.getItem(STORAGE_KEYS.APP)).toBe('{"state":{},"version":0}');
+
+    storageAdapter.setItem(STORAGE_KEYS.WARP, 'a');
+    storageAdapter.setItem(STORAGE_KEYS.WARP, 'b');
+    storageAdapter.removeItem(STORAGE_KEYS.APP);
+    await flushStorage();
+
+    expect(backend.entries.get(STORAGE_KEYS.WARP)).toBe('b');
+    expect(backend.entries.has(STORAGE_KEYS.APP)).toBe(false);
+  });
+
+  it('should skip writes that do not change the stored value', async () => {
+    const backend = createMemoryBackend({ [STORAGE_KEYS.APP]: 'same' });
+    await initStorage(backend);
+    await flushStorage();
+    const write = vi.spyOn(backend, 'write');
+
+    storageAdapter.setItem(STORAGE_KEYS.APP, 'same');
+    await flushStorage();
+
+    expect(write).not.toHaveBeenCalled();
+  });
+
+  it('should migrate localStorage keys once and remove them', async () => {
+    const goal = { what: 'Ship', targetMinutes: 120, accumulatedMinutes: 30 };
+    const local = stubLocalStorage({
+      [STORAGE_KEYS.HISTORY]: '{"state":{"history":[]},"version":1}',
+      'goal:current': JSON.stringify(goal),
+      [STORAGE_KEYS.NOTEPAD]: 'log line',
+      darkMode: 'true',
+    });
+    const backend = createMemoryBackend();
+    await initStorage(backend);
+    await flushStorage();
+
+    expect(backend.entries.get(STORAGE_KEYS.HISTORY)).toBe('{"state":{"history":[]},"version":1}');
+    expect(JSON.parse(backend.entries.get(STORAGE_KEYS.GOAL)!)).toEqual({ state: { goal }, version: 0 });
+    expect(JSON.parse(backend.entries.get(STORAGE_KEYS.SYSTEM_LOG)!)).toEqual({ state: { note: 'log line' }, version: 0 });
+    // Unrelated preferences stay in localStorage
+    expect([...local.keys()]).toEqual(['darkMode']);
+
+    // A second start does not copy anything again
+    resetStorage();
+    local.set(STORAGE_KEYS.HISTORY, 'stale');
+    await initStorage(backend);
+    expect(storageAdapter.getItem(STORAGE_KEYS.HISTORY)).toBe('{"state":{"history":[]},"version":1}');
+  });
+
+  it('should leave localStorage untouched without IndexedDB', async () => {
+    const history = '{"state":{"history":[]},"version":1}';
+    const local = stubLocalStorage({ [STORAGE_KEYS.HISTORY]: history });
+    await initStorage({ loadAll: () => Promise.reject(new Error('blocked')), write: vi.fn() });
+
+    expect(storageAdapter.getItem(STORAGE_KEYS.HISTORY)).toBe(history);
+    expect(local.get(STORAGE_KEYS.HISTORY)).toBe(history);
+  });
+
+  it('should keep localStorage keys when writing them to IndexedDB fails', async () => {
+    const history = '{"state":{"history":[]},"version":1}';
+    const local = stubLocalStorage({ [STORAGE_KEYS.HISTORY]: history });
+    const backend = createMemoryBackend();
+    vi.spyOn(backend, 'write').mockRejectedValueOnce(new Error('quota'));
+    await initStorage(backend);
+
+    expect(storageAdapter.getItem(STORAGE_KEYS.HISTORY)).toBe(history);
+    expect(local.get(STORAGE_KEYS.HISTORY)).toBe(history);
+
+    // The next start tries again
+    resetStorage();
+    await initStorage(backend);
+    expect(backend.entries.get(STORAGE_KEYS.HISTORY)).toBe(history);
+    expect(local.has(STORAGE_KEYS.HISTORY)).toBe(false);
+  });
+
+  it('should keep state in memory when the backend fails to load', async () => {
+    const broken = { loadAll: () => Promise.reject(new Error('blocked')), write: vi.fn() };
+    await initStorage(broken);
+
+    storageAdapter.setItem(STORAGE_KEYS.APP, 'value');
+    await flushStorage();
+
+    expect(storageAdapter.getItem(STORAGE_KEYS.APP)).toBe('value');
+    expect(broken.write).not.toHaveBeenCalled();
+  });
+
+  it('should run migrations above the persisted version in order', () => {
+    const step = (version: number) => (state: unknown) => ({ steps: [...(state as { steps: number[] }).steps, version] });
+    const migrate = createMigrate({ 3: step(3), 2: step(2), 1: step(1) });
+
+    expect(migrate({ steps: [] }, 1)).toEqual({ steps: [2, 3] });
+  });
+
+  it('should hydrate a persisted store and apply its migrations', async () => {
+    await initStorage(createMemoryBackend({
+      'deepwork-test-storage': JSON.stringify({ state: { count: '4' }, version: 0 }),
+    }));
+
+    const useTestStore = create<{ count: number }>()(
+      persist(() => ({ count: 0 }), {
+        name: 'deepwork-test-storage',
+        storage: appStorage,
+        version: 1,
+        migrate: createMigrate({ 1: (state) => ({ count: Number((state as { count: unknown }).count) }) }),
+      })
+    );
+
+    expect(useTestStore.getState().count).toBe(4);
+  });
+});
@@ -0,0 +1,252 @@
+import { createJSONStorage, StateStorage } from 'zustand/middleware';
+import { STORAGE_KEYS, STORAGE_DB_NAME, STORAGE_SYNC_CHANNEL } from '../constants';
+
+/**
+ * Storage layer for the persisted zustand stores.
+ *
+ * Values live in IndexedDB as serialized strings keyed by store name. They are
+ * read into an in-memory cache once at startup (initStorage), so stores still
+ * hydrate synchronously. Writes update the cache right away and are flushed to
+ * IndexedDB in the background, coalesced per key. Without IndexedDB (tests,
+ * browsers that block it) the cache alone is used, i.e. state lives in memory.
+ */
+
+export interface StorageBackend {
+  loadAll: () => Promise<Map<string, string>>;
+  write: (changes: Map<string, string | null>) => Promise<void>; // null deletes the key
+}
+
+// A store migration upgrades persisted state to the version it is keyed by.
+// Persisted state is untrusted: each step narrows what it reads.
+export type Migrations = Record<number, (state: unknown) => unknown>;
+
+type StorageChange = { key: string; value: string | null };
+
+const DB_OBJECT_STORE = 'kv';
+const LEGACY_MIGRATION_MARKER = 'deepwork-storage-migrated';
+
+// Stand-alone localStorage keys that moved into stores, mapped to persisted state
+const LEGACY_KEYS: Record<string, { key: string; toState: (raw: string) => unknown }> = {
+  'goal:current': { key: STORAGE_KEYS.GOAL, toState: raw => ({ goal: JSON.parse(raw) }) },
+  [STORAGE_KEYS.TODO]: { key: STORAGE_KEYS.MISSIONS, toState: raw => ({ items: JSON.parse(raw) }) },
+  [STORAGE_KEYS.NOTEPAD]: { key: STORAGE_KEYS.SYSTEM_LOG, toState: raw => ({ note: raw }) },
+};
+
+const cache = new Map<string, string>();
+const pending = new Map<string, string | null>();
+const listeners = new Map<string, Set<() => void>>();
+let backend: StorageBackend | null = null;
+let channel: BroadcastChannel | null = null;
+let flushScheduled = false;
+let flushing: Promise<void> = Promise.resolve();
+
+export function createMemoryBackend(initial: Record<string, string> = {}): StorageBackend & { entries: Map<string, string> } {
+  const entries = new Map(Object.entries(initial));
+  return {
+    entries,
+    loadAll: async () => new Map(entries),
+    write: async (changes) => {
+      changes.forEach((value, key) => value === null ? entries.delete(key) : entries.set(key, value));
+    },
+  };
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export function createIndexedDbBackend(dbName = STORAGE_DB_NAME): StorageBackend {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const openDb = () => {
+    dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(dbName, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(DB_OBJECT_STORE);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return dbPromise;
+  };
+
+  return {
+    loadAll: async () => {
+      const db = await openDb();
+      const store = db.transaction(DB_OBJECT_STORE, 'readonly').objectStore(DB_OBJECT_STORE);
+      const [keys, values] = await Promise.all([
+        requestToPromise(store.getAllKeys()),
+        requestToPromise(store.getAll()),
+      ]);
+      return new Map(keys.map((key, index) => [String(key), values[index] as string]));
+    },
+    write: async (changes) => {
+      const db = await openDb();
+      await new Promise<void>((resolve, reject) => {
+        const transaction = db.transaction(DB_OBJECT_STORE, 'readwrite');
+        const store = transaction.objectStore(DB_OBJECT_STORE);
+        changes.forEach((value, key) => value === null ? store.delete(key) : store.put(value, key));
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+      });
+    },
+  };
+}
+
+const notify = (key: string) => listeners.get(key)?.forEach(listener => listener());
+
+const scheduleFlush = () => {
+  if (flushScheduled || !backend) return;
+  flushScheduled = true;
+  queueMicrotask(() => {
+    flushScheduled = false;
+    const changes = new Map(pending);
+    pending.clear();
+    const target = backend;
+    if (!target || changes.size === 0) return;
+    flushing = flushing
+      .then(() => target.write(changes))
+      .catch(error => console.error('[Storage] Failed to write to IndexedDB:', error));
+  });
+};
+
+const writeValue = (key: string, value: string | null, broadcast = true) => {
+  if (value === null ? !cache.has(key) : cache.get(key) === value) return;
+  if (value === null) {
+    cache.delete(key);
+  } else {
+    cache.set(key, value);
+  }
+  pending.set(key, value);
+  scheduleFlush();
+  if (broadcast) channel?.postMessage({ key, value } satisfies StorageChange);
+};
+
+// Copy `deepwork-*` localStorage keys (and the stand-alone legacy keys) into
+// IndexedDB once. The keys are only dropped from localStorage after the write
+// succeeded; without a backend they are read for this session and left alone.
+const migrateFromLocalStorage = async () => {
+  if (cache.has(LEGACY_MIGRATION_MARKER) || typeof localStorage === 'undefined') return;
+
+  const changes = new Map<string, string>();
+  const migrated: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    const raw = key ? localStorage.getItem(key) : null;
+    if (!key || raw === null) continue;
+    try {
+      if (key.startsWith('deepwork-')) {
+        if (!cache.has(key)) changes.set(key, raw);
+        migrated.push(key);
+      } else if (key in LEGACY_KEYS) {
+        const target = LEGACY_KEYS[key];
+        if (!cache.has(target.key)) {
+          changes.set(target.key, JSON.stringify({ state: target.toState(raw), version: 0 }));
+        }
+        migrated.push(key);
+      }
+    } catch (error) {
+      console.error(`[Storage] Could not migrate '${key}' from localStorage:`, error);
+    }
+  }
+  changes.forEach((value, key) => cache.set(key, value));
+
+  if (!backend) {
+    console.log(`[Storage] No IndexedDB, reading ${migrated.length} keys from localStorage without moving them`);
+    return;
+  }
+
+  const marker = String(Date.now());
+  try {
+    await backend.write(new Map<string, string | null>([...changes, [LEGACY_MIGRATION_MARKER, marker]]));
+  } catch (error) {
+    console.error('[Storage] Failed to migrate from localStorage, keeping the keys there:', error);
+    return;
+  }
+  cache.set(LEGACY_MIGRATION_MARKER, marker);
+  migrated.forEach(key => localStorage.removeItem(key));
+  console.log(`[Storage] Migrated ${migrated.length} keys from localStorage`);
+};
+
+/**
+ * Load persisted values before any store is created. Falls back to the memory
+ * cache when IndexedDB is unavailable or fails to open.
+ */
+export async function initStorage(customBackend?: StorageBackend): Promise<void> {
+  const candidate = customBackend ?? (typeof indexedDB !== 'undefined' ? createIndexedDbBackend() : null);
+  if (candidate) {
+    try {
+      const entries = await candidate.loadAll();
+      entries.forEach((value, key) => cache.set(key, value));
+      backend = candidate;
+    } catch (error) {
+      console.error('[Storage] IndexedDB unavailable, keeping state in memory:', error);
+    }
+  }
+
+  await migrateFromLocalStorage();
+
+  // Other tabs write to the same database; keep this tab's cache current
+  if (typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(STORAGE_SYNC_CHANNEL);
+    channel.onmessage = (event: MessageEvent<StorageChange>) => {
+      const { key, value } = event.data;
+      if (value === null) {
+        cache.delete(key);
+      } else {
+        cache.set(key, value);
+      }
+      notify(key);
+    };
+  }
+}
+
+// Wait until queued writes reached the backend
+export async function flushStorage(): Promise<void> {
+  await Promise.resolve();
+  await flushing;
+}
+
+// Subscribe to a key being changed by another tab. Returns an unsubscribe function.
+export function onStoredKeyChange(key: string, listener: () => void): () => void {
+  if (!listeners.has(key)) listeners.set(key, new Set());
+  listeners.get(key)!.add(listener);
+  return () => listeners.get(key)?.delete(listener);
+}
+
+// Raw access for stores and tools that need the serialized values
+export const storageAdapter: StateStorage = {
+  getItem: (key) => cache.get(key) ?? null,
+  setItem: (key, value) => writeValue(key, value),
+  removeItem: (key) => writeValue(key, null),
+};
+
+// Storage option for zustand `persist`
+export const appStorage = createJSONStorage(() => storageAdapter);
+
+// Plain object check for migrations narrowing persisted state
+export const isPersistedObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Build a `migrate` option that applies each migration above the persisted version in order
+export function createMigrate(migrations: Migrations) {
+  return (persistedState: unknown, fromVersion: number) => {
+    return Object.keys(migrations)
+      .map(Number)
+      .filter(version => version > fromVersion)
+      .sort((a, b) => a - b)
+      .reduce<unknown>((state, version) => {
+        console.log(`[Storage] Migrating persisted state to v${version}`);
+        return migrations[version](state);
+      }, persistedState);
+  };
+}
+
+// Drop all cached values and the backend (tests)
+export function resetStorage(): void {
+  cache.clear();
+  pending.clear();
+  listeners.clear();
+  channel?.close();
+  channel = null;
+  backend = null;
+}
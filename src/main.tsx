@@ -1,10 +1,6 @@
-import React from 'react'
-import ReactDOM from 'react-dom/client'
-import App from './App'
 import './index.css'
-import { PostureProvider } from './context/PostureContext'
-import { AudioProvider } from './features/audio/AudioProvider'
 import { registerSW } from 'virtual:pwa-register'
+import { initStorage } from './lib/persistStorage'
 
 // Register service worker for PWA functionality
 const updateSW = registerSW({
@@ -19,22 +15,5 @@ const updateSW = registerSW({
   }
 })
 
-const isDev = import.meta.env.DEV
-
-const Root = (
-  <PostureProvider>
-    <AudioProvider>
-      <App />
-    </AudioProvider>
-  </PostureProvider>
-)
-
-ReactDOM.createRoot(document.getElementById('root')!).render(
-  isDev ? (
-    // Development: render without StrictMode to avoid double mount
-    Root
-  ) : (
-    // Production: keep StrictMode for safety
-    <React.StrictMode>{Root}</React.StrictMode>
-  )
-)
\ No newline at end of file
+// Read persisted state from IndexedDB before any store module is loaded
+initStorage().finally(() => import('./bootstrap'))
@@ -1,7 +1,8 @@
+import { emitEvent, onEvent } from '../lib/eventBus';
+
 export type IdleRenderer = 'classic' | 'nova';
 
 const KEY = 'starfield:idleRenderer';
-const EVT = 'starfield:idleRendererChanged';
 
 export function getIdleRenderer(): IdleRenderer {
   try {
@@ -16,26 +17,19 @@ export function setIdleRenderer(value: IdleRenderer): void {
   try {
     localStorage.setItem(KEY, value);
   } catch {}
-  try {
-    const ev = new CustomEvent<IdleRenderer>(EVT, { detail: value });
-    window.dispatchEvent(ev);
-  } catch {}
+  emitEvent('starfield:idleRendererChanged', value);
 }
 
 export function onIdleRendererChange(cb: (value: IdleRenderer) => void): () => void {
-  const handler = (e: Event) => {
-    const ce = e as CustomEvent<IdleRenderer>;
-    if (ce && typeof ce.detail === 'string') cb(ce.detail as IdleRenderer);
-  };
   const storageHandler = (e: StorageEvent) => {
     if (e.key === KEY) {
       cb((e.newValue === 'nova' ? 'nova' : 'classic') as IdleRenderer);
     }
   };
-  window.addEventListener(EVT, handler as EventListener);
+  const unsubscribe = onEvent('starfield:idleRendererChanged', cb);
   window.addEventListener('storage', storageHandler);
   return () => {
-    window.removeEventListener(EVT, handler as EventListener);
+    unsubscribe();
     window.removeEventListener('storage', storageHandler);
   };
 }
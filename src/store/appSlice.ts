@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import { appStorage } from '../lib/persistStorage';
 import { APP_MODE, AUDIO_VOLUME, STORAGE_KEYS } from '../constants';
 
 // Define the initial state for reuse in reset function and tests
@@ -34,7 +35,7 @@ export interface AppState {
   reset: () => void; // Reset function for testing
 }
 
-// Create the store with persist middleware to save to localStorage
+// Create the store with persist middleware
 export const useAppStore = create<AppState>()(
   persist(
     (set) => ({
@@ -51,9 +52,10 @@ export const useAppStore = create<AppState>()(
       reset: () => set(initialAppState), // Reset function for testing
     }),
     {
-      name: STORAGE_KEYS.APP, // localStorage key
+      name: STORAGE_KEYS.APP,
+      storage: appStorage,
       partialize: (state) => ({
-        // Only persist these values in localStorage
+        // Only persist these values
         performanceMode: state.performanceMode,
         sfxVolume: state.sfxVolume,
         musicVolume: state.musicVolume,
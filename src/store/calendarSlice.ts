@@ -0,0 +1,85 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { STORAGE_KEYS } from '../constants';
+import { appStorage } from '../lib/persistStorage';
+import { getDayStart, getNextDayStart } from './plannerSlice';
+
+// A busy block imported from an external calendar
+export interface CalendarEvent {
+  id: string; // UID from the calendar file
+  title: string;
+  start: number;
+  end: number;
+  allDay: boolean;
+  location?: string;
+}
+
+// Define the initial state for reuse in reset function and tests
+export const initialCalendarState = {
+  events: [] as CalendarEvent[],
+  importedAt: null as number | null,
+};
+
+// Timed events on the same local day as `day`, in start order. All-day
+// events mark availability rather than meetings, so they are left out.
+export const getEventsForDay = (events: CalendarEvent[], day: number) => {
+  const start = getDayStart(day);
+  const next = getNextDayStart(day);
+  return events
+    .filter(event => !event.allDay && event.start < next && event.end > start)
+    .sort((a, b) => a.start - b.start);
+};
+
+// Timed events that have not ended by `from` and start before `until`
+export const getOverlappingEvents = (events: CalendarEvent[], from: number, until: number) =>
+  events
+    .filter(event => !event.allDay && event.end > from && event.start < until)
+    .sort((a, b) => a.start - b.start);
+
+export interface CalendarState {
+  events: CalendarEvent[];
+  importedAt: number | null;
+
+  // Actions
+  importEvents: (events: CalendarEvent[]) => number; // Returns how many events were new
+  removeEvent: (id: string) => void;
+  clearEvents: () => void;
+  reset: () => void; // Reset function for testing
+}
+
+// Meetings imported from .ics files; re-importing a file updates events by UID
+export const useCalendarStore = create<CalendarState>()(
+  persist(
+    (set, get) => ({
+      ...initialCalendarState,
+
+      importEvents: (incoming) => {
+        const byId = new Map(get().events.map(event => [event.id, event]));
+        const added = incoming.filter(event => !byId.has(event.id)).length;
+        for (const event of incoming) byId.set(event.id, event);
+        set({ events: [...byId.values()].sort((a, b) => a.start - b.start), importedAt: Date.now() });
+        console.log(`[CalendarStore] Imported ${incoming.length} events (${added} new)`);
+        return added;
+      },
+
+      removeEvent: (id) => {
+        set((state) => ({ events: state.events.filter(event => event.id !== id) }));
+      },
+
+      clearEvents: () => {
+        set({ events: [], importedAt: null });
+        console.log('[CalendarStore] Cleared imported events');
+      },
+
+      reset: () => set(initialCalendarState),
+    }),
+    {
+      name: STORAGE_KEYS.CALENDAR,
+      storage: appStorage,
+      partialize: (state) => ({
+        events: state.events,
+        importedAt: state.importedAt,
+      }),
+    }
+  )
+);
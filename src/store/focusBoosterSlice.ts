@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import { appStorage } from '../lib/persistStorage';
 import { FOCUS_BOOSTER, STORAGE_KEYS } from '../constants';
 import { useWarpStore } from './warpSlice';
 import { WARP_MODE } from '../constants';
@@ -129,9 +130,10 @@ export const useFocusBoosterStore = create<FocusBoosterState & FocusBoosterActio
       reset: () => set(initialFocusBoosterState),
     }),
     {
-      name: STORAGE_KEYS.FOCUS_BOOSTER, // localStorage key
+      name: STORAGE_KEYS.FOCUS_BOOSTER,
+      storage: appStorage,
       partialize: (state) => ({
-        // Only persist these values in localStorage
+        // Only persist these values
         status: state.status,
       }),
     }
@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useGoalStore, getGoalProgressMinutes, isGoalCompleted } from './goalSlice';
+import { SessionData, HistoryItem } from './historySlice';
+import { useTimerStore } from './timerSlice';
+import { SESSION_OUTCOME } from '../constants';
+import { act } from '@testing-library/react';
+import { MINUTE, makeSession } from '../test/historyFixtures';
+
+const session = (id: string, minutes: number, extra: Partial<SessionData> = {}): SessionData =>
+  makeSession({ id, duration: minutes * MINUTE, ...extra });
+
+describe('goalSlice', () => {
+  beforeEach(() => {
+    act(() => {
+      useGoalStore.getState().reset();
+      useTimerStore.getState().reset();
+    });
+  });
+
+  it('should count only sessions linked to each goal', () => {
+    let bookId = '';
+    let talkId = '';
+    act(() => {
+      bookId = useGoalStore.getState().addGoal({ what: 'Book', why: '', how: '', targetMinutes: 60 });
+      talkId = useGoalStore.getState().addGoal({ what: 'Talk', why: '', how: '', targetMinutes: 30 });
+    });
+    const [book, talk] = useGoalStore.getState().goals;
+    const history: HistoryItem[] = [
+      session('a', 40, { goalId: bookId }),
+      session('b', 25, { goalId: bookId, outcome: SESSION_OUTCOME.ABANDONED }),
+      session('c', 30, { goalId: talkId }),
+      session('d', 90),
+    ];
+
+    expect(getGoalProgressMinutes(book, history)).toBe(40);
+    expect(getGoalProgressMinutes(talk, history)).toBe(30);
+    expect(isGoalCompleted(book, history)).toBe(false);
+    expect(isGoalCompleted(talk, history)).toBe(true);
+
+    act(() => {
+      useGoalStore.getState().removeGoal(bookId);
+    });
+    expect(useGoalStore.getState().goals.map(goal => goal.what)).toEqual(['Talk']);
+  });
+
+  it('should unlink the timer from a goal when it is removed', () => {
+    let keptId = '';
+    let removedId = '';
+    act(() => {
+      keptId = useGoalStore.getState().addGoal({ what: 'Keep', why: '', how: '', targetMinutes: 60 });
+      removedId = useGoalStore.getState().addGoal({ what: 'Drop', why: '', how: '', targetMinutes: 60 });
+      useTimerStore.getState().setCurrentGoalId(removedId);
+      useGoalStore.getState().removeGoal(keptId);
+    });
+    expect(useTimerStore.getState().currentGoalId).toBe(removedId);
+
+    act(() => {
+      useGoalStore.getState().removeGoal(removedId);
+    });
+    expect(useTimerStore.getState().currentGoalId).toBeNull();
+  });
+
+  it('should migrate the single goal, carrying the progress it had', () => {
+    const v1 = {
+      goal: { what: 'Book', why: 'Fun', how: 'Daily', targetMinutes: 600, accumulatedMinutes: 120, startedAt: 1, locked: true, completed: false },
+    };
+
+    const migrated = useGoalStore.persist.getOptions().migrate!(v1, 1) as { goals: ReturnType<typeof useGoalStore.getState>['goals'] };
+
+    expect(migrated.goals).toHaveLength(1);
+    expect(migrated.goals[0]).toMatchObject({ what: 'Book', targetMinutes: 600, carriedMinutes: 120, startedAt: 1 });
+    expect(getGoalProgressMinutes(migrated.goals[0], [session('x', 30, { goalId: migrated.goals[0].id })])).toBe(150);
+    expect(useGoalStore.persist.getOptions().migrate!({ goal: null }, 1)).toEqual({ goals: [] });
+  });
+});
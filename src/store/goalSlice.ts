@@ -1,91 +1,109 @@
 import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { STORAGE_KEYS } from '../constants';
+import { appStorage, createMigrate, isPersistedObject } from '../lib/persistStorage';
+import { isSessionData, isAbandonedSession, generateId, HistoryItem } from './historySlice';
+import { useTimerStore } from './timerSlice';
 
 export type Goal = {
+  id: string;
   what: string;
   why: string;
   how: string;
   targetMinutes: number;
-  accumulatedMinutes: number;
+  carriedMinutes: number; // Progress made before sessions were linked to goals
   startedAt: number;
-  locked: boolean;
-  completed: boolean;
 };
 
+export type GoalInput = Pick<Goal, 'what' | 'why' | 'how' | 'targetMinutes'>;
+
 interface GoalState {
-  goal: Goal | null;
-  startGoal: (payload: { what: string; why: string; how: string; targetMinutes: number }) => void;
-  addProgress: (minutes: number) => void;
-  resetGoal: () => void;
-  hydrate: () => void;
+  goals: Goal[]; // Oldest first
+  addGoal: (payload: GoalInput) => string;
+  removeGoal: (id: string) => void;
+  reset: () => void;
 }
 
-const STORAGE_KEY = 'goal:current';
+// Define the initial state for reuse in reset function and tests
+export const initialGoalState = {
+  goals: [] as Goal[],
+};
 
-function persistGoal(goal: Goal | null) {
-  try {
-    if (goal) {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(goal));
-    } else {
-      localStorage.removeItem(STORAGE_KEY);
-    }
-  } catch {}
+/**
+ * Minutes of focus towards a goal: time carried over from before linking plus
+ * every session linked to it. Abandoned sessions do not count. Derived from
+ * history, so edits and imports are always reflected.
+ */
+export function getGoalProgressMinutes(goal: Goal, history: HistoryItem[]): number {
+  let linkedMs = 0;
+  for (const item of history) {
+    if (isSessionData(item) && item.goalId === goal.id && !isAbandonedSession(item)) linkedMs += item.duration;
+  }
+  return goal.carriedMinutes + Math.floor(linkedMs / 60000);
 }
 
-export const useGoalStore = create<GoalState>((set, get) => ({
-  goal: null,
+export const isGoalCompleted = (goal: Goal, history: HistoryItem[]) =>
+  getGoalProgressMinutes(goal, history) >= goal.targetMinutes;
 
-  startGoal: ({ what, why, how, targetMinutes }) => {
-    const t = Math.max(1, Math.floor(targetMinutes || 0));
-    const goal: Goal = {
-      what: (what || '').trim(),
-      why: (why || '').trim(),
-      how: (how || '').trim(),
-      targetMinutes: t,
-      accumulatedMinutes: 0,
-      startedAt: Date.now(),
-      locked: true,
-      completed: false,
-    };
-    set({ goal });
-    persistGoal(goal);
-  },
+// Fill in defaults for a goal saved by an older version (or hand-edited)
+function normalizeGoal(parsed: unknown): Goal | null {
+  if (!isPersistedObject(parsed) || typeof parsed.targetMinutes !== 'number') return null;
+  const text = (value: unknown) => typeof value === 'string' ? value : '';
+  const count = (value: unknown) => typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+  return {
+    id: text(parsed.id) || generateId(),
+    what: text(parsed.what),
+    why: text(parsed.why),
+    how: text(parsed.how),
+    targetMinutes: Math.max(1, Math.floor(parsed.targetMinutes)),
+    carriedMinutes: Math.max(0, Math.floor(count(parsed.carriedMinutes) ?? count(parsed.accumulatedMinutes) ?? 0)),
+    startedAt: count(parsed.startedAt) || Date.now(),
+  };
+}
+
+export const useGoalStore = create<GoalState>()(
+  persist(
+    (set) => ({
+      ...initialGoalState,
 
-  addProgress: (minutes: number) => {
-    const s = get();
-    if (!s.goal) return;
-    const add = Math.max(0, Math.floor(minutes || 0));
-    if (add <= 0) return;
-    const nextAccum = Math.min(s.goal.targetMinutes, (s.goal.accumulatedMinutes || 0) + add);
-    const nextCompleted = nextAccum >= s.goal.targetMinutes;
-    const goal: Goal = { ...s.goal, accumulatedMinutes: nextAccum, completed: nextCompleted };
-    set({ goal });
-    persistGoal(goal);
-  },
+      addGoal: ({ what, why, how, targetMinutes }) => {
+        const goal: Goal = {
+          id: generateId(),
+          what: (what || '').trim(),
+          why: (why || '').trim(),
+          how: (how || '').trim(),
+          targetMinutes: Math.max(1, Math.floor(targetMinutes || 0)),
+          carriedMinutes: 0,
+          startedAt: Date.now(),
+        };
+        set((state) => ({ goals: [...state.goals, goal] }));
+        console.log(`[GoalStore] Added goal '${goal.what}' (${goal.targetMinutes} min)`);
+        return goal.id;
+      },
 
-  resetGoal: () => {
-    set({ goal: null });
-    try { localStorage.removeItem(STORAGE_KEY); } catch {}
-  },
+      removeGoal: (id) => {
+        set((state) => ({ goals: state.goals.filter(goal => goal.id !== id) }));
+        // Later sessions must not be linked to a goal that is gone
+        const timer = useTimerStore.getState();
+        if (timer.currentGoalId === id) timer.setCurrentGoalId(null);
+      },
 
-  hydrate: () => {
-    try {
-      const raw = localStorage.getItem(STORAGE_KEY);
-      if (!raw) return;
-      const parsed = JSON.parse(raw) as Goal;
-      if (!parsed || typeof parsed.targetMinutes !== 'number') return;
-      const goal: Goal = {
-        what: parsed.what || '',
-        why: parsed.why || '',
-        how: parsed.how || '',
-        targetMinutes: Math.max(1, Math.floor(parsed.targetMinutes)),
-        accumulatedMinutes: Math.max(0, Math.floor(parsed.accumulatedMinutes || 0)),
-        startedAt: parsed.startedAt || Date.now(),
-        locked: typeof parsed.locked === 'boolean' ? parsed.locked : true,
-        completed: typeof parsed.completed === 'boolean'
-          ? parsed.completed
-          : (parsed.accumulatedMinutes || 0) >= (parsed.targetMinutes || 1),
-      };
-      set({ goal });
-    } catch {}
-  },
-}));
+      reset: () => set(initialGoalState), // Reset function for testing
+    }),
+    {
+      name: STORAGE_KEYS.GOAL,
+      storage: appStorage,
+      version: 2,
+      partialize: (state) => ({ goals: state.goals }),
+      migrate: createMigrate({
+        // v0: raw goal copied from the old `goal:current` localStorage key
+        1: (state) => ({ goal: normalizeGoal(isPersistedObject(state) ? state.goal : null) }),
+        // v2: several goals; progress so far is carried, new progress comes from linked sessions
+        2: (state) => {
+          const goal = normalizeGoal(isPersistedObject(state) ? state.goal : null);
+          return { goals: goal ? [goal] : [] };
+        },
+      }),
+    }
+  )
+);
@@ -1,6 +1,16 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { useHistoryStore, initialHistoryState, SessionData, BreakData } from './historySlice';
-import { SESSION_TYPE, DIFFICULTY } from '../constants';
+import {
+  useHistoryStore,
+  initialHistoryState,
+  SessionData,
+  BreakData,
+  getBreakOutcome,
+  getDistractionCategoryTotals,
+  getSessionStreak,
+  splitSessionData,
+  mergeSessionData
+} from './historySlice';
+import { SESSION_TYPE, SESSION_OUTCOME, DIFFICULTY, BREAK_OUTCOME, DISTRACTION_CATEGORY } from '../constants';
 import { act } from '@testing-library/react';
 
 // Mock Date.now() for consistent test values
@@ -92,6 +102,33 @@ describe('historySlice', () => {
     }
   });
   
+  it('should log a distraction added from the summary on the session and the summary', () => {
+    const sessionItem: SessionData = {
+      type: SESSION_TYPE.FOCUS,
+      id: 'test-session',
+      timestamp: mockTimestamp,
+      duration: 1500000,
+      goal: 'Test Goal',
+      distractions: 1,
+      distractionLog: [{ at: mockTimestamp + 60000, category: DISTRACTION_CATEGORY.PHONE }],
+    };
+    
+    act(() => {
+      useHistoryStore.getState().addHistoryItem(sessionItem);
+      useHistoryStore.getState().setLastSession(sessionItem);
+      useHistoryStore.getState().addSessionDistraction('test-session', mockTimestamp + 1600000);
+    });
+    
+    const { history, lastSession } = useHistoryStore.getState();
+    const expected = {
+      distractions: 2,
+      distractionLog: [{ at: mockTimestamp + 60000, category: DISTRACTION_CATEGORY.PHONE }, { at: mockTimestamp + 1600000 }],
+    };
+    expect(history[0]).toMatchObject(expected);
+    expect(lastSession).toMatchObject(expected);
+    expect(sessionItem.distractions).toBe(1); // Not mutated
+  });
+  
   it('should update break notes correctly', () => {
     const { addHistoryItem, updateBreakNote } = useHistoryStore.getState();
     
@@ -155,6 +192,32 @@ describe('historySlice', () => {
     }
   });
   
+  it('should record the outcome of planned breaks when closing them', () => {
+    const { addHistoryItem, closeOpenBreak } = useHistoryStore.getState();
+    
+    // A 5 minute break planned, closed after 3 minutes
+    const breakItem: BreakData = {
+      type: SESSION_TYPE.BREAK,
+      id: 'planned-break',
+      start: mockTimestamp - 180000,
+      end: null,
+      durationMs: 0,
+      note: '',
+      plannedDurationMs: 300000,
+    };
+    
+    act(() => {
+      addHistoryItem(breakItem);
+      closeOpenBreak();
+    });
+    
+    const closed = useHistoryStore.getState().history[0];
+    expect(closed.type === SESSION_TYPE.BREAK && closed.outcome).toBe(BREAK_OUTCOME.CUT_SHORT);
+    
+    expect(getBreakOutcome(300000, 300000)).toBe(BREAK_OUTCOME.ON_TIME);
+    expect(getBreakOutcome(420000, 300000)).toBe(BREAK_OUTCOME.OVERRUN);
+  });
+  
   it('should update streak sessions correctly', () => {
     const { incrementStreakSessions, resetStreakSessions } = useHistoryStore.getState();
     
@@ -209,6 +272,28 @@ describe('historySlice', () => {
     expect(useHistoryStore.getState().lastSession).toBe(null);
   });
   
+  it('should total distractions per category', () => {
+    const session = (distractionLog: SessionData['distractionLog']): SessionData => ({
+      type: SESSION_TYPE.FOCUS,
+      id: `session-${Math.random()}`,
+      timestamp: mockTimestamp,
+      duration: 1500000,
+      goal: 'Test Goal',
+      distractions: distractionLog?.length ?? 0,
+      distractionLog,
+    });
+    
+    const totals = getDistractionCategoryTotals([
+      session([{ at: mockTimestamp, category: DISTRACTION_CATEGORY.PHONE }, { at: mockTimestamp + 1000 }]),
+      session([{ at: mockTimestamp, category: DISTRACTION_CATEGORY.PHONE, note: 'call' }]),
+      session(undefined),
+    ]);
+    
+    expect(totals[DISTRACTION_CATEGORY.PHONE]).toBe(2);
+    expect(totals[DISTRACTION_CATEGORY.CHAT]).toBe(0);
+    expect(totals.uncategorized).toBe(1);
+  });
+  
   it('should clear history correctly', () => {
     const { addHistoryItem, clearHistory, incrementStreakSessions } = useHistoryStore.getState();
     
@@ -251,4 +336,167 @@ describe('historySlice', () => {
     expect(useHistoryStore.getState().history.length).toBe(0);
     expect(useHistoryStore.getState().totalStreakSessions).toBe(0);
   });
-}); 
\ No newline at end of file
+
+  it('should migrate v1 sessions to recorded end times and outcomes', () => {
+    const base = { type: SESSION_TYPE.FOCUS, goal: 'Work', distractions: 0, timestamp: mockTimestamp };
+    const v1 = {
+      history: [
+        { ...base, id: 'early', duration: 10 * 60000, pausedMs: 60000, plannedDurationMs: 25 * 60000, extensions: [] },
+        { ...base, id: 'extended', duration: 30 * 60000, plannedDurationMs: 25 * 60000, extensions: [5 * 60000] },
+        { ...base, id: 'infinite', duration: 40 * 60000 },
+        { type: SESSION_TYPE.BREAK, id: 'b', start: mockTimestamp, end: null, durationMs: 0, note: '' },
+      ],
+      totalStreakSessions: 3,
+    };
+
+    const migrated = useHistoryStore.persist.getOptions().migrate!(v1, 1) as typeof v1;
+
+    expect(migrated.history[0]).toMatchObject({ outcome: SESSION_OUTCOME.ENDED_EARLY, endedAt: mockTimestamp + 11 * 60000 });
+    expect(migrated.history[1]).toMatchObject({ outcome: SESSION_OUTCOME.COMPLETED });
+    expect(migrated.history[2]).toMatchObject({ outcome: SESSION_OUTCOME.COMPLETED, endedAt: mockTimestamp + 40 * 60000 });
+    expect(migrated.history[3]).toEqual(v1.history[3]);
+  });
+
+  it('should end the session streak at an abandoned session', () => {
+    const session = (id: string, outcome?: SessionData['outcome']): SessionData => ({
+      type: SESSION_TYPE.FOCUS, id, timestamp: mockTimestamp, duration: 60000, goal: id, distractions: 0, outcome,
+    });
+
+    expect(getSessionStreak([session('a'), session('b', SESSION_OUTCOME.ENDED_EARLY), session('c')])).toBe(3);
+    expect(getSessionStreak([session('a'), session('b', SESSION_OUTCOME.ABANDONED), session('c')])).toBe(1);
+  });
+
+  describe('manual editing', () => {
+    const MINUTE = 60000;
+    const session = (id: string, startMinute: number, minutes: number, distractions = 0): SessionData => ({
+      type: SESSION_TYPE.FOCUS,
+      id,
+      timestamp: mockTimestamp + startMinute * MINUTE,
+      duration: minutes * MINUTE,
+      goal: id,
+      distractions,
+      difficulty: DIFFICULTY.MEDIUM,
+    });
+    const breakAfter = (id: string, startMinute: number, minutes: number): BreakData => ({
+      type: SESSION_TYPE.BREAK,
+      id,
+      start: mockTimestamp + startMinute * MINUTE,
+      end: mockTimestamp + (startMinute + minutes) * MINUTE,
+      durationMs: minutes * MINUTE,
+      note: '',
+    });
+
+    beforeEach(() => {
+      // Newest first, as the timer writes it: s1, b1, s2 (too distracted for the streak)
+      act(() => {
+        useHistoryStore.getState().setHistory([
+          breakAfter('b2', 95, 5),
+          session('s2', 70, 25, 3),
+          breakAfter('b1', 25, 45),
+          session('s1', 0, 25),
+        ]);
+      });
+    });
+
+    it('should add a manual session in order and recount the session streak', () => {
+      act(() => {
+        useHistoryStore.getState().addManualSession({ timestamp: mockTimestamp + 120 * MINUTE, duration: 30 * MINUTE, goal: 'Offline' });
+      });
+
+      const { history, totalStreakSessions } = useHistoryStore.getState();
+      expect(history[0]).toMatchObject({ goal: 'Offline', manual: true, distractions: 0 });
+      expect(totalStreakSessions).toBe(1);
+    });
+
+    it('should trim breaks that an edited session now overlaps', () => {
+      act(() => {
+        useHistoryStore.getState().editSession('s1', { duration: 35 * MINUTE });
+      });
+
+      const b1 = useHistoryStore.getState().history.find(item => item.id === 'b1') as BreakData;
+      expect(b1.start).toBe(mockTimestamp + 35 * MINUTE);
+      expect(b1.durationMs).toBe(35 * MINUTE);
+    });
+
+    it('should merge sessions, absorbing the break between them, and undo it', () => {
+      const before = useHistoryStore.getState().history;
+
+      act(() => {
+        useHistoryStore.getState().mergeSessions('s2', 's1');
+      });
+
+      const { history } = useHistoryStore.getState();
+      expect(history.map(item => item.id)).toEqual(['b2', 's1']);
+      expect(history[1]).toMatchObject({
+        duration: 50 * MINUTE,
+        distractions: 3,
+        pausedMs: 45 * MINUTE,
+        goal: 's1 + s2',
+      });
+
+      act(() => {
+        useHistoryStore.getState().undoHistoryEdit();
+      });
+      expect(useHistoryStore.getState().history).toEqual(before);
+      expect(useHistoryStore.getState().undoStack).toEqual([]);
+    });
+
+    it('should split a session at a point of focused time, past its pauses', () => {
+      const paused: SessionData = {
+        ...session('s', 0, 30),
+        pauseLog: [{ start: mockTimestamp + 10 * MINUTE, end: mockTimestamp + 15 * MINUTE }],
+        pausedMs: 5 * MINUTE,
+        distractionLog: [{ at: mockTimestamp + 5 * MINUTE }, { at: mockTimestamp + 25 * MINUTE }],
+        distractions: 2,
+      };
+
+      const [first, second] = splitSessionData(paused, 20 * MINUTE, 'second')!;
+
+      expect(first).toMatchObject({ duration: 20 * MINUTE, pausedMs: 5 * MINUTE, distractions: 1 });
+      expect(second).toMatchObject({ id: 'second', timestamp: mockTimestamp + 25 * MINUTE, duration: 10 * MINUTE, distractions: 1 });
+      expect(second.pauseLog).toBeUndefined();
+      expect(splitSessionData(paused, 30 * MINUTE, 'x')).toBeNull();
+    });
+
+    it('should keep the way a session ended on the part or merge that ends it', () => {
+      const abandoned: SessionData = {
+        ...session('s', 0, 30),
+        endedAt: mockTimestamp + 30 * MINUTE,
+        outcome: SESSION_OUTCOME.ABANDONED,
+        outcomeReason: 'Fire alarm',
+      };
+
+      const [first, second] = splitSessionData(abandoned, 10 * MINUTE, 'second')!;
+      expect(first).toMatchObject({ outcome: SESSION_OUTCOME.COMPLETED, endedAt: mockTimestamp + 10 * MINUTE });
+      expect(first.outcomeReason).toBeUndefined();
+      expect(second).toMatchObject({ outcome: SESSION_OUTCOME.ABANDONED, outcomeReason: 'Fire alarm', endedAt: mockTimestamp + 30 * MINUTE });
+
+      expect(mergeSessionData(second, first)).toMatchObject({ outcome: SESSION_OUTCOME.ABANDONED, endedAt: mockTimestamp + 30 * MINUTE });
+    });
+
+    it('should keep entries recorded after an edit when undoing it', () => {
+      act(() => {
+        useHistoryStore.getState().deleteHistoryItem('s2');
+        useHistoryStore.getState().addHistoryItem(session('s3', 110, 25));
+        useHistoryStore.getState().undoHistoryEdit();
+      });
+
+      const { history, totalStreakSessions } = useHistoryStore.getState();
+      expect(history.map(item => item.id)).toEqual(['s3', 'b2', 's2', 'b1', 's1']);
+      expect(totalStreakSessions).toBe(1);
+    });
+
+    it('should delete an entry and restore the streak it ended on undo', () => {
+      act(() => {
+        useHistoryStore.getState().deleteHistoryItem('s2');
+      });
+      expect(useHistoryStore.getState().totalStreakSessions).toBe(1);
+
+      act(() => {
+        useHistoryStore.getState().clearHistory();
+        useHistoryStore.getState().undoHistoryEdit();
+      });
+      expect(useHistoryStore.getState().history.map(item => item.id)).toEqual(['b2', 'b1', 's1']);
+    });
+  });
+});
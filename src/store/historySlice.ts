@@ -1,23 +1,65 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import { appStorage, createMigrate, isPersistedObject } from '../lib/persistStorage';
+import type { PostureSessionStats } from './postureSlice';
 import { 
   SESSION_TYPE, 
   DIFFICULTY, 
-  STORAGE_KEYS 
+  STORAGE_KEYS,
+  BREAK_OUTCOME,
+  SESSION_OUTCOME,
+  DISTRACTION_CATEGORY,
+  BREAK_OUTCOME_TOLERANCE_MS,
+  SESSION_COMPLETE_TOLERANCE_MS,
+  MAX_DISTRACTIONS_FOR_STREAK,
+  HISTORY_UNDO_LIMIT
 } from '../constants';
 
+export type BreakOutcome = typeof BREAK_OUTCOME[keyof typeof BREAK_OUTCOME];
+export type SessionOutcome = typeof SESSION_OUTCOME[keyof typeof SESSION_OUTCOME];
+
+// A closed pause interval within a focus session
+export interface PauseInterval {
+  start: number;
+  end: number;
+}
+
+type DistractionCategory = typeof DISTRACTION_CATEGORY[keyof typeof DISTRACTION_CATEGORY];
+
+// One logged distraction
+export interface DistractionEvent {
+  at: number;
+  category?: DistractionCategory;
+  note?: string;
+}
+
 // Session data interface with literal type
 export interface SessionData {
   type: typeof SESSION_TYPE.FOCUS;
   id: string;
   timestamp: number;
-  duration: number;
+  duration: number; // Net focused time, pauses excluded
   goal: string;
-  posture?: number;
+  posture?: number; // Percentage of tracked time in good posture
+  postureStats?: PostureSessionStats;
   distractions: number;
   comment?: string;
   difficulty?: typeof DIFFICULTY[keyof typeof DIFFICULTY];
-  distractionLog?: string;
+  distractionLog?: DistractionEvent[];
+  pauseLog?: PauseInterval[];
+  pausedMs?: number; // Total time spent paused
+  plannedDurationMs?: number; // Length chosen at launch, before extensions (finite sessions)
+  extensions?: number[]; // Each "+N min" extension, in ms
+  overtimeMs?: number; // Focused time beyond the planned end plus extensions
+  plannedBlockId?: string; // Day planner block this session was started from
+  manual?: boolean; // Logged or reshaped by hand rather than timed
+  project?: string;
+  tags?: string[];
+  goalId?: string; // Goal this session counts towards
+  // Set on every session since history v2
+  endedAt?: number; // Wall-clock end, pauses included
+  outcome?: SessionOutcome;
+  outcomeReason?: string; // Why it was abandoned or ended early, when given
 }
 
 // Break data interface with literal type
@@ -28,17 +70,44 @@ export interface BreakData {
   end: number | null;
   durationMs: number;
   note: string;
+  plannedDurationMs?: number; // Set for timed breaks in Pomodoro cycle mode
+  isLongBreak?: boolean;
+  outcome?: BreakOutcome; // Computed when a planned break is closed
 }
 
 // Combined history item type
 export type HistoryItem = SessionData | BreakData;
 
+// Fields of a session that can be entered or edited by hand
+export type SessionEdit = Partial<Pick<SessionData, 'timestamp' | 'duration' | 'goal' | 'difficulty' | 'distractions' | 'comment' | 'project' | 'tags' | 'goalId' | 'outcome' | 'outcomeReason'>>;
+export type ManualSessionInput = Pick<SessionData, 'timestamp' | 'duration' | 'goal'> & SessionEdit;
+export type BreakEdit = Partial<Pick<BreakData, 'start' | 'end' | 'note'>>;
+
+// Inverse of a manual edit: the entries it replaced or removed and the ids of
+// those it created. Undo swaps only these back, so entries recorded since stay.
+export interface HistoryUndoEntry {
+  label: string;
+  removed: HistoryItem[];
+  addedIds: string[];
+}
+
+const getUndoEntry = (label: string, before: HistoryItem[], after: HistoryItem[]): HistoryUndoEntry => {
+  const kept = new Set(after);
+  const previous = new Set(before);
+  return {
+    label,
+    removed: before.filter(item => !kept.has(item)),
+    addedIds: after.filter(item => !previous.has(item)).map(item => item.id),
+  };
+};
+
 // Define the initial state for reuse in reset function and tests
 export const initialHistoryState = {
   history: [] as HistoryItem[],
   totalStreakSessions: 0,
   lastSession: null as SessionData | null,
   showSummary: false,
+  undoStack: [] as HistoryUndoEntry[],
 };
 
 // Generate a simple UUID for item IDs
@@ -46,6 +115,28 @@ export const generateId = () => {
   return Date.now().toString(36) + Math.random().toString(36).substring(2);
 };
 
+// Compare an actual break length against its plan
+export function getBreakOutcome(durationMs: number, plannedDurationMs: number): BreakOutcome {
+  const diff = durationMs - plannedDurationMs;
+  if (diff < -BREAK_OUTCOME_TOLERANCE_MS) return BREAK_OUTCOME.CUT_SHORT;
+  if (diff > BREAK_OUTCOME_TOLERANCE_MS) return BREAK_OUTCOME.OVERRUN;
+  return BREAK_OUTCOME.ON_TIME;
+}
+
+// Distraction counts per category across sessions ('uncategorized' when none was picked)
+export function getDistractionCategoryTotals(sessions: SessionData[]): Record<DistractionCategory | 'uncategorized', number> {
+  const totals = {
+    ...Object.fromEntries(Object.values(DISTRACTION_CATEGORY).map(category => [category, 0])),
+    uncategorized: 0,
+  } as Record<DistractionCategory | 'uncategorized', number>;
+  for (const session of sessions) {
+    for (const event of session.distractionLog ?? []) {
+      totals[event.category ?? 'uncategorized'] += 1;
+    }
+  }
+  return totals;
+}
+
 // Type guard to check if an item is a session
 export function isSessionData(item: HistoryItem): item is SessionData {
   return item.type === SESSION_TYPE.FOCUS;
@@ -56,6 +147,174 @@ export function isBreakData(item: HistoryItem): item is BreakData {
   return item.type === SESSION_TYPE.BREAK;
 }
 
+// Start time of any history item
+export const getItemStart = (item: HistoryItem) => isSessionData(item) ? item.timestamp : item.start;
+
+// Wall-clock end of a session, pauses included
+export const getSessionEnd = (session: SessionData) => session.timestamp + session.duration + (session.pausedMs ?? 0);
+
+// Sessions from before history v2 have no outcome; they were all kept
+export const getSessionOutcome = (session: SessionData): SessionOutcome => session.outcome ?? SESSION_OUTCOME.COMPLETED;
+
+export const isAbandonedSession = (session: SessionData) => session.outcome === SESSION_OUTCOME.ABANDONED;
+
+// Infer the outcome of a session recorded without one from its plan
+export function inferSessionOutcome(session: SessionData): SessionOutcome {
+  if (session.manual || session.plannedDurationMs === undefined) return SESSION_OUTCOME.COMPLETED;
+  const targetMs = session.plannedDurationMs + (session.extensions ?? []).reduce((sum, ms) => sum + ms, 0);
+  return session.duration + SESSION_COMPLETE_TOLERANCE_MS >= targetMs ? SESSION_OUTCOME.COMPLETED : SESSION_OUTCOME.ENDED_EARLY;
+}
+
+// A persisted session of any version, as far as the outcome migration needs it
+const isStoredSession = (item: unknown): item is SessionData => {
+  if (typeof item !== 'object' || item === null) return false;
+  const { type, timestamp, duration } = item as Partial<SessionData>;
+  return type === SESSION_TYPE.FOCUS && typeof timestamp === 'number' && typeof duration === 'number';
+};
+
+// Fill in the v2 fields of a session recorded before they existed
+export const withSessionOutcome = (session: SessionData): SessionData =>
+  session.outcome !== undefined && session.endedAt !== undefined
+    ? session
+    : { ...session, endedAt: session.endedAt ?? getSessionEnd(session), outcome: session.outcome ?? inferSessionOutcome(session) };
+
+// Consecutive sessions, newest first, below the distraction limit and not abandoned
+export function getSessionStreak(history: HistoryItem[]): number {
+  let streak = 0;
+  for (const item of history) {
+    if (!isSessionData(item)) continue;
+    if (item.distractions >= MAX_DISTRACTIONS_FOR_STREAK || isAbandonedSession(item)) break;
+    streak++;
+  }
+  return streak;
+}
+
+// Close a break at `end`, recomputing its duration and outcome
+const withBreakEnd = (item: BreakData, start: number, end: number): BreakData => ({
+  ...item,
+  start,
+  end,
+  durationMs: end - start,
+  ...(item.plannedDurationMs !== undefined && { outcome: getBreakOutcome(end - start, item.plannedDurationMs) }),
+});
+
+/**
+ * Sort history newest first and fit closed breaks around the sessions: a break
+ * overlapping a session is trimmed to the gap, and dropped if none is left.
+ */
+export function normalizeHistory(history: HistoryItem[]): HistoryItem[] {
+  const sorted = [...history].sort((a, b) => getItemStart(b) - getItemStart(a));
+  const sessions = sorted.filter(isSessionData);
+  return sorted.flatMap((item): HistoryItem[] => {
+    if (!isBreakData(item) || item.end === null) return [item];
+    let { start, end } = item;
+    for (const session of sessions) {
+      const sessionEnd = getSessionEnd(session);
+      if (sessionEnd <= start || session.timestamp >= end) continue;
+      if (session.timestamp <= start) {
+        start = Math.min(end, sessionEnd);
+      } else {
+        end = Math.max(start, session.timestamp);
+      }
+    }
+    if (end <= start) return [];
+    return start === item.start && end === item.end ? [item] : [withBreakEnd(item, start, end)];
+  });
+}
+
+// Fields that describe a timed run as a whole and stop being true once it is reshaped
+const omitRunDetails = ({ plannedDurationMs: _planned, extensions: _extensions, overtimeMs: _overtime, postureStats: _posture, ...rest }: SessionData) => rest;
+
+/**
+ * Split a session after `focusMs` of focused time. Pauses and logged
+ * distractions go to the part they happened in; without a log all
+ * distractions stay with the first part. Returns null for a split point
+ * outside the session.
+ */
+export function splitSessionData(session: SessionData, focusMs: number, secondId: string): [SessionData, SessionData] | null {
+  if (focusMs <= 0 || focusMs >= session.duration) return null;
+
+  // Walk the focused stretches between pauses to find the wall-clock split point
+  const pauses = [...(session.pauseLog ?? [])].sort((a, b) => a.start - b.start);
+  let cursor = session.timestamp;
+  let remaining = focusMs;
+  for (const pause of pauses) {
+    const stretch = Math.max(0, pause.start - cursor);
+    if (remaining <= stretch) break;
+    remaining -= stretch;
+    cursor = Math.max(cursor, pause.end);
+  }
+  const splitAt = cursor + remaining;
+
+  const { pauseLog: _pauseLog, pausedMs: _pausedMs, distractionLog: _distractionLog, ...base } = omitRunDetails(session);
+  const part = (from: number, to: number, duration: number, id: string, timestamp: number): SessionData => {
+    const partPauses = pauses.filter(pause => pause.start >= from && pause.start < to);
+    const partLog = session.distractionLog?.filter(event => event.at >= from && event.at < to);
+    return {
+      ...base,
+      id,
+      timestamp,
+      duration,
+      manual: true,
+      ...(partPauses.length > 0 && {
+        pauseLog: partPauses,
+        pausedMs: partPauses.reduce((sum, pause) => sum + pause.end - pause.start, 0),
+      }),
+      ...(partLog && partLog.length > 0 && { distractionLog: partLog }),
+    };
+  };
+
+  const first = part(-Infinity, splitAt, focusMs, session.id, session.timestamp);
+  const second = part(splitAt, Infinity, session.duration - focusMs, secondId, splitAt);
+  // The first part ran until the split; the second ends the way the session did
+  const { outcomeReason: _reason, ...firstBase } = first;
+  const firstPart: SessionData = { ...firstBase, outcome: SESSION_OUTCOME.COMPLETED, endedAt: splitAt };
+  const firstDistractions = session.distractionLog?.length
+    ? Math.min(session.distractions, first.distractionLog?.length ?? 0)
+    : session.distractions;
+  firstPart.distractions = firstDistractions;
+  second.distractions = session.distractions - firstDistractions;
+  return [firstPart, second];
+}
+
+/**
+ * Merge two sessions into one spanning both. The gap between them becomes a
+ * pause; distractions, pauses and comments are combined and posture is
+ * averaged by focus time.
+ */
+export function mergeSessionData(a: SessionData, b: SessionData): SessionData {
+  const [first, second] = a.timestamp <= b.timestamp ? [a, b] : [b, a];
+  const firstEnd = getSessionEnd(first);
+  const gap = second.timestamp > firstEnd ? [{ start: firstEnd, end: second.timestamp }] : [];
+  const pauseLog = [...(first.pauseLog ?? []), ...gap, ...(second.pauseLog ?? [])];
+  const distractionLog = [...(first.distractionLog ?? []), ...(second.distractionLog ?? [])];
+  const duration = first.duration + second.duration;
+  const posture = first.posture !== undefined && second.posture !== undefined
+    ? Math.round((first.posture * first.duration + second.posture * second.duration) / Math.max(1, duration))
+    : first.posture ?? second.posture;
+  const comment = [first.comment, second.comment].filter(Boolean).join('\n');
+  const { pauseLog: _pauseLog, pausedMs: _pausedMs, distractionLog: _distractionLog, posture: _posture, comment: _comment, endedAt: _endedAt, outcome: _outcome, outcomeReason: _reason, ...base } = omitRunDetails(first);
+
+  return {
+    ...base,
+    duration,
+    goal: first.goal === second.goal ? first.goal : `${first.goal} + ${second.goal}`,
+    distractions: first.distractions + second.distractions,
+    manual: true,
+    ...(posture !== undefined && { posture }),
+    ...(comment && { comment }),
+    ...(pauseLog.length > 0 && {
+      pauseLog,
+      pausedMs: pauseLog.reduce((sum, pause) => sum + pause.end - pause.start, 0),
+    }),
+    ...(distractionLog.length > 0 && { distractionLog }),
+    // The merged session ends where and how the later one did
+    ...(second.endedAt !== undefined && { endedAt: second.endedAt }),
+    ...(second.outcome !== undefined && { outcome: second.outcome }),
+    ...(second.outcomeReason && { outcomeReason: second.outcomeReason }),
+  };
+}
+
 // Define our history store
 export const useHistoryStore = create<{
   // State
@@ -63,6 +322,7 @@ export const useHistoryStore = create<{
   totalStreakSessions: number;
   lastSession: SessionData | null;
   showSummary: boolean;
+  undoStack: HistoryUndoEntry[]; // Most recent last, kept in memory only
   
   // Actions
   setHistory: (history: HistoryItem[]) => void;
@@ -77,98 +337,226 @@ export const useHistoryStore = create<{
   setLastSession: (session: SessionData | null) => void;
   setShowSummary: (show: boolean) => void;
   updateBreakNote: (breakId: string, note: string) => void;
+  addSessionDistraction: (id: string, at?: number) => void;
+  addManualSession: (input: ManualSessionInput) => void;
+  editSession: (id: string, updates: SessionEdit) => void;
+  editBreak: (id: string, updates: BreakEdit) => void;
+  deleteHistoryItem: (id: string) => void;
+  mergeSessions: (id: string, otherId: string) => void;
+  splitSession: (id: string, focusMs: number) => void;
+  undoHistoryEdit: () => void;
   reset: () => void; // Reset function for testing
 }>()(
   persist(
-    (set) => ({
-      // Initial state
-      ...initialHistoryState,
+    (set, get) => {
+      // Apply a manual edit: keep breaks consistent, recount the session
+      // streak and remember what changed for undo
+      const applyEdit = (label: string, edit: (history: HistoryItem[]) => HistoryItem[] | null) => {
+        const { history, undoStack } = get();
+        const edited = edit(history);
+        if (!edited) return;
+        const normalized = normalizeHistory(edited);
+        set({
+          history: normalized,
+          totalStreakSessions: getSessionStreak(normalized),
+          undoStack: [...undoStack, getUndoEntry(label, history, normalized)].slice(-HISTORY_UNDO_LIMIT),
+        });
+        console.log(`[HistoryStore] ${label}`);
+      };
+
+      return {
+        // Initial state
+        ...initialHistoryState,
       
-      // Actions
-      setHistory: (history) => set({ history }),
+        // Actions
+        setHistory: (history) => set({ history }),
       
-      addHistoryItem: (item) => set((state) => ({
-        history: [item, ...state.history]
-      })),
+        addHistoryItem: (item) => set((state) => ({
+          history: [item, ...state.history]
+        })),
       
-      updateSessionItem: (id, updates) => set((state) => ({
-        history: state.history.map(item => 
-          item.id === id && isSessionData(item) 
-            ? { ...item, ...updates } 
-            : item
-        )
-      })),
+        updateSessionItem: (id, updates) => set((state) => ({
+          history: state.history.map(item => 
+            item.id === id && isSessionData(item) 
+              ? { ...item, ...updates } 
+              : item
+          )
+        })),
       
-      updateBreakItem: (id, updates) => set((state) => ({
-        history: state.history.map(item => 
-          item.id === id && isBreakData(item) 
-            ? { ...item, ...updates } 
-            : item
-        )
-      })),
+        updateBreakItem: (id, updates) => set((state) => ({
+          history: state.history.map(item => 
+            item.id === id && isBreakData(item) 
+              ? { ...item, ...updates } 
+              : item
+          )
+        })),
       
-      closeOpenBreak: () => set((state) => {
-        const newHistory = [...state.history];
-        const openBreakIndex = newHistory.findIndex(
-          item => isBreakData(item) && item.end === null
-        );
+        closeOpenBreak: () => set((state) => {
+          const newHistory = [...state.history];
+          const openBreakIndex = newHistory.findIndex(
+            item => isBreakData(item) && item.end === null
+          );
         
-        if (openBreakIndex !== -1) {
-          const openBreak = newHistory[openBreakIndex] as BreakData;
-          const endTime = Date.now();
-          const calculatedDurationMs = endTime - openBreak.start;
+          if (openBreakIndex !== -1) {
+            const openBreak = newHistory[openBreakIndex] as BreakData;
+            const endTime = Date.now();
+            const calculatedDurationMs = endTime - openBreak.start;
           
-          // Create a new break item with updated properties
-          const updatedBreak: BreakData = {
-            ...openBreak,
-            end: endTime,
-            durationMs: calculatedDurationMs
-          };
+            // Create a new break item with updated properties
+            const updatedBreak: BreakData = {
+              ...openBreak,
+              end: endTime,
+              durationMs: calculatedDurationMs,
+              ...(openBreak.plannedDurationMs !== undefined && {
+                outcome: getBreakOutcome(calculatedDurationMs, openBreak.plannedDurationMs)
+              })
+            };
           
-          // Replace the item in the array
-          newHistory[openBreakIndex] = updatedBreak;
+            // Replace the item in the array
+            newHistory[openBreakIndex] = updatedBreak;
           
-          console.log(`[HistoryStore] Closed open break (ID: ${openBreak.id}). Duration: ${calculatedDurationMs}ms, Start: ${new Date(openBreak.start).toLocaleTimeString()}, End: ${new Date(endTime).toLocaleTimeString()}`);
-        } else {
-          console.log('[HistoryStore] No open break found to close');
-        }
+            console.log(`[HistoryStore] Closed open break (ID: ${openBreak.id}). Duration: ${calculatedDurationMs}ms, Start: ${new Date(openBreak.start).toLocaleTimeString()}, End: ${new Date(endTime).toLocaleTimeString()}`);
+          } else {
+            console.log('[HistoryStore] No open break found to close');
+          }
         
-        return { history: newHistory };
-      }),
+          return { history: newHistory };
+        }),
       
-      clearHistory: () => set({
-        history: [],
-        totalStreakSessions: 0,
-      }),
+        clearHistory: () => set((state) => ({
+          history: [],
+          totalStreakSessions: 0,
+          undoStack: [...state.undoStack, getUndoEntry('Clear history', state.history, [])].slice(-HISTORY_UNDO_LIMIT),
+        })),
       
-      setTotalStreakSessions: (count) => set({ totalStreakSessions: count }),
+        setTotalStreakSessions: (count) => set({ totalStreakSessions: count }),
       
-      incrementStreakSessions: () => set((state) => ({
-        totalStreakSessions: state.totalStreakSessions + 1
-      })),
+        incrementStreakSessions: () => set((state) => ({
+          totalStreakSessions: state.totalStreakSessions + 1
+        })),
       
-      resetStreakSessions: () => set({ totalStreakSessions: 0 }),
+        resetStreakSessions: () => set({ totalStreakSessions: 0 }),
       
-      setLastSession: (session) => set({ lastSession: session }),
+        setLastSession: (session) => set({ lastSession: session }),
       
-      setShowSummary: (show) => set({ showSummary: show }),
+        setShowSummary: (show) => set({ showSummary: show }),
       
-      updateBreakNote: (breakId, note) => set((state) => ({
-        history: state.history.map(item => 
-          item.id === breakId && isBreakData(item) 
-            ? { ...item, note } 
-            : item
-        )
-      })),
-
-      reset: () => set(initialHistoryState), // Reset function for testing
-    }),
+        updateBreakNote: (breakId, note) => set((state) => ({
+          history: state.history.map(item => 
+            item.id === breakId && isBreakData(item) 
+              ? { ...item, note } 
+              : item
+          )
+        })),
+
+        // A distraction remembered after the session: uncategorized, at the time it was noted
+        addSessionDistraction: (id, at = Date.now()) => set((state) => {
+          const withDistraction = (session: SessionData): SessionData => ({
+            ...session,
+            distractions: session.distractions + 1,
+            distractionLog: [...(session.distractionLog ?? []), { at }],
+          });
+          return {
+            history: state.history.map(item => item.id === id && isSessionData(item) ? withDistraction(item) : item),
+            lastSession: state.lastSession?.id === id ? withDistraction(state.lastSession) : state.lastSession,
+          };
+        }),
+
+        addManualSession: (input) => applyEdit('Add session', (history) => [{
+          type: SESSION_TYPE.FOCUS,
+          id: generateId(),
+          distractions: 0,
+          difficulty: DIFFICULTY.MEDIUM,
+          outcome: SESSION_OUTCOME.COMPLETED,
+          ...input,
+          endedAt: input.timestamp + input.duration,
+          manual: true,
+        }, ...history]),
+
+        editSession: (id, updates) => applyEdit('Edit session', (history) => history.map(item => {
+          if (item.id !== id || !isSessionData(item)) return item;
+          const edited: SessionData = { ...item, ...updates, manual: true };
+          return { ...edited, endedAt: getSessionEnd(edited) };
+        })),
+
+        editBreak: (id, updates) => applyEdit('Edit break', (history) => history.map(item => {
+          if (item.id !== id || !isBreakData(item)) return item;
+          const start = updates.start ?? item.start;
+          const end = updates.end !== undefined ? updates.end : item.end;
+          const note = updates.note ?? item.note;
+          return end === null ? { ...item, start, note } : withBreakEnd({ ...item, note }, start, Math.max(start, end));
+        })),
+
+        deleteHistoryItem: (id) => applyEdit('Delete entry', (history) =>
+          history.some(item => item.id === id) ? history.filter(item => item.id !== id) : null
+        ),
+
+        mergeSessions: (id, otherId) => applyEdit('Merge sessions', (history) => {
+          const first = history.find(item => item.id === id);
+          const second = history.find(item => item.id === otherId);
+          if (!first || !second || id === otherId || !isSessionData(first) || !isSessionData(second)) return null;
+          const merged = mergeSessionData(first, second);
+          return [merged, ...history.filter(item => item.id !== first.id && item.id !== second.id)];
+        }),
+
+        splitSession: (id, focusMs) => applyEdit('Split session', (history) => {
+          const session = history.find(item => item.id === id);
+          const parts = session && isSessionData(session) ? splitSessionData(session, focusMs, generateId()) : null;
+          return parts ? [...parts, ...history.filter(item => item.id !== id)] : null;
+        }),
+
+        undoHistoryEdit: () => {
+          const { history, undoStack } = get();
+          const entry = undoStack[undoStack.length - 1];
+          if (!entry) return;
+          const addedIds = new Set(entry.addedIds);
+          const current = history.filter(item => !addedIds.has(item.id));
+          const currentIds = new Set(current.map(item => item.id));
+          const restored = [...current, ...entry.removed.filter(item => !currentIds.has(item.id))]
+            .sort((a, b) => getItemStart(b) - getItemStart(a));
+          set({
+            history: restored,
+            totalStreakSessions: getSessionStreak(restored),
+            undoStack: undoStack.slice(0, -1),
+          });
+          console.log(`[HistoryStore] Undid: ${entry.label}`);
+        },
+
+        reset: () => set(initialHistoryState), // Reset function for testing
+      };
+    },
     {
       name: STORAGE_KEYS.HISTORY,
+      storage: appStorage,
+      version: 2,
       partialize: (state) => ({
         history: state.history,
         totalStreakSessions: state.totalStreakSessions,
       }),
+      migrate: createMigrate({
+        // v0 stored distractionLog as a (always empty) string
+        1: (state) => {
+          if (!isPersistedObject(state) || !Array.isArray(state.history)) return state;
+          return {
+            ...state,
+            history: state.history.map((item: unknown) => {
+              if (!isPersistedObject(item) || item.type !== SESSION_TYPE.FOCUS || Array.isArray(item.distractionLog)) return item;
+              const { distractionLog, ...rest } = item;
+              return typeof distractionLog === 'string' && distractionLog.trim()
+                ? { ...rest, distractionLog: [{ at: item.timestamp, note: distractionLog.trim() }] }
+                : rest;
+            }),
+          };
+        },
+        // v2 records how each session ended
+        2: (state) => {
+          if (!isPersistedObject(state) || !Array.isArray(state.history)) return state;
+          return {
+            ...state,
+            history: state.history.map((item: unknown) => isStoredSession(item) ? withSessionOutcome(item) : item),
+          };
+        },
+      }),
     }
   )
 ); 
\ No newline at end of file
@@ -0,0 +1,62 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { STORAGE_KEYS } from '../constants';
+import { appStorage, createMigrate, isPersistedObject } from '../lib/persistStorage';
+import { generateId } from './historySlice';
+
+export interface MissionItem {
+  id: string;
+  text: string;
+  done: boolean;
+  // Marks items created via Mission Goal feature
+  fromGoal?: boolean;
+}
+
+// Define the initial state for reuse in reset function and tests
+export const initialMissionState = {
+  items: [] as MissionItem[],
+};
+
+export interface MissionState {
+  items: MissionItem[];
+
+  // Actions
+  addItem: (text: string, fromGoal?: boolean) => void;
+  toggleItem: (id: string) => void;
+  deleteItem: (id: string) => void;
+  reset: () => void; // Reset function for testing
+}
+
+export const useMissionStore = create<MissionState>()(
+  persist(
+    (set) => ({
+      ...initialMissionState,
+
+      // Newest first
+      addItem: (text, fromGoal = false) => {
+        if (!text.trim()) return;
+        set((state) => ({ items: [{ id: generateId(), text: text.trim(), done: false, fromGoal }, ...state.items] }));
+      },
+
+      toggleItem: (id) => {
+        set((state) => ({ items: state.items.map(item => item.id === id ? { ...item, done: !item.done } : item) }));
+      },
+
+      deleteItem: (id) => {
+        set((state) => ({ items: state.items.filter(item => item.id !== id) }));
+      },
+
+      reset: () => set(initialMissionState),
+    }),
+    {
+      name: STORAGE_KEYS.MISSIONS,
+      storage: appStorage,
+      version: 1,
+      partialize: (state) => ({ items: state.items }),
+      migrate: createMigrate({
+        // v0: list copied from the old `todo` localStorage key
+        1: (state) => ({ items: isPersistedObject(state) && Array.isArray(state.items) ? state.items : [] }),
+      }),
+    }
+  )
+);
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  usePlannerStore,
+  getBlocksForDay,
+  getBlockStatus,
+  compareBlockWithHistory,
+  PlannedBlock
+} from './plannerSlice';
+import { useTimerStore } from './timerSlice';
+import { HistoryItem } from './historySlice';
+import { DIFFICULTY, SESSION_TYPE, PLANNER_REMINDER_LEAD_MS } from '../constants';
+import { act } from '@testing-library/react';
+
+const nineAm = new Date(2024, 4, 6, 9, 0).getTime();
+
+const block: PlannedBlock = {
+  id: 'block-1',
+  startAt: nineAm,
+  durationMinutes: 50,
+  goal: 'Write report',
+  difficulty: DIFFICULTY.HARD,
+};
+
+const linkedSession = (timestamp: number, duration: number): HistoryItem => ({
+  type: SESSION_TYPE.FOCUS,
+  id: `session-${timestamp}`,
+  timestamp,
+  duration,
+  goal: 'Write report',
+  distractions: 0,
+  plannedBlockId: block.id,
+});
+
+describe('plannerSlice', () => {
+  beforeEach(() => {
+    act(() => {
+      usePlannerStore.getState().reset();
+      useTimerStore.getState().reset();
+    });
+  });
+
+  it('should list only the blocks of the given day in start order', () => {
+    const later = { ...block, id: 'later', startAt: nineAm + 3 * 3600000 };
+    const nextDay = { ...block, id: 'next-day', startAt: nineAm + 24 * 3600000 };
+
+    const blocks = getBlocksForDay([later, nextDay, block], nineAm);
+
+    expect(blocks.map(b => b.id)).toEqual(['block-1', 'later']);
+  });
+
+  it('should derive status from time and linked sessions', () => {
+    expect(getBlockStatus(block, [], nineAm - PLANNER_REMINDER_LEAD_MS - 1)).toBe('upcoming');
+    expect(getBlockStatus(block, [], nineAm)).toBe('due');
+    expect(getBlockStatus(block, [], nineAm + 50 * 60000)).toBe('missed');
+    expect(getBlockStatus(block, [linkedSession(nineAm, 60000)], nineAm + 50 * 60000)).toBe('done');
+  });
+
+  it('should compare planned and actual focus from linked sessions', () => {
+    const history = [
+      linkedSession(nineAm + 30 * 60000, 15 * 60000),
+      linkedSession(nineAm + 6 * 60000, 20 * 60000),
+    ];
+
+    expect(compareBlockWithHistory(block, history)).toEqual({
+      plannedMs: 50 * 60000,
+      actualMs: 35 * 60000,
+      sessionCount: 2,
+      startDelayMs: 6 * 60000,
+    });
+  });
+
+  it('should re-arm the reminder when a block is moved', () => {
+    let id = '';
+    act(() => {
+      id = usePlannerStore.getState().addBlock(block);
+      usePlannerStore.getState().markReminded(id);
+      usePlannerStore.getState().updateBlock(id, { startAt: nineAm + 3600000 });
+    });
+
+    const moved = usePlannerStore.getState().blocks[0];
+    expect(moved.startAt).toBe(nineAm + 3600000);
+    expect(moved.remindedAt).toBeUndefined();
+  });
+
+  it('should start a block with its goal, difficulty and length', () => {
+    let id = '';
+    act(() => {
+      id = usePlannerStore.getState().addBlock(block);
+      usePlannerStore.getState().startBlock(id);
+    });
+
+    const timer = useTimerStore.getState();
+    expect(timer.isSessionActive).toBe(true);
+    expect(timer.currentGoal).toBe('Write report');
+    expect(timer.currentDifficulty).toBe(DIFFICULTY.HARD);
+    expect(timer.sessionDurationMs).toBe(50 * 60000);
+    expect(timer.plannedBlockId).toBe(id);
+    expect(usePlannerStore.getState().blocks[0].remindedAt).toBeDefined();
+  });
+});
@@ -0,0 +1,156 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { appStorage } from '../lib/persistStorage';
+import {
+  DIFFICULTY,
+  STORAGE_KEYS,
+  PLANNER_REMINDER_LEAD_MS
+} from '../constants';
+import { HistoryItem, isSessionData, generateId } from './historySlice';
+import { useTimerStore } from './timerSlice';
+
+type Difficulty = typeof DIFFICULTY[keyof typeof DIFFICULTY];
+
+// A focus block scheduled on the day planner
+export interface PlannedBlock {
+  id: string;
+  startAt: number; // Planned start (epoch ms)
+  durationMinutes: number;
+  goal: string;
+  difficulty: Difficulty;
+  remindedAt?: number; // Set once the due reminder has fired
+}
+
+export type PlannedBlockStatus = 'upcoming' | 'due' | 'done' | 'missed';
+
+// How a block played out, based on the sessions started from it
+export interface BlockComparison {
+  plannedMs: number;
+  actualMs: number; // Net focus of all linked sessions
+  sessionCount: number;
+  startDelayMs: number | null; // First linked start minus planned start
+}
+
+// Define the initial state for reuse in reset function and tests
+export const initialPlannerState = {
+  blocks: [] as PlannedBlock[],
+};
+
+// Local midnight of the day containing `timestamp`
+export const getDayStart = (timestamp: number) => {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+// Local midnight of the following day (DST-safe, unlike adding 24h)
+export const getNextDayStart = (timestamp: number) => {
+  const date = new Date(getDayStart(timestamp));
+  date.setDate(date.getDate() + 1);
+  return date.getTime();
+};
+
+// Blocks starting on the same local day as `day`, in start order
+export const getBlocksForDay = (blocks: PlannedBlock[], day: number) => {
+  const start = getDayStart(day);
+  const next = getNextDayStart(day);
+  return blocks
+    .filter(block => block.startAt >= start && block.startAt < next)
+    .sort((a, b) => a.startAt - b.startAt);
+};
+
+export const compareBlockWithHistory = (block: PlannedBlock, history: HistoryItem[]): BlockComparison => {
+  const sessions = history.filter(isSessionData).filter(session => session.plannedBlockId === block.id);
+  const firstStart = sessions.length > 0 ? Math.min(...sessions.map(session => session.timestamp)) : null;
+  return {
+    plannedMs: block.durationMinutes * 60 * 1000,
+    actualMs: sessions.reduce((total, session) => total + session.duration, 0),
+    sessionCount: sessions.length,
+    startDelayMs: firstStart !== null ? firstStart - block.startAt : null,
+  };
+};
+
+export const getBlockStatus = (
+  block: PlannedBlock,
+  history: HistoryItem[],
+  now: number = Date.now()
+): PlannedBlockStatus => {
+  if (compareBlockWithHistory(block, history).sessionCount > 0) return 'done';
+  const endAt = block.startAt + block.durationMinutes * 60 * 1000;
+  if (now >= endAt) return 'missed';
+  if (now >= block.startAt - PLANNER_REMINDER_LEAD_MS) return 'due';
+  return 'upcoming';
+};
+
+// Define the type for our planner state
+export interface PlannerState {
+  blocks: PlannedBlock[];
+
+  // Actions
+  addBlock: (block: Omit<PlannedBlock, 'id'>) => string;
+  updateBlock: (id: string, updates: Partial<Omit<PlannedBlock, 'id'>>) => void;
+  removeBlock: (id: string) => void;
+  markReminded: (id: string) => void;
+  startBlock: (id: string) => void;
+  reset: () => void; // Reset function for testing
+}
+
+// Create the store with persist middleware
+export const usePlannerStore = create<PlannerState>()(
+  persist(
+    (set, get) => ({
+      // Default state values
+      ...initialPlannerState,
+
+      addBlock: (block) => {
+        const id = generateId();
+        set((state) => ({ blocks: [...state.blocks, { ...block, id }] }));
+        console.log(`[PlannerStore] Planned block '${block.goal}' at ${new Date(block.startAt).toLocaleTimeString()}`);
+        return id;
+      },
+
+      updateBlock: (id, updates) => {
+        set((state) => ({
+          // Moving a block re-arms its reminder
+          blocks: state.blocks.map(block => block.id === id
+            ? { ...block, ...updates, ...(updates.startAt !== undefined && { remindedAt: undefined }) }
+            : block)
+        }));
+      },
+
+      removeBlock: (id) => {
+        set((state) => ({ blocks: state.blocks.filter(block => block.id !== id) }));
+      },
+
+      markReminded: (id) => {
+        set((state) => ({
+          blocks: state.blocks.map(block => block.id === id ? { ...block, remindedAt: Date.now() } : block)
+        }));
+      },
+
+      // Pre-fill the timer from the block and start it right away
+      startBlock: (id) => {
+        const block = get().blocks.find(b => b.id === id);
+        const timer = useTimerStore.getState();
+        if (!block || timer.isSessionActive) return;
+
+        console.log(`[PlannerStore] Starting planned block '${block.goal}'`);
+        timer.handleMinutesChange(String(block.durationMinutes));
+        timer.handleGoalSet(block.goal);
+        timer.handleDifficultySet(block.difficulty);
+        timer.setPlannedBlockId(block.id);
+        timer.startSession();
+        get().markReminded(id);
+      },
+
+      reset: () => set(initialPlannerState), // Reset function for testing
+    }),
+    {
+      name: STORAGE_KEYS.PLANNER,
+      storage: appStorage,
+      partialize: (state) => ({
+        blocks: state.blocks,
+      }),
+    }
+  )
+);
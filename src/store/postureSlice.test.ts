@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { usePostureStore, getPostureScore } from './postureSlice';
+import { POSTURE_SAMPLE_MAX_GAP_MS } from '../constants';
+import { act } from '@testing-library/react';
+
+const start = 1620000000000;
+
+const setStatus = (isGood: boolean, message = isGood ? 'Good posture' : 'Head tilted!') => {
+  usePostureStore.setState({ postureStatus: { isGood, message } });
+};
+
+describe('postureSlice session tracking', () => {
+  beforeEach(() => {
+    act(() => {
+      usePostureStore.getState().reset();
+      usePostureStore.setState({ isDetecting: true, isCalibrated: true });
+      usePostureStore.getState().startSessionTracking(start);
+    });
+  });
+
+  it('should split tracked time into good and bad posture', () => {
+    act(() => {
+      setStatus(true);
+      usePostureStore.getState().samplePosture(start + 1000);
+      usePostureStore.getState().samplePosture(start + 2000);
+      setStatus(false);
+      usePostureStore.getState().samplePosture(start + 3000);
+    });
+
+    const stats = usePostureStore.getState().finishSessionTracking(start + 3000);
+    expect(stats).toEqual({ goodMs: 2000, badMs: 1000, ruleFailures: { 'Head tilted!': 1 } });
+    expect(getPostureScore(stats!)).toBe(67);
+  });
+
+  it('should count a rule once per failure, not per sample', () => {
+    act(() => {
+      setStatus(false, 'Head tilted!');
+      usePostureStore.getState().samplePosture(start + 1000);
+      usePostureStore.getState().samplePosture(start + 2000);
+      setStatus(true);
+      usePostureStore.getState().samplePosture(start + 3000);
+      setStatus(false, 'Head tilted!');
+      usePostureStore.getState().samplePosture(start + 4000);
+      setStatus(false, 'Horizontal head position changed!');
+      usePostureStore.getState().samplePosture(start + 5000);
+    });
+
+    expect(usePostureStore.getState().sessionTracker?.ruleFailures).toEqual({
+      'Head tilted!': 2,
+      'Horizontal head position changed!': 1,
+    });
+  });
+
+  it('should not count time while the camera is off or uncalibrated', () => {
+    act(() => {
+      usePostureStore.setState({ isDetecting: false });
+      usePostureStore.getState().samplePosture(start + 1000);
+      usePostureStore.setState({ isDetecting: true, isCalibrating: true });
+      usePostureStore.getState().samplePosture(start + 2000);
+    });
+
+    const stats = usePostureStore.getState().finishSessionTracking(start + 2000);
+    expect(stats).toEqual({ goodMs: 0, badMs: 0, ruleFailures: {} });
+    expect(getPostureScore(stats!)).toBeUndefined();
+  });
+
+  it('should ignore gaps longer than the sampling limit', () => {
+    act(() => {
+      setStatus(true);
+      usePostureStore.getState().samplePosture(start + POSTURE_SAMPLE_MAX_GAP_MS + 1);
+      usePostureStore.getState().samplePosture(start + POSTURE_SAMPLE_MAX_GAP_MS + 1001);
+    });
+
+    expect(usePostureStore.getState().sessionTracker?.goodMs).toBe(1000);
+  });
+
+  it('should not count a short pause as posture time', () => {
+    act(() => {
+      setStatus(true);
+      usePostureStore.getState().samplePosture(start + 1000);
+      // Paused for three seconds, under the sampling gap limit
+      usePostureStore.getState().resumeSessionTracking(start + 4000);
+      usePostureStore.getState().samplePosture(start + 5000);
+    });
+
+    expect(usePostureStore.getState().sessionTracker?.goodMs).toBe(2000);
+  });
+
+  it('should return null when no session is tracked', () => {
+    act(() => {
+      usePostureStore.getState().finishSessionTracking(start);
+    });
+
+    expect(usePostureStore.getState().finishSessionTracking(start)).toBeNull();
+  });
+});
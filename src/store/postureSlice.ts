@@ -1,7 +1,8 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import { appStorage } from '../lib/persistStorage';
 import { NormalizedLandmark } from '@mediapipe/tasks-vision';
-import { STORAGE_KEYS } from '../constants';
+import { STORAGE_KEYS, POSTURE_SAMPLE_MAX_GAP_MS } from '../constants';
 import { isGoodPosture } from '@/utils/postureDetect';
 
 // Shallow comparator to avoid unnecessary postureStatus writes
@@ -30,6 +31,26 @@ export interface PostureAngles {
   torsoAngle: number;
 }
 
+// Posture measured over one focus session
+export interface PostureSessionStats {
+  goodMs: number;
+  badMs: number;
+  ruleFailures: Record<string, number>; // Failed rule message -> times it started failing
+}
+
+// Running tally while a session is active
+export interface PostureSessionTracker extends PostureSessionStats {
+  lastSampleAt: number;
+  lastFailedRule: string | null; // Rule failing at the previous sample, if any
+}
+
+// Good-posture percentage, or undefined when nothing was measured
+export function getPostureScore(stats: PostureSessionStats): number | undefined {
+  const trackedMs = stats.goodMs + stats.badMs;
+  if (trackedMs <= 0) return undefined;
+  return Math.round((stats.goodMs / trackedMs) * 100);
+}
+
 // Define the initial state for reuse in reset function and tests
 export const initialPostureState = {
   // Detection state
@@ -52,6 +73,9 @@ export const initialPostureState = {
   
   // Settings
   sensitivityPercentage: 10, // Default 10%
+  
+  // Per-session measurement, persisted so a reload keeps the tally
+  sessionTracker: null as PostureSessionTracker | null,
 };
 
 // Define the state and actions
@@ -67,6 +91,7 @@ interface PostureState {
   baselineMetrics: BaselineMetrics | null;
   postureStatus: PostureStatus;
   sensitivityPercentage: number;
+  sessionTracker: PostureSessionTracker | null;
   
   // Simple actions (state setters)
   setIsDetecting: (isDetecting: boolean) => void;
@@ -86,6 +111,12 @@ interface PostureState {
   clearCalibration: () => void;
   evaluatePosture: (landmarks: NormalizedLandmark[]) => void;
   
+  // Session measurement (driven by the timer)
+  startSessionTracking: (now?: number) => void;
+  samplePosture: (now?: number) => void;
+  resumeSessionTracking: (now?: number) => void;
+  finishSessionTracking: (now?: number) => PostureSessionStats | null;
+  
   // Reset function for testing
   reset: () => void;
 }
@@ -227,16 +258,73 @@ export const usePostureStore = create<PostureState>()(
         console.log("[postureSlice] Calibration cleared");
       },
       
+      startSessionTracking: (now = Date.now()) => {
+        set({ sessionTracker: { goodMs: 0, badMs: 0, ruleFailures: {}, lastSampleAt: now, lastFailedRule: null } });
+      },
+      
+      // Attribute the time since the last sample to the current posture.
+      // Only counts while the camera is on and calibrated.
+      samplePosture: (now = Date.now()) => {
+        const state = get();
+        const tracker = state.sessionTracker;
+        if (!tracker) return;
+        
+        const isMeasuring = state.isDetecting && state.isCalibrated && !state.isCalibrating;
+        const gapMs = now - tracker.lastSampleAt;
+        const dt = gapMs > 0 && gapMs <= POSTURE_SAMPLE_MAX_GAP_MS ? gapMs : 0;
+        
+        if (!isMeasuring) {
+          set({ sessionTracker: { ...tracker, lastSampleAt: now, lastFailedRule: null } });
+          return;
+        }
+        
+        const { isGood, message } = state.postureStatus;
+        const failedRule = isGood ? null : message;
+        // Count each time a rule starts failing, not every second it keeps failing
+        const ruleFailures = failedRule && failedRule !== tracker.lastFailedRule
+          ? { ...tracker.ruleFailures, [failedRule]: (tracker.ruleFailures[failedRule] || 0) + 1 }
+          : tracker.ruleFailures;
+        
+        set({
+          sessionTracker: {
+            goodMs: tracker.goodMs + (isGood ? dt : 0),
+            badMs: tracker.badMs + (isGood ? 0 : dt),
+            ruleFailures,
+            lastSampleAt: now,
+            lastFailedRule: failedRule,
+          }
+        });
+      },
+      
+      // The paused stretch is not posture time; measuring restarts from `now`
+      resumeSessionTracking: (now = Date.now()) => {
+        const tracker = get().sessionTracker;
+        if (!tracker) return;
+        set({ sessionTracker: { ...tracker, lastSampleAt: now, lastFailedRule: null } });
+      },
+      
+      finishSessionTracking: (now = Date.now()) => {
+        const last = get().sessionTracker;
+        if (!last) return null;
+        // Nothing left to attribute when the last sample was taken at `now` (e.g. at the pause)
+        if (now > last.lastSampleAt) get().samplePosture(now);
+        const tracker = get().sessionTracker!;
+        set({ sessionTracker: null });
+        return { goodMs: tracker.goodMs, badMs: tracker.badMs, ruleFailures: tracker.ruleFailures };
+      },
+      
       // Reset function for testing
       reset: () => set(initialPostureState),
     }),
     {
-      name: STORAGE_KEYS.POSTURE, // Add this key to constants.ts
+      name: STORAGE_KEYS.POSTURE,
+      storage: appStorage,
       partialize: (state) => ({
-        // Only persist these values in localStorage
+        // Only persist these values
         baselineMetrics: state.baselineMetrics,
         sensitivityPercentage: state.sensitivityPercentage,
-        isCalibrated: state.isCalibrated
+        isCalibrated: state.isCalibrated,
+        sessionTracker: state.sessionTracker
       }),
     }
   )
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { usePresetStore } from './presetSlice';
+import { useTimerStore } from './timerSlice';
+import { useWarpStore } from './warpSlice';
+import { DIFFICULTY, WARP_MODE } from '../constants';
+import { act } from '@testing-library/react';
+
+describe('presetSlice', () => {
+  beforeEach(() => {
+    act(() => {
+      usePresetStore.getState().reset();
+      useTimerStore.getState().reset();
+      useWarpStore.getState().reset();
+    });
+  });
+
+  it('should add, update and remove presets', () => {
+    let id = '';
+    act(() => {
+      id = usePresetStore.getState().addPreset({
+        name: 'Review',
+        minutes: 45,
+        difficulty: DIFFICULTY.EASY,
+        warpMode: WARP_MODE.NONE,
+        album: 'album3',
+        fortyHz: false,
+      });
+      usePresetStore.getState().updatePreset(id, { minutes: 60 });
+    });
+
+    expect(usePresetStore.getState().presets.find(p => p.id === id)?.minutes).toBe(60);
+
+    act(() => {
+      usePresetStore.getState().removePreset(id);
+    });
+
+    expect(usePresetStore.getState().presets.find(p => p.id === id)).toBeUndefined();
+  });
+
+  it('should set timer and warp stores when applying a preset', () => {
+    let id = '';
+    act(() => {
+      id = usePresetStore.getState().addPreset({
+        name: 'Deep',
+        minutes: 90,
+        difficulty: DIFFICULTY.HARD,
+        warpMode: WARP_MODE.LIGHT_SPEED,
+        album: 'album2',
+        fortyHz: true,
+      });
+    });
+
+    let applied = null;
+    act(() => {
+      applied = usePresetStore.getState().applyPreset(id);
+    });
+
+    expect(applied).toMatchObject({ album: 'album2', fortyHz: true });
+    expect(useTimerStore.getState().minutes).toBe('90');
+    expect(useTimerStore.getState().isInfinite).toBe(false);
+    expect(useTimerStore.getState().currentDifficulty).toBe(DIFFICULTY.HARD);
+    expect(useWarpStore.getState().warpMode).toBe(WARP_MODE.LIGHT_SPEED);
+  });
+
+  it('should apply an infinite preset', () => {
+    let id = '';
+    act(() => {
+      id = usePresetStore.getState().addPreset({
+        name: 'Flow',
+        minutes: null,
+        difficulty: DIFFICULTY.MEDIUM,
+        warpMode: WARP_MODE.BACKGROUND,
+        album: 'album1',
+        fortyHz: false,
+      });
+      usePresetStore.getState().applyPreset(id);
+    });
+
+    expect(useTimerStore.getState().isInfinite).toBe(true);
+  });
+
+  it('should not apply a preset during an active session', () => {
+    act(() => {
+      useTimerStore.getState().handleMinutesChange('10');
+      useTimerStore.getState().startSession();
+    });
+
+    const [preset] = usePresetStore.getState().presets;
+    expect(usePresetStore.getState().applyPreset(preset.id)).toBeNull();
+    expect(useTimerStore.getState().minutes).toBe('10');
+  });
+});
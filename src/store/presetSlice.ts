@@ -0,0 +1,107 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { appStorage } from '../lib/persistStorage';
+import { DIFFICULTY, STORAGE_KEYS, WARP_MODE, INFINITY_SYMBOL } from '../constants';
+import { useTimerStore } from './timerSlice';
+import { useWarpStore } from './warpSlice';
+import { generateId } from './historySlice';
+import type { WarpMode } from './warpSlice';
+import type { AlbumId } from '../features/audio/AudioProvider';
+
+type Difficulty = typeof DIFFICULTY[keyof typeof DIFFICULTY];
+
+// A named bundle of session settings
+export interface SessionPreset {
+  id: string;
+  name: string;
+  minutes: number | null; // null for an infinite session
+  difficulty: Difficulty;
+  warpMode: WarpMode;
+  album: AlbumId;
+  fortyHz: boolean;
+}
+
+// Define the initial state for reuse in reset function and tests
+export const initialPresetState = {
+  presets: [
+    {
+      id: 'preset-deep-write',
+      name: 'Deep Write',
+      minutes: 90,
+      difficulty: DIFFICULTY.HARD,
+      warpMode: WARP_MODE.LIGHT_SPEED,
+      album: 'album2',
+      fortyHz: true,
+    },
+    {
+      id: 'preset-quick-sprint',
+      name: 'Quick Sprint',
+      minutes: 25,
+      difficulty: DIFFICULTY.MEDIUM,
+      warpMode: WARP_MODE.BACKGROUND,
+      album: 'album1',
+      fortyHz: false,
+    },
+  ] as SessionPreset[],
+};
+
+// Define the type for our preset state
+export interface PresetState {
+  presets: SessionPreset[];
+
+  // Actions
+  addPreset: (preset: Omit<SessionPreset, 'id'>) => string;
+  updatePreset: (id: string, updates: Partial<Omit<SessionPreset, 'id'>>) => void;
+  removePreset: (id: string) => void;
+  applyPreset: (id: string) => SessionPreset | null;
+  reset: () => void; // Reset function for testing
+}
+
+// Create the store with persist middleware
+export const usePresetStore = create<PresetState>()(
+  persist(
+    (set, get) => ({
+      // Default state values
+      ...initialPresetState,
+
+      addPreset: (preset) => {
+        const id = generateId();
+        set((state) => ({ presets: [...state.presets, { ...preset, id }] }));
+        return id;
+      },
+
+      updatePreset: (id, updates) => {
+        set((state) => ({
+          presets: state.presets.map(preset => preset.id === id ? { ...preset, ...updates } : preset)
+        }));
+      },
+
+      removePreset: (id) => {
+        set((state) => ({ presets: state.presets.filter(preset => preset.id !== id) }));
+      },
+
+      // Set timer and warp from the preset. Music and 40Hz live in the audio
+      // layer, so callers apply those from the returned preset (see useApplyPreset).
+      applyPreset: (id) => {
+        const preset = get().presets.find(p => p.id === id);
+        const timer = useTimerStore.getState();
+        if (!preset || timer.isSessionActive) return null;
+
+        console.log(`[PresetStore] Applying preset '${preset.name}'`);
+        timer.handleMinutesChange(preset.minutes === null ? INFINITY_SYMBOL : String(preset.minutes));
+        timer.handleDifficultySet(preset.difficulty);
+        useWarpStore.getState().setWarpMode(preset.warpMode);
+        return preset;
+      },
+
+      reset: () => set(initialPresetState), // Reset function for testing
+    }),
+    {
+      name: STORAGE_KEYS.PRESETS,
+      storage: appStorage,
+      partialize: (state) => ({
+        presets: state.presets,
+      }),
+    }
+  )
+);
@@ -0,0 +1,38 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { STORAGE_KEYS } from '../constants';
+import { appStorage } from '../lib/persistStorage';
+
+// Define the initial state for reuse in reset function and tests
+export const initialProjectState = {
+  budgets: {} as Record<string, number>, // Weekly focus budget in minutes, by project name
+};
+
+export interface ProjectState {
+  budgets: Record<string, number>;
+
+  // Actions
+  setWeeklyBudget: (project: string, minutes: number | null) => void; // null removes the budget
+  reset: () => void; // Reset function for testing
+}
+
+// Weekly time budgets per project; the projects themselves come from history
+export const useProjectStore = create<ProjectState>()(
+  persist(
+    (set) => ({
+      ...initialProjectState,
+      setWeeklyBudget: (project, minutes) => set((state) => {
+        const { [project]: _previous, ...budgets } = state.budgets;
+        return minutes !== null && minutes > 0
+          ? { budgets: { ...budgets, [project]: Math.round(minutes) } }
+          : { budgets };
+      }),
+      reset: () => set(initialProjectState),
+    }),
+    {
+      name: STORAGE_KEYS.PROJECTS,
+      storage: appStorage,
+      partialize: (state) => ({ budgets: state.budgets }),
+    }
+  )
+);
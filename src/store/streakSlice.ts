@@ -0,0 +1,54 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { STORAGE_KEYS, DAILY_STREAK_DEFAULT_MIN_MINUTES } from '../constants';
+import { appStorage } from '../lib/persistStorage';
+
+// Define the initial state for reuse in reset function and tests
+export const initialStreakState = {
+  minFocusMinutes: DAILY_STREAK_DEFAULT_MIN_MINUTES,
+  restDays: [] as number[], // Weekdays, Monday = 0
+  useFreezeTokens: true,
+  timeZone: null as string | null, // IANA zone; null follows the browser
+};
+
+export interface StreakState {
+  minFocusMinutes: number;
+  restDays: number[];
+  useFreezeTokens: boolean;
+  timeZone: string | null;
+
+  // Actions
+  setMinFocusMinutes: (minutes: number) => void;
+  toggleRestDay: (weekday: number) => void;
+  setUseFreezeTokens: (enabled: boolean) => void;
+  setTimeZone: (timeZone: string | null) => void;
+  reset: () => void; // Reset function for testing
+}
+
+// Settings for the daily streak; the streak itself is derived from history (utils/streaks)
+export const useStreakStore = create<StreakState>()(
+  persist(
+    (set) => ({
+      ...initialStreakState,
+      setMinFocusMinutes: (minutes) => set({ minFocusMinutes: Math.max(1, Math.round(minutes)) }),
+      toggleRestDay: (weekday) => set((state) => ({
+        restDays: state.restDays.includes(weekday)
+          ? state.restDays.filter(day => day !== weekday)
+          : [...state.restDays, weekday].sort(),
+      })),
+      setUseFreezeTokens: (enabled) => set({ useFreezeTokens: enabled }),
+      setTimeZone: (timeZone) => set({ timeZone }),
+      reset: () => set(initialStreakState),
+    }),
+    {
+      name: STORAGE_KEYS.STREAK,
+      storage: appStorage,
+      partialize: (state) => ({
+        minFocusMinutes: state.minFocusMinutes,
+        restDays: state.restDays,
+        useFreezeTokens: state.useFreezeTokens,
+        timeZone: state.timeZone,
+      }),
+    }
+  )
+);
@@ -0,0 +1,33 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { STORAGE_KEYS } from '../constants';
+import { appStorage } from '../lib/persistStorage';
+
+// Define the initial state for reuse in reset function and tests
+export const initialSystemLogState = {
+  note: '',
+};
+
+export interface SystemLogState {
+  note: string;
+
+  // Actions
+  setNote: (note: string) => void;
+  reset: () => void; // Reset function for testing
+}
+
+// Free-form log shown in the System Log card
+export const useSystemLogStore = create<SystemLogState>()(
+  persist(
+    (set) => ({
+      ...initialSystemLogState,
+      setNote: (note) => set({ note }),
+      reset: () => set(initialSystemLogState),
+    }),
+    {
+      name: STORAGE_KEYS.SYSTEM_LOG,
+      storage: appStorage,
+      partialize: (state) => ({ note: state.note }),
+    }
+  )
+);
@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { initTabSync, getTimerSnapshot, reloadAllTabs, TabSyncMessage } from './tabSync';
+import { useTimerStore } from './timerSlice';
+import { act } from '@testing-library/react';
+
+// Minimal BroadcastChannel stand-in: records posts, lets tests deliver messages
+class FakeChannel {
+  static last: FakeChannel | null = null;
+  posted: TabSyncMessage[] = [];
+  onmessage: ((event: MessageEvent<TabSyncMessage>) => void) | null = null;
+  constructor() {
+    FakeChannel.last = this;
+  }
+  postMessage(message: TabSyncMessage) {
+    this.posted.push(message);
+  }
+  close() {}
+  receive(message: TabSyncMessage) {
+    this.onmessage?.({ data: message } as MessageEvent<TabSyncMessage>);
+  }
+}
+
+// Grant the leader lock right away, or keep it held by "another tab"
+const stubLocks = (granted: boolean) => {
+  vi.stubGlobal('navigator', {
+    ...navigator,
+    locks: {
+      request: (_name: string, _options: unknown, callback: () => Promise<void>) =>
+        granted ? callback() : new Promise(() => {}),
+    },
+  });
+};
+
+describe('tabSync', () => {
+  let cleanup: () => void = () => {};
+
+  beforeEach(() => {
+    vi.stubGlobal('BroadcastChannel', FakeChannel);
+    act(() => {
+      useTimerStore.getState().reset();
+    });
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.unstubAllGlobals();
+  });
+
+  it('should leave actions and role out of the snapshot', () => {
+    const snapshot = getTimerSnapshot(useTimerStore.getState());
+    expect(snapshot).not.toHaveProperty('startSession');
+    expect(snapshot).not.toHaveProperty('isTabLeader');
+    expect(snapshot.minutes).toBe(useTimerStore.getState().minutes);
+  });
+
+  it('should forward actions to the leader when following', () => {
+    stubLocks(false);
+    cleanup = initTabSync();
+    const channel = FakeChannel.last!;
+
+    expect(useTimerStore.getState().isTabLeader).toBe(false);
+    expect(channel.posted).toContainEqual({ type: 'hello' });
+
+    act(() => {
+      useTimerStore.getState().startSession();
+    });
+
+    expect(useTimerStore.getState().isSessionActive).toBe(false);
+    expect(channel.posted).toContainEqual({ type: 'action', name: 'startSession', args: [] });
+  });
+
+  it('should forward only plain data, dropping event arguments', () => {
+    stubLocks(false);
+    cleanup = initTabSync();
+    const channel = FakeChannel.last!;
+    // Like React's SyntheticEvent: a class instance carrying functions, which cannot be cloned
+    const clickEvent = new (class SyntheticEvent { target = {}; preventDefault = () => {}; })();
+
+    act(() => {
+      (useTimerStore.getState().startBreak as (...args: unknown[]) => void)(clickEvent);
+      useTimerStore.getState().updateCycleConfig({ shortBreakMinutes: 10 });
+    });
+
+    expect(channel.posted).toContainEqual({ type: 'action', name: 'startBreak', args: [undefined] });
+    expect(channel.posted).toContainEqual({ type: 'action', name: 'updateCycleConfig', args: [{ shortBreakMinutes: 10 }] });
+    expect(() => structuredClone(channel.posted)).not.toThrow();
+  });
+
+  it('should mirror state broadcast by the leader when following', () => {
+    stubLocks(false);
+    cleanup = initTabSync();
+
+    act(() => {
+      FakeChannel.last!.receive({ type: 'state', state: { isSessionActive: true, distractionCount: 2 } });
+    });
+
+    const state = useTimerStore.getState();
+    expect(state.isSessionActive).toBe(true);
+    expect(state.distractionCount).toBe(2);
+    expect(state.isTabLeader).toBe(false);
+  });
+
+  it('should run forwarded actions and broadcast the result when leading', () => {
+    stubLocks(true);
+    cleanup = initTabSync();
+    const channel = FakeChannel.last!;
+
+    expect(useTimerStore.getState().isTabLeader).toBe(true);
+
+    act(() => {
+      channel.receive({ type: 'action', name: 'startSession', args: [] });
+    });
+
+    expect(useTimerStore.getState().isSessionActive).toBe(true);
+    const lastState = [...channel.posted].reverse().find(m => m.type === 'state');
+    expect(lastState).toMatchObject({ type: 'state', state: { isSessionActive: true } });
+  });
+
+  it('should reload every tab after stored data was replaced', () => {
+    const reload = vi.fn();
+    vi.stubGlobal('location', { ...window.location, reload });
+    stubLocks(true);
+    cleanup = initTabSync();
+    const channel = FakeChannel.last!;
+
+    reloadAllTabs();
+    expect(channel.posted).toContainEqual({ type: 'reload' });
+    expect(reload).toHaveBeenCalledTimes(1);
+
+    channel.receive({ type: 'reload' });
+    expect(reload).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,207 @@
+import { useTimerStore, TimerState } from './timerSlice';
+import { useHistoryStore, SessionData } from './historySlice';
+import { usePlannerStore } from './plannerSlice';
+import { useStreakStore } from './streakSlice';
+import { useProjectStore } from './projectSlice';
+import { useCalendarStore } from './calendarSlice';
+import { useGoalStore } from './goalSlice';
+import { onStoredKeyChange } from '../lib/persistStorage';
+import { STORAGE_KEYS, TAB_SYNC_CHANNEL, TAB_LEADER_LOCK } from '../constants';
+
+/**
+ * Cross-tab coordination for the timer.
+ *
+ * One tab holds the leader lock (Web Locks API) and is the only one that runs
+ * the timer interval and writes history. Other tabs mirror the leader's timer
+ * state over a BroadcastChannel and forward user actions to it. When the
+ * leader tab closes, the lock passes to the next waiting tab.
+ */
+
+// Actions a follower forwards to the leader instead of running locally.
+// Arguments must survive structured cloning.
+export const FORWARDED_ACTIONS = [
+  'setMinutes',
+  'setIsInfinite',
+  'setCurrentGoal',
+  'setCurrentDifficulty',
+  'setCurrentProject',
+  'setCurrentTags',
+  'setCurrentGoalId',
+  'setMilestoneMinutes',
+  'setOvertimeEnabled',
+  'setPlannedBlockId',
+  'handleMinutesChange',
+  'handleGoalSet',
+  'handleDifficultySet',
+  'startSession',
+  'pauseTimer',
+  'resumeTimer',
+  'stopTimer',
+  'addDistraction',
+  'annotateLastDistraction',
+  'extendSession',
+  'endSession',
+  'abandonSession',
+  'resetSession',
+  'recoverSession',
+  'setCycleMode',
+  'updateCycleConfig',
+  'startBreak',
+  'resetCycles',
+] as const;
+
+type ForwardedAction = typeof FORWARDED_ACTIONS[number];
+
+export type TabSyncMessage =
+  | { type: 'hello' }
+  | { type: 'state'; state: Partial<TimerState> }
+  | { type: 'action'; name: ForwardedAction; args: unknown[] }
+  | { type: 'summary'; session: SessionData }
+  | { type: 'reload' };
+
+// Channel of the running coordination, for messages sent outside the timer flow
+let activeChannel: BroadcastChannel | null = null;
+
+// Plain data of the timer store; actions and the local role stay per tab
+export const getTimerSnapshot = (state: TimerState): Partial<TimerState> => {
+  const snapshot: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(state)) {
+    if (typeof value !== 'function' && key !== 'isTabLeader') {
+      snapshot[key] = value;
+    }
+  }
+  return snapshot as Partial<TimerState>;
+};
+
+// Plain data survives postMessage; anything else (DOM or React events,
+// functions, class instances) is dropped instead of throwing DataCloneError
+export const toCloneableArg = (value: unknown): unknown => {
+  if (value === null || typeof value !== 'object') return typeof value === 'function' ? undefined : value;
+  if (Array.isArray(value)) return value.map(toCloneableArg);
+  const prototype = Object.getPrototypeOf(value);
+  if (prototype !== Object.prototype && prototype !== null) return undefined;
+  return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, toCloneableArg(entry)]));
+};
+
+/**
+ * Reload every open tab, this one included. Used after stored data was
+ * replaced wholesale (a backup restore), so other tabs do not keep their old
+ * stores in memory and write them back over it.
+ */
+export const reloadAllTabs = () => {
+  activeChannel?.postMessage({ type: 'reload' } satisfies TabSyncMessage);
+  window.location.reload();
+};
+
+/**
+ * Start cross-tab coordination. Returns a cleanup function.
+ * Without BroadcastChannel the tab simply stays leader, as before.
+ */
+export const initTabSync = (): (() => void) => {
+  if (typeof BroadcastChannel === 'undefined') {
+    console.log('[TabSync] BroadcastChannel unavailable, running standalone');
+    return () => {};
+  }
+
+  const channel = new BroadcastChannel(TAB_SYNC_CHANNEL);
+  activeChannel = channel;
+  const post = (message: TabSyncMessage) => channel.postMessage(message);
+  const isLeader = () => useTimerStore.getState().isTabLeader;
+
+  // Keep the original actions; followers get forwarding wrappers
+  const originals = {} as Record<ForwardedAction, (...args: unknown[]) => void>;
+  const wrappers = {} as Record<ForwardedAction, (...args: unknown[]) => void>;
+  for (const name of FORWARDED_ACTIONS) {
+    const original = useTimerStore.getState()[name] as (...args: unknown[]) => void;
+    originals[name] = original;
+    wrappers[name] = (...args: unknown[]) => {
+      if (isLeader()) {
+        original(...args);
+      } else {
+        console.log(`[TabSync] Forwarding ${name} to leader tab`);
+        post({ type: 'action', name, args: args.map(toCloneableArg) });
+      }
+    };
+  }
+  useTimerStore.setState(wrappers as Partial<TimerState>);
+
+  // Leader: broadcast every timer change and each new summary
+  const unsubscribeTimer = useTimerStore.subscribe((state) => {
+    if (state.isTabLeader) post({ type: 'state', state: getTimerSnapshot(state) });
+  });
+  const unsubscribeHistory = useHistoryStore.subscribe((state, prev) => {
+    if (isLeader() && state.lastSession && state.lastSession !== prev.lastSession) {
+      post({ type: 'summary', session: state.lastSession });
+    }
+  });
+
+  channel.onmessage = (event: MessageEvent<TabSyncMessage>) => {
+    const message = event.data;
+    switch (message.type) {
+      case 'hello':
+        if (isLeader()) post({ type: 'state', state: getTimerSnapshot(useTimerStore.getState()) });
+        break;
+      case 'state':
+        if (!isLeader()) useTimerStore.setState(message.state);
+        break;
+      case 'action':
+        if (isLeader() && message.name in originals) originals[message.name](...message.args);
+        break;
+      case 'summary':
+        if (!isLeader()) {
+          // Reload first so this tab never persists a history without the new session
+          void Promise.resolve(useHistoryStore.persist.rehydrate()).then(() => {
+            const history = useHistoryStore.getState();
+            history.setLastSession(message.session);
+            history.setShowSummary(true);
+          });
+        }
+        break;
+      case 'reload':
+        console.log('[TabSync] Stored data was replaced in another tab, reloading');
+        window.location.reload();
+        break;
+    }
+  };
+
+  // History is written by the leader only; other tabs reload it from storage.
+  // The planner, streak settings, project budgets and goals are edited from any tab, so they follow the same route.
+  const unsubscribeStorage = [
+    onStoredKeyChange(STORAGE_KEYS.HISTORY, () => useHistoryStore.persist.rehydrate()),
+    onStoredKeyChange(STORAGE_KEYS.PLANNER, () => usePlannerStore.persist.rehydrate()),
+    onStoredKeyChange(STORAGE_KEYS.STREAK, () => useStreakStore.persist.rehydrate()),
+    onStoredKeyChange(STORAGE_KEYS.PROJECTS, () => useProjectStore.persist.rehydrate()),
+    onStoredKeyChange(STORAGE_KEYS.CALENDAR, () => useCalendarStore.persist.rehydrate()),
+    onStoredKeyChange(STORAGE_KEYS.GOAL, () => useGoalStore.persist.rehydrate()),
+  ];
+
+  // Leader election. Without Web Locks every tab leads, like before this module.
+  const releaseLock = new AbortController();
+  let resolveHeldLock: (() => void) | null = null;
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    useTimerStore.setState({ isTabLeader: false });
+    navigator.locks.request(TAB_LEADER_LOCK, { signal: releaseLock.signal }, () => {
+      console.log('[TabSync] This tab is now the timer leader');
+      // Resume ticking the mirrored session, or ask about it if it already ran out
+      useTimerStore.setState({ isTabLeader: true });
+      useTimerStore.getState().checkRecovery();
+      return new Promise<void>((resolve) => {
+        resolveHeldLock = resolve;
+      });
+    }).catch(() => {
+      // Aborted on cleanup while still waiting for the lock
+    });
+    post({ type: 'hello' });
+  }
+
+  return () => {
+    releaseLock.abort();
+    resolveHeldLock?.();
+    unsubscribeTimer();
+    unsubscribeHistory();
+    unsubscribeStorage.forEach(unsubscribe => unsubscribe());
+    channel.close();
+    if (activeChannel === channel) activeChannel = null;
+    useTimerStore.setState({ ...originals, isTabLeader: true } as Partial<TimerState>);
+  };
+};
@@ -1,32 +1,49 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { useTimerStore, initialTimerState } from './timerSlice';
-import { DEFAULT_GOAL, DIFFICULTY, INFINITY_SYMBOL } from '../constants';
+import { useTimerStore, initialTimerState, getTotalPausedMs, getCyclesInRound } from './timerSlice';
+import { usePostureStore } from './postureSlice';
+import { notifyIfHidden } from '../utils/notifications';
+import { DEFAULT_GOAL, DIFFICULTY, DISTRACTION_CATEGORY, INFINITY_SYMBOL, SESSION_OUTCOME } from '../constants';
 import { act } from '@testing-library/react';
 
-// Mock useHistoryStore
+// Mock useHistoryStore (shared so tests can inspect calls)
+const historyMock = vi.hoisted(() => ({
+  history: [] as any[],
+  addHistoryItem: vi.fn(),
+  updateBreakItem: vi.fn(),
+  closeOpenBreak: vi.fn(),
+  incrementStreakSessions: vi.fn(),
+  resetStreakSessions: vi.fn(),
+  setLastSession: vi.fn(),
+  setShowSummary: vi.fn(),
+}));
+
 vi.mock('./historySlice', () => ({
   useHistoryStore: {
-    getState: () => ({
-      addHistoryItem: vi.fn(),
-      closeOpenBreak: vi.fn(),
-      incrementStreakSessions: vi.fn(),
-      resetStreakSessions: vi.fn(),
-      setLastSession: vi.fn(),
-      setShowSummary: vi.fn(),
-    }),
+    getState: () => historyMock,
   },
   generateId: () => 'test-id',
 }));
 
+vi.mock('../utils/notifications', () => ({
+  notifyIfHidden: vi.fn(),
+  requestNotificationPermission: vi.fn(),
+}));
+
 // Mock Date.now for consistent test values
 const mockTimestamp = 1620000000000;
-vi.spyOn(Date, 'now').mockImplementation(() => mockTimestamp);
+const nowSpy = vi.spyOn(Date, 'now').mockImplementation(() => mockTimestamp);
+
+// Move the mocked clock to a fixed offset from mockTimestamp
+const setNow = (offsetMs: number) => nowSpy.mockImplementation(() => mockTimestamp + offsetMs);
 
 describe('timerSlice', () => {
   // Reset the store before each test
   beforeEach(() => {
+    vi.clearAllMocks();
+    setNow(0);
     act(() => {
       useTimerStore.getState().reset();
+      usePostureStore.getState().reset();
     });
   });
   
@@ -209,6 +226,318 @@ describe('timerSlice', () => {
     expect(useTimerStore.getState().isPaused).toBe(false);
   });
   
+  it('should record pause intervals and exclude them from the session', () => {
+    act(() => {
+      useTimerStore.getState().handleMinutesChange('25');
+      useTimerStore.getState().startSession();
+    });
+    
+    // Pause from 1:00 to 3:00
+    setNow(60000);
+    act(() => {
+      useTimerStore.getState().pauseTimer();
+    });
+    expect(useTimerStore.getState().pauseStartedAt).toBe(mockTimestamp + 60000);
+    
+    setNow(180000);
+    act(() => {
+      useTimerStore.getState().resumeTimer();
+    });
+    expect(useTimerStore.getState().pauseLog).toEqual([
+      { start: mockTimestamp + 60000, end: mockTimestamp + 180000 },
+    ]);
+    expect(useTimerStore.getState().pauseStartedAt).toBeNull();
+    
+    // A second pause is still open when the session ends
+    setNow(240000);
+    act(() => {
+      useTimerStore.getState().pauseTimer();
+    });
+    setNow(300000);
+    act(() => {
+      useTimerStore.getState().endSession();
+    });
+    
+    const session = historyMock.addHistoryItem.mock.calls[0][0];
+    expect(session.pauseLog).toHaveLength(2);
+    expect(session.pausedMs).toBe(180000);
+  });
+  
+  it('should not score posture when tracking was off', () => {
+    act(() => {
+      useTimerStore.getState().handleMinutesChange('25');
+      useTimerStore.getState().startSession();
+    });
+    setNow(60000);
+    act(() => {
+      useTimerStore.getState().endSession();
+    });
+    
+    const session = historyMock.addHistoryItem.mock.calls[0][0];
+    expect(session.posture).toBeUndefined();
+    expect(session.postureStats).toBeUndefined();
+  });
+  
+  it('should score posture from time tracked during the session', () => {
+    act(() => {
+      usePostureStore.setState({ isDetecting: true, isCalibrated: true });
+      useTimerStore.getState().handleMinutesChange('25');
+      useTimerStore.getState().startSession();
+    });
+    
+    // 3s good, then 1s bad
+    for (const offset of [1000, 2000, 3000]) {
+      setNow(offset);
+      act(() => useTimerStore.getState().tick());
+    }
+    act(() => {
+      usePostureStore.setState({ postureStatus: { isGood: false, message: 'Head tilted!' } });
+    });
+    setNow(4000);
+    act(() => {
+      useTimerStore.getState().endSession();
+    });
+    
+    const session = historyMock.addHistoryItem.mock.calls[0][0];
+    expect(session.posture).toBe(75);
+    expect(session.postureStats).toEqual({ goodMs: 3000, badMs: 1000, ruleFailures: { 'Head tilted!': 1 } });
+    expect(usePostureStore.getState().sessionTracker).toBeNull();
+  });
+  
+  it('should not count the pause as posture time when ending while paused', () => {
+    act(() => {
+      usePostureStore.setState({ isDetecting: true, isCalibrated: true });
+      useTimerStore.getState().handleMinutesChange('25');
+      useTimerStore.getState().startSession();
+    });
+    
+    for (const offset of [1000, 2000]) {
+      setNow(offset);
+      act(() => useTimerStore.getState().tick());
+    }
+    act(() => {
+      useTimerStore.getState().pauseTimer();
+      usePostureStore.setState({ postureStatus: { isGood: false, message: 'Head tilted!' } });
+    });
+    setNow(4000);
+    act(() => {
+      useTimerStore.getState().endSession();
+    });
+    
+    const session = historyMock.addHistoryItem.mock.calls[0][0];
+    expect(session.postureStats).toEqual({ goodMs: 2000, badMs: 0, ruleFailures: {} });
+  });
+  
+  it('should keep pause time out of infinite session duration', () => {
+    act(() => {
+      useTimerStore.getState().handleMinutesChange(INFINITY_SYMBOL);
+      useTimerStore.getState().startSession();
+    });
+    
+    setNow(60000);
+    act(() => {
+      useTimerStore.getState().pauseTimer();
+    });
+    setNow(120000);
+    act(() => {
+      useTimerStore.getState().resumeTimer();
+    });
+    setNow(600000);
+    act(() => {
+      useTimerStore.getState().endSession();
+    });
+    
+    const session = historyMock.addHistoryItem.mock.calls[0][0];
+    expect(session.duration).toBe(540000);
+    expect(session.pausedMs).toBe(60000);
+  });
+  
+  it('should count infinite sessions up from the wall clock', () => {
+    act(() => {
+      useTimerStore.getState().handleMinutesChange(INFINITY_SYMBOL);
+      useTimerStore.getState().setMilestoneMinutes(25);
+      useTimerStore.getState().startSession();
+    });
+    
+    // A throttled tab may tick rarely; elapsed time still follows the clock
+    setNow(26 * 60000);
+    act(() => {
+      useTimerStore.getState().tick();
+    });
+    
+    let state = useTimerStore.getState();
+    expect(state.elapsedTime).toBe(26 * 60000);
+    expect(state.milestonesReached).toBe(1);
+    expect(state.remainingTime).toBe(Number.MAX_SAFE_INTEGER);
+    expect(state.isSessionActive).toBe(true);
+    
+    // Milestones never end the session
+    setNow(51 * 60000);
+    act(() => {
+      useTimerStore.getState().tick();
+    });
+    state = useTimerStore.getState();
+    expect(state.milestonesReached).toBe(2);
+    expect(state.isSessionActive).toBe(true);
+  });
+  
+  it('should count overtime instead of ending when overtime is enabled', () => {
+    act(() => {
+      useTimerStore.getState().handleMinutesChange('25');
+      useTimerStore.getState().setOvertimeEnabled(true);
+      useTimerStore.getState().startSession();
+    });
+    
+    setNow(27 * 60000);
+    act(() => {
+      useTimerStore.getState().tick();
+    });
+    
+    const state = useTimerStore.getState();
+    expect(state.isSessionActive).toBe(true);
+    expect(state.isOvertime).toBe(true);
+    expect(state.overtimeMs).toBe(2 * 60000);
+    
+    act(() => {
+      useTimerStore.getState().endSession();
+    });
+    
+    const session = historyMock.addHistoryItem.mock.calls[0][0];
+    expect(session.plannedDurationMs).toBe(25 * 60000);
+    expect(session.overtimeMs).toBe(2 * 60000);
+    expect(session.duration).toBe(27 * 60000);
+    expect(session.extensions).toEqual([]);
+  });
+  
+  it('should apply extensions against overtime already run', () => {
+    act(() => {
+      useTimerStore.getState().handleMinutesChange('25');
+      useTimerStore.getState().setOvertimeEnabled(true);
+      useTimerStore.getState().startSession();
+    });
+    
+    // Three minutes into overtime, +5 leaves two minutes on the clock
+    setNow(28 * 60000);
+    act(() => {
+      useTimerStore.getState().tick();
+      useTimerStore.getState().extendSession(5);
+    });
+    
+    let state = useTimerStore.getState();
+    expect(state.isOvertime).toBe(false);
+    expect(state.remainingTime).toBe(2 * 60000);
+    expect(state.sessionDurationMs).toBe(30 * 60000);
+    
+    setNow(30 * 60000);
+    act(() => {
+      useTimerStore.getState().tick();
+      useTimerStore.getState().endSession();
+    });
+    
+    const session = historyMock.addHistoryItem.mock.calls[0][0];
+    expect(session.plannedDurationMs).toBe(25 * 60000);
+    expect(session.extensions).toEqual([5 * 60000]);
+    expect(session.overtimeMs).toBe(0);
+    expect(session.outcome).toBe(SESSION_OUTCOME.COMPLETED);
+    expect(session.endedAt).toBe(mockTimestamp + 30 * 60000);
+  });
+  
+  it('should still end at zero when overtime is disabled', () => {
+    vi.useFakeTimers({ toFake: ['setTimeout'] });
+    act(() => {
+      useTimerStore.getState().handleMinutesChange('25');
+      useTimerStore.getState().startSession();
+    });
+    
+    setNow(25 * 60000);
+    act(() => {
+      useTimerStore.getState().tick();
+      vi.runAllTimers();
+    });
+    vi.useRealTimers();
+    
+    expect(useTimerStore.getState().isSessionActive).toBe(false);
+    expect(useTimerStore.getState().isOvertime).toBe(false);
+  });
+  
+  it('should mark a natural finish and notify when hidden', () => {
+    act(() => {
+      useTimerStore.getState().handleMinutesChange('25');
+      useTimerStore.getState().startSession();
+    });
+    
+    setNow(25 * 60000);
+    act(() => {
+      useTimerStore.getState().tick();
+    });
+    
+    expect(useTimerStore.getState().lastSessionCompletedAt).toBe(mockTimestamp + 25 * 60000);
+    expect(notifyIfHidden).toHaveBeenCalledWith('Session complete', expect.any(String), expect.any(Function));
+  });
+  
+  it('should link the session to the planned block it was started from', () => {
+    act(() => {
+      useTimerStore.getState().handleMinutesChange('25');
+      useTimerStore.getState().setPlannedBlockId('block-1');
+      useTimerStore.getState().startSession();
+      useTimerStore.getState().endSession();
+    });
+    
+    expect(historyMock.addHistoryItem.mock.calls[0][0].plannedBlockId).toBe('block-1');
+    expect(useTimerStore.getState().plannedBlockId).toBeNull();
+  });
+
+  it('should link the session to the chosen goal and keep the choice', () => {
+    act(() => {
+      useTimerStore.getState().setCurrentGoalId('goal-1');
+      useTimerStore.getState().startSession();
+      useTimerStore.getState().endSession();
+    });
+
+    expect(historyMock.addHistoryItem.mock.calls[0][0].goalId).toBe('goal-1');
+    expect(useTimerStore.getState().currentGoalId).toBe('goal-1');
+  });
+  
+  it('should record sessions stopped before their end as ended early', () => {
+    act(() => {
+      useTimerStore.getState().handleMinutesChange('25');
+      useTimerStore.getState().startSession();
+    });
+    setNow(10 * 60000);
+    act(() => {
+      useTimerStore.getState().tick();
+      useTimerStore.getState().endSession();
+    });
+
+    const session = historyMock.addHistoryItem.mock.calls[0][0];
+    expect(session.outcome).toBe(SESSION_OUTCOME.ENDED_EARLY);
+    expect(historyMock.incrementStreakSessions).toHaveBeenCalled();
+  });
+
+  it('should record an abandoned session with its reason and break the streak', () => {
+    act(() => {
+      useTimerStore.getState().handleMinutesChange('25');
+      useTimerStore.getState().startSession();
+    });
+    setNow(5 * 60000);
+    act(() => {
+      useTimerStore.getState().tick();
+      useTimerStore.getState().abandonSession('  Meeting ran over ');
+    });
+
+    const session = historyMock.addHistoryItem.mock.calls[0][0];
+    expect(session).toMatchObject({ outcome: SESSION_OUTCOME.ABANDONED, outcomeReason: 'Meeting ran over', duration: 5 * 60000 });
+    expect(historyMock.resetStreakSessions).toHaveBeenCalled();
+    expect(historyMock.incrementStreakSessions).not.toHaveBeenCalled();
+    expect(useTimerStore.getState().isSessionActive).toBe(false);
+  });
+
+  it('should include an ongoing pause in the paused total', () => {
+    const log = [{ start: 0, end: 1000 }];
+    expect(getTotalPausedMs(log, null, 5000)).toBe(1000);
+    expect(getTotalPausedMs(log, 3000, 5000)).toBe(3000);
+  });
+  
   it('should add distractions correctly', () => {
     const { handleMinutesChange, startSession, addDistraction } = useTimerStore.getState();
     
@@ -234,6 +563,31 @@ describe('timerSlice', () => {
     expect(useTimerStore.getState().distractionCount).toBe(2);
   });
   
+  it('should log distractions with time, category and note', () => {
+    act(() => {
+      useTimerStore.getState().handleMinutesChange('25');
+      useTimerStore.getState().startSession();
+    });
+    
+    setNow(60000);
+    act(() => {
+      useTimerStore.getState().addDistraction();
+      useTimerStore.getState().annotateLastDistraction({ category: DISTRACTION_CATEGORY.PHONE });
+    });
+    setNow(120000);
+    act(() => {
+      useTimerStore.getState().addDistraction(DISTRACTION_CATEGORY.NOISE, ' drilling ');
+      useTimerStore.getState().endSession();
+    });
+    
+    const session = historyMock.addHistoryItem.mock.calls[0][0];
+    expect(session.distractions).toBe(2);
+    expect(session.distractionLog).toEqual([
+      { at: mockTimestamp + 60000, category: DISTRACTION_CATEGORY.PHONE },
+      { at: mockTimestamp + 120000, category: DISTRACTION_CATEGORY.NOISE, note: 'drilling' },
+    ]);
+  });
+  
   it('should not add distractions when session is paused', () => {
     const { handleMinutesChange, startSession, pauseTimer, addDistraction } = useTimerStore.getState();
     
@@ -309,4 +663,227 @@ describe('timerSlice', () => {
     // Session is still active
     expect(useTimerStore.getState().isSessionActive).toBe(true);
   });
-}); 
\ No newline at end of file
+
+  describe('cycle mode', () => {
+    // Finish the current focus block as if the countdown reached zero
+    const finishFocusBlock = () => {
+      act(() => {
+        useTimerStore.setState({ remainingTime: 0 });
+        useTimerStore.getState().endSession();
+      });
+    };
+
+    const lastAddedBreak = () => {
+      const calls = historyMock.addHistoryItem.mock.calls;
+      return calls[calls.length - 1][0];
+    };
+
+    it('should force a finite focus length when enabled', () => {
+      act(() => {
+        useTimerStore.getState().handleMinutesChange(INFINITY_SYMBOL);
+        useTimerStore.getState().setCycleMode(true);
+      });
+
+      const state = useTimerStore.getState();
+      expect(state.cycleMode).toBe(true);
+      expect(state.isInfinite).toBe(false);
+      expect(state.minutes).toBe(String(state.cycleConfig.focusMinutes));
+
+      // Infinity is rejected while cycling
+      act(() => {
+        useTimerStore.getState().handleMinutesChange(INFINITY_SYMBOL);
+      });
+      expect(useTimerStore.getState().isInfinite).toBe(false);
+    });
+
+    it('should plan a short break and start its countdown after a focus block', () => {
+      act(() => {
+        useTimerStore.getState().setCycleMode(true);
+        useTimerStore.getState().updateCycleConfig({ shortBreakMinutes: 5 });
+        useTimerStore.getState().startSession();
+      });
+      finishFocusBlock();
+
+      const state = useTimerStore.getState();
+      expect(state.completedCycles).toBe(1);
+      expect(state.isLongBreak).toBe(false);
+      expect(state.breakEndTime).toBe(mockTimestamp + 5 * 60 * 1000);
+      expect(lastAddedBreak()).toMatchObject({
+        plannedDurationMs: 5 * 60 * 1000,
+        isLongBreak: false,
+        end: null,
+      });
+    });
+
+    it('should plan a long break every N cycles', () => {
+      act(() => {
+        useTimerStore.getState().setCycleMode(true);
+        useTimerStore.getState().updateCycleConfig({ cyclesBeforeLongBreak: 2, longBreakMinutes: 20 });
+      });
+
+      for (let i = 0; i < 2; i++) {
+        act(() => {
+          useTimerStore.getState().startSession();
+        });
+        finishFocusBlock();
+      }
+
+      const state = useTimerStore.getState();
+      expect(state.completedCycles).toBe(2);
+      expect(state.isLongBreak).toBe(true);
+      expect(lastAddedBreak()).toMatchObject({ plannedDurationMs: 20 * 60 * 1000, isLongBreak: true });
+    });
+
+    it('should show a full round during the long break and start over with the next block', () => {
+      act(() => {
+        useTimerStore.getState().setCycleMode(true);
+        useTimerStore.getState().updateCycleConfig({ cyclesBeforeLongBreak: 2 });
+      });
+
+      act(() => {
+        useTimerStore.getState().startSession();
+      });
+      finishFocusBlock();
+      expect(getCyclesInRound(useTimerStore.getState())).toBe(1);
+
+      act(() => {
+        useTimerStore.getState().startSession();
+      });
+      finishFocusBlock();
+      expect(getCyclesInRound(useTimerStore.getState())).toBe(2);
+
+      act(() => {
+        useTimerStore.getState().startSession();
+      });
+      expect(getCyclesInRound(useTimerStore.getState())).toBe(0);
+    });
+
+    it('should not count a focus block that was stopped early', () => {
+      act(() => {
+        useTimerStore.getState().setCycleMode(true);
+        useTimerStore.getState().startSession();
+        useTimerStore.getState().endSession();
+      });
+
+      expect(useTimerStore.getState().completedCycles).toBe(0);
+      expect(useTimerStore.getState().isLongBreak).toBe(false);
+    });
+
+    it('should wait for the user when auto-start breaks is off', () => {
+      act(() => {
+        useTimerStore.getState().setCycleMode(true);
+        useTimerStore.getState().updateCycleConfig({ autoStartBreaks: false });
+        useTimerStore.getState().startSession();
+      });
+      finishFocusBlock();
+
+      expect(useTimerStore.getState().isBreakPending).toBe(true);
+      expect(useTimerStore.getState().breakEndTime).toBeNull();
+
+      act(() => {
+        useTimerStore.getState().startBreak();
+      });
+
+      const state = useTimerStore.getState();
+      expect(state.isBreakPending).toBe(false);
+      expect(state.breakEndTime).toBe(mockTimestamp + state.breakDurationMs);
+    });
+
+    it('should clear the break countdown when the next focus block starts', () => {
+      act(() => {
+        useTimerStore.getState().setCycleMode(true);
+        useTimerStore.getState().startSession();
+      });
+      finishFocusBlock();
+
+      act(() => {
+        useTimerStore.getState().startSession();
+      });
+
+      const state = useTimerStore.getState();
+      expect(state.isSessionActive).toBe(true);
+      expect(state.breakEndTime).toBeNull();
+      expect(historyMock.closeOpenBreak).toHaveBeenCalled();
+    });
+  });
+
+  describe('session recovery', () => {
+    // Start a 25 min session, last seen at 10 min, then "reopen" the app at 40 min
+    const restoreAfterEnd = () => {
+      act(() => {
+        useTimerStore.getState().handleMinutesChange('25');
+        useTimerStore.getState().startSession();
+      });
+      setNow(10 * 60000);
+      act(() => {
+        useTimerStore.getState().tick();
+      });
+      setNow(40 * 60000);
+      act(() => {
+        useTimerStore.getState().checkRecovery();
+      });
+    };
+
+    it('should resume a restored session that has not reached its end', () => {
+      act(() => {
+        useTimerStore.getState().handleMinutesChange('25');
+        useTimerStore.getState().startSession();
+        useTimerStore.setState({ isRunning: false });
+      });
+      setNow(5 * 60000);
+      act(() => {
+        useTimerStore.getState().checkRecovery();
+      });
+
+      const state = useTimerStore.getState();
+      expect(state.recovery).toBeNull();
+      expect(state.isRunning).toBe(true);
+    });
+
+    it('should ask for recovery when the end passed while closed', () => {
+      restoreAfterEnd();
+
+      const state = useTimerStore.getState();
+      expect(state.isRunning).toBe(false);
+      expect(state.recovery).toEqual({
+        plannedEndAt: mockTimestamp + 25 * 60000,
+        lastSeenAt: mockTimestamp + 10 * 60000,
+      });
+    });
+
+    it('should keep the session up to its planned end', () => {
+      restoreAfterEnd();
+      act(() => {
+        useTimerStore.getState().recoverSession('keep');
+      });
+
+      const session = historyMock.addHistoryItem.mock.calls[0][0];
+      expect(session.duration).toBe(25 * 60000);
+      expect(useTimerStore.getState().recovery).toBeNull();
+      expect(useTimerStore.getState().isSessionActive).toBe(false);
+    });
+
+    it('should trim the session to the last time it was seen', () => {
+      restoreAfterEnd();
+      act(() => {
+        useTimerStore.getState().recoverSession('trim');
+      });
+
+      const session = historyMock.addHistoryItem.mock.calls[0][0];
+      expect(session.duration).toBe(10 * 60000);
+      expect(session.outcome).toBe(SESSION_OUTCOME.INTERRUPTED);
+    });
+
+    it('should discard the session without recording it', () => {
+      restoreAfterEnd();
+      act(() => {
+        useTimerStore.getState().recoverSession('discard');
+      });
+
+      const state = useTimerStore.getState();
+      expect(historyMock.addHistoryItem).not.toHaveBeenCalled();
+      expect(state.isSessionActive).toBe(false);
+      expect(state.recovery).toBeNull();
+    });
+  });
+});
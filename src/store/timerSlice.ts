@@ -1,25 +1,60 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import { appStorage } from '../lib/persistStorage';
 import { useEffect, useRef } from 'react';
-import { useHistoryStore, generateId, SessionData, BreakData } from './historySlice';
+import { useHistoryStore, generateId, SessionData, SessionOutcome, BreakData, PauseInterval, DistractionEvent } from './historySlice';
 import { useWarpStore } from './warpSlice';
+import { usePostureStore, getPostureScore } from './postureSlice';
+import { startTicker } from '../utils/timerScheduler';
+import { notifyIfHidden, requestNotificationPermission } from '../utils/notifications';
+import { emitEvent } from '../lib/eventBus';
+import { normalizeTags } from '../utils/projects';
 import { 
   DEFAULT_TIMER_MINUTES, 
   TIMER_UPDATE_INTERVAL_MS, 
   DEFAULT_GOAL, 
   INFINITY_SYMBOL, 
   SESSION_TYPE, 
+  SESSION_OUTCOME,
+  SESSION_COMPLETE_TOLERANCE_MS,
   DIFFICULTY,
   STORAGE_KEYS,
-  MAX_DISTRACTIONS_FOR_STREAK
+  MAX_DISTRACTIONS_FOR_STREAK,
+  POMODORO_DEFAULTS,
+  DEFAULT_FLOWTIME_MILESTONE_MINUTES,
+  SESSION_RECOVERY_GAP_MS
 } from '../constants';
 
-// TypeScript type for the timer ID
-type TimerId = ReturnType<typeof setInterval> | null;
-
 // Define our session difficulty types
 type Difficulty = typeof DIFFICULTY[keyof typeof DIFFICULTY];
 
+// Pomodoro cycle configuration (persisted)
+export interface CycleConfig {
+  focusMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  cyclesBeforeLongBreak: number;
+  autoStartBreaks: boolean;
+  autoStartFocus: boolean;
+}
+
+export const defaultCycleConfig: CycleConfig = {
+  focusMinutes: POMODORO_DEFAULTS.FOCUS_MINUTES,
+  shortBreakMinutes: POMODORO_DEFAULTS.SHORT_BREAK_MINUTES,
+  longBreakMinutes: POMODORO_DEFAULTS.LONG_BREAK_MINUTES,
+  cyclesBeforeLongBreak: POMODORO_DEFAULTS.CYCLES_BEFORE_LONG_BREAK,
+  autoStartBreaks: POMODORO_DEFAULTS.AUTO_START_BREAKS,
+  autoStartFocus: POMODORO_DEFAULTS.AUTO_START_FOCUS,
+};
+
+// A restored session that needs a decision before it is recorded
+export interface SessionRecovery {
+  plannedEndAt: number | null; // Planned end of a finite session, null for infinite
+  lastSeenAt: number; // Last tick before the app was closed
+}
+
+export type RecoveryChoice = 'keep' | 'trim' | 'discard';
+
 // Define the initial state for reuse in reset function and tests
 export const initialTimerState = {
   minutes: DEFAULT_TIMER_MINUTES,
@@ -28,12 +63,45 @@ export const initialTimerState = {
   isPaused: false,
   currentGoal: '',
   currentDifficulty: DIFFICULTY.MEDIUM,
+  currentProject: '', // Kept between sessions, like the difficulty
+  currentTags: [] as string[],
+  currentGoalId: null as string | null, // Goal sessions are linked to, kept between sessions
   sessionStartTime: 0,
   sessionEndTime: null as number | null,
   remainingTime: 0,
   distractionCount: 0,
+  distractionLog: [] as DistractionEvent[],
   sessionDurationMs: 0,
   isRunning: false,
+  pauseLog: [] as PauseInterval[],
+  pauseStartedAt: null as number | null,
+  elapsedTime: 0,
+  lastSessionCompletedAt: 0,
+  // Overtime (finite sessions)
+  overtimeEnabled: false,
+  isOvertime: false,
+  overtimeMs: 0,
+  extensions: [] as number[],
+  // Flowtime milestones (infinite sessions)
+  milestoneMinutes: DEFAULT_FLOWTIME_MILESTONE_MINUTES,
+  milestonesReached: 0,
+  // Session recovery after reload or crash
+  lastTickAt: 0,
+  recovery: null as SessionRecovery | null,
+  // Day planner block the current session was started from
+  plannedBlockId: null as string | null,
+  // Only the leader tab runs the interval (see tabSync.ts)
+  isTabLeader: true,
+  // Pomodoro cycle mode
+  cycleMode: false,
+  cycleConfig: defaultCycleConfig,
+  completedCycles: 0,
+  isBreakPending: false,
+  isLongBreak: false,
+  breakEndTime: null as number | null,
+  breakDurationMs: 0,
+  breakRemainingTime: 0,
+  lastBreakCompletedAt: 0,
 };
 
 // Import SFX functions if available (commented for now, would need to be imported)
@@ -49,21 +117,63 @@ export interface TimerState {
   isPaused: boolean;
   currentGoal: string;
   currentDifficulty: Difficulty;
+  currentProject: string;
+  currentTags: string[];
+  currentGoalId: string | null;
   sessionStartTime: number;
   sessionEndTime: number | null; // New field for accurate background timing
   remainingTime: number;
   distractionCount: number;
+  distractionLog: DistractionEvent[]; // Distractions of the current session, oldest first
   sessionDurationMs: number;
+  pauseLog: PauseInterval[]; // Closed pauses of the current session
+  pauseStartedAt: number | null; // Start of the ongoing pause, if any
+  elapsedTime: number; // Wall-clock focused time so far, pauses excluded
+  
+  // Overtime: keep counting past zero instead of ending the session
+  overtimeEnabled: boolean;
+  isOvertime: boolean;
+  overtimeMs: number;
+  extensions: number[]; // "+N min" extensions of the current session, in ms
+  lastSessionCompletedAt: number; // Timestamp of the last session that ran to its planned end
+  
+  // Flowtime milestones: soft chimes during infinite sessions
+  milestoneMinutes: number; // 0 disables milestones
+  milestonesReached: number;
+  
+  // Session recovery
+  lastTickAt: number; // Heartbeat of the running session, persisted
+  recovery: SessionRecovery | null;
+  
+  // Day planner
+  plannedBlockId: string | null;
+  
+  // Cross-tab coordination
+  isTabLeader: boolean; // Followers mirror the leader instead of ticking
   
   // Internal timer state
   isRunning: boolean;
   
+  // Pomodoro cycle state
+  cycleMode: boolean;
+  cycleConfig: CycleConfig;
+  completedCycles: number;
+  isBreakPending: boolean; // Break planned but its countdown not started yet
+  isLongBreak: boolean;
+  breakEndTime: number | null; // Set while a cycle break is counting down
+  breakDurationMs: number;
+  breakRemainingTime: number;
+  lastBreakCompletedAt: number; // Timestamp of the last break that ran to its planned end
+  
   // Simple actions (state setters)
   setMinutes: (minutes: string) => void;
   setIsInfinite: (isInfinite: boolean) => void;
   setIsSessionActive: (isActive: boolean) => void;
   setIsPaused: (isPaused: boolean) => void;
   setCurrentGoal: (goal: string) => void;
+  setCurrentProject: (project: string) => void;
+  setCurrentTags: (tags: string[]) => void;
+  setCurrentGoalId: (goalId: string | null) => void;
   setCurrentDifficulty: (difficulty: Difficulty) => void;
   setSessionStartTime: (time: number) => void;
   setSessionEndTime: (time: number | null) => void; // New setter
@@ -71,6 +181,9 @@ export interface TimerState {
   setDistractionCount: (count: number) => void;
   incrementDistractionCount: () => void;
   setSessionDurationMs: (duration: number) => void;
+  setMilestoneMinutes: (minutes: number) => void;
+  setOvertimeEnabled: (enabled: boolean) => void;
+  setPlannedBlockId: (id: string | null) => void;
   resetSession: () => void;
   
   // Complex actions (business logic)
@@ -81,24 +194,73 @@ export interface TimerState {
   pauseTimer: () => void;
   resumeTimer: () => void;
   stopTimer: () => void;
-  addDistraction: () => void;
-  endSession: () => void;
+  addDistraction: (category?: DistractionEvent['category'], note?: string) => void;
+  annotateLastDistraction: (updates: Pick<DistractionEvent, 'category' | 'note'>) => void;
+  extendSession: (minutes: number) => void;
+  endSession: (endedAt?: number, outcome?: SessionOutcome, outcomeReason?: string) => void;
+  abandonSession: (reason?: string) => void; // End without it counting towards streaks or goals
   tick: () => void; // New function to update timer based on real time
   
+  // Session recovery actions
+  checkRecovery: () => void;
+  recoverSession: (choice: RecoveryChoice) => void;
+  
+  // Pomodoro cycle actions
+  setCycleMode: (enabled: boolean) => void;
+  updateCycleConfig: (updates: Partial<CycleConfig>) => void;
+  startBreak: () => void;
+  resetCycles: () => void;
+  
   // Reset function for testing
   reset: () => void;
 }
 
+// Total paused time of a session, including a pause that is still ongoing
+export const getTotalPausedMs = (
+  pauseLog: PauseInterval[],
+  pauseStartedAt: number | null,
+  now: number = Date.now()
+) => {
+  const closed = pauseLog.reduce((total, pause) => total + (pause.end - pause.start), 0);
+  return closed + (pauseStartedAt !== null ? Math.max(0, now - pauseStartedAt) : 0);
+};
+
+// Posture is measured up to `now`, or up to the pause when the session is paused
+const getPostureTrackedUntil = (
+  state: Pick<TimerState, 'isPaused' | 'pauseStartedAt'>,
+  now: number = Date.now()
+) => state.isPaused && state.pauseStartedAt !== null ? Math.min(now, state.pauseStartedAt) : now;
+
+// Focused time of the current session from the wall clock, pauses excluded
+export const getElapsedMs = (
+  state: Pick<TimerState, 'sessionStartTime' | 'pauseLog' | 'pauseStartedAt'>,
+  now: number = Date.now()
+) => {
+  if (!state.sessionStartTime) return 0;
+  return Math.max(0, now - state.sessionStartTime - getTotalPausedMs(state.pauseLog, state.pauseStartedAt, now));
+};
+
+// Focus blocks done in the current round of cycles. The round that earned a
+// long break stays full (N of N) until the next focus block starts.
+export const getCyclesInRound = (
+  state: Pick<TimerState, 'completedCycles' | 'isLongBreak' | 'isSessionActive' | 'cycleConfig'>
+) => {
+  const { cyclesBeforeLongBreak } = state.cycleConfig;
+  if (state.isLongBreak && !state.isSessionActive && state.completedCycles > 0) return cyclesBeforeLongBreak;
+  return state.completedCycles % cyclesBeforeLongBreak;
+};
+
 // This function will be exported to allow components to use the timer
 export const useTimerHook = () => {
   const timerStore = useTimerStore();
-  const intervalRef = useRef<TimerId>(null);
+  const stopTickerRef = useRef<(() => void) | null>(null);
   const timerEndedRef = useRef<boolean>(false);
   
   // Handle visibility change to update timer when tab becomes active
   useEffect(() => {
     const handleVisibilityChange = () => {
-      if (!document.hidden && timerStore.isSessionActive && !timerStore.isPaused) {
+      const isCounting = (timerStore.isSessionActive && !timerStore.isPaused) || timerStore.breakEndTime !== null;
+      if (!document.hidden && isCounting && timerStore.isTabLeader) {
         // When tab becomes visible again, trigger an immediate tick
         console.log('[TimerHook] Tab became visible, triggering immediate tick');
         timerStore.tick();
@@ -111,16 +273,21 @@ export const useTimerHook = () => {
     };
   }, [timerStore]);
   
+  // Cycle breaks count down even though no session is running
+  const isBreakCountdown = timerStore.breakEndTime !== null;
+  
   // Handle timer tick effect - this replaces the old useTimer hook logic
   useEffect(() => {
-    // Clear any existing interval
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-      intervalRef.current = null;
-    }
+    const stopTicker = () => {
+      stopTickerRef.current?.();
+      stopTickerRef.current = null;
+    };
+    
+    // Clear any existing ticker
+    stopTicker();
     
-    // If timer should be running, start the interval
-    if (timerStore.isRunning && !timerStore.isPaused) {
+    // If timer should be running, start the interval (followers only mirror the leader)
+    if (timerStore.isTabLeader && ((timerStore.isRunning && !timerStore.isPaused) || isBreakCountdown)) {
       console.log('[TimerHook] Starting timer interval');
       timerEndedRef.current = false;
       
@@ -131,28 +298,21 @@ export const useTimerHook = () => {
         console.error('[TimerHook] Error in initial tick:', error);
       }
       
-      intervalRef.current = setInterval(() => {
+      // Ticks come from a worker so a hidden tab still ends on time
+      stopTickerRef.current = startTicker(() => {
         try {
           timerStore.tick();
         } catch (error) {
           console.error('[TimerHook] Error in timer tick:', error);
-          // On error, clear the interval to prevent repeated errors
-          if (intervalRef.current) {
-            clearInterval(intervalRef.current);
-            intervalRef.current = null;
-          }
+          // On error, stop ticking to prevent repeated errors
+          stopTicker();
         }
       }, TIMER_UPDATE_INTERVAL_MS);
     }
     
     // Cleanup on unmount or state change
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
-      }
-    };
-  }, [timerStore.isRunning, timerStore.isPaused]);
+    return stopTicker;
+  }, [timerStore.isRunning, timerStore.isPaused, isBreakCountdown, timerStore.isTabLeader]);
   
   return timerStore;
 };
@@ -170,6 +330,9 @@ export const useTimerStore = create<TimerState>()(
       setIsPaused: (isPaused) => set({ isPaused }),
       setCurrentGoal: (goal) => set({ currentGoal: goal }),
       setCurrentDifficulty: (difficulty) => set({ currentDifficulty: difficulty }),
+      setCurrentProject: (project) => set({ currentProject: project }),
+      setCurrentTags: (tags) => set({ currentTags: normalizeTags(tags) }),
+      setCurrentGoalId: (goalId) => set({ currentGoalId: goalId }),
       setSessionStartTime: (time) => set({ sessionStartTime: time }),
       setSessionEndTime: (time) => set({ sessionEndTime: time }),
       setRemainingTime: (time) => {
@@ -182,32 +345,74 @@ export const useTimerStore = create<TimerState>()(
       setDistractionCount: (count) => set({ distractionCount: count }),
       incrementDistractionCount: () => set((state) => ({ distractionCount: state.distractionCount + 1 })),
       setSessionDurationMs: (duration) => set({ sessionDurationMs: duration }),
-      resetSession: () => set({
-        isSessionActive: false,
-        isPaused: false,
-        isRunning: false,
-        currentGoal: '',
-        sessionStartTime: 0,
-        sessionEndTime: null,
-        remainingTime: 0,
-        distractionCount: 0,
-        sessionDurationMs: 0
-      }),
+      setMilestoneMinutes: (minutes) => set({ milestoneMinutes: Math.max(0, Math.floor(minutes || 0)) }),
+      setOvertimeEnabled: (enabled) => set({ overtimeEnabled: enabled }),
+      setPlannedBlockId: (id) => set({ plannedBlockId: id }),
+      resetSession: () => {
+        usePostureStore.getState().finishSessionTracking(getPostureTrackedUntil(get()));
+        set({
+          isSessionActive: false,
+          isPaused: false,
+          isRunning: false,
+          currentGoal: '',
+          sessionStartTime: 0,
+          sessionEndTime: null,
+          remainingTime: 0,
+          distractionCount: 0,
+          distractionLog: [],
+          sessionDurationMs: 0,
+          pauseLog: [],
+          pauseStartedAt: null,
+          elapsedTime: 0,
+          milestonesReached: 0,
+          isOvertime: false,
+          overtimeMs: 0,
+          extensions: [],
+          plannedBlockId: null
+        });
+      },
       
       // New tick function for accurate timing
       tick: () => {
         const state = get();
         
+        // Count down a running cycle break
+        if (!state.isSessionActive && state.breakEndTime !== null) {
+          const now = Date.now();
+          const breakRemainingTime = Math.max(0, state.breakEndTime - now);
+          if (breakRemainingTime > 0) {
+            set({ breakRemainingTime });
+            return;
+          }
+          
+          // The break entry stays open until the next focus block starts,
+          // so a late start is recorded as an overrun
+          console.log('[TimerStore] Cycle break finished');
+          set({ breakEndTime: null, breakRemainingTime: 0, lastBreakCompletedAt: now });
+          notifyIfHidden(
+            state.isLongBreak ? 'Long break over' : 'Break over',
+            state.cycleConfig.autoStartFocus ? 'Next focus block started.' : 'Ready for the next focus block?'
+          );
+          if (state.cycleConfig.autoStartFocus) {
+            setTimeout(() => get().startSession(), 0);
+          }
+          return;
+        }
+        
         // Skip if not in active session or paused
         if (!state.isSessionActive || state.isPaused) return;
         
-        // Handle infinite sessions differently
+        usePostureStore.getState().samplePosture();
+        
+        // Infinite sessions count up from the wall clock, so throttled
+        // intervals cannot drift the elapsed time
         if (state.isInfinite) {
-          // For infinite sessions, just decrement by interval time
-          // This keeps the timer running without an end condition
-          const newTime = state.remainingTime - TIMER_UPDATE_INTERVAL_MS;
-          console.log(`[TimerStore] Infinite tick: remainingTime=${newTime}`);
-          set({ remainingTime: newTime });
+          const now = Date.now();
+          const elapsedTime = getElapsedMs(state, now);
+          const milestoneMs = state.milestoneMinutes * 60 * 1000;
+          const milestonesReached = milestoneMs > 0 ? Math.floor(elapsedTime / milestoneMs) : 0;
+          console.log(`[TimerStore] Infinite tick: elapsedTime=${elapsedTime}`);
+          set({ elapsedTime, milestonesReached, lastTickAt: now });
           return;
         }
         
@@ -226,13 +431,33 @@ export const useTimerStore = create<TimerState>()(
         
         console.log(`[TimerStore] Finite tick: remainingTime=${newRemainingTime}, endTime=${sessionEndTime}, now=${now}`);
         
+        // Past the end time with overtime on, count up instead of stopping.
+        // An extension can move the end time ahead again and leave overtime.
+        const isOvertime = state.overtimeEnabled && newRemainingTime <= 0;
+        const overtimeMs = isOvertime ? now - sessionEndTime : 0;
+        
         // Update remaining time
-        set({ remainingTime: newRemainingTime });
+        set({
+          remainingTime: newRemainingTime,
+          elapsedTime: state.sessionDurationMs - newRemainingTime + overtimeMs,
+          isOvertime,
+          overtimeMs,
+          lastTickAt: now
+        });
+        
+        if (isOvertime && !state.isOvertime) {
+          console.log(`[TimerStore] Planned time reached, counting overtime`);
+          notifyIfHidden('Planned time reached', `${state.currentGoal} — counting overtime until you end the session.`);
+        }
         
         // Check if timer is finished
-        if (newRemainingTime <= 0) {
+        if (newRemainingTime <= 0 && !isOvertime) {
           // End the session
           console.log(`[TimerStore] Session finished`);
+          set({ lastSessionCompletedAt: now });
+          notifyIfHidden('Session complete', `${state.currentGoal} — time for a break.`, () => {
+            useHistoryStore.getState().setShowSummary(true);
+          });
           setTimeout(() => get().endSession(), 0);
         }
       },
@@ -243,11 +468,17 @@ export const useTimerStore = create<TimerState>()(
         if (state.isSessionActive) return;
         
         if (value === INFINITY_SYMBOL) {
+          // Cycle mode needs a finite focus block
+          if (state.cycleMode) return;
           set({ isInfinite: true, minutes: '' });
         } else {
           const num = parseInt(value);
           if (value === '' || (!isNaN(num) && num >= 0)) {
             set({ isInfinite: false, minutes: value });
+            // Keep the cycle focus length in sync with the minutes input
+            if (state.cycleMode && num > 0) {
+              set({ cycleConfig: { ...state.cycleConfig, focusMinutes: num } });
+            }
           }
         }
       },
@@ -270,6 +501,9 @@ export const useTimerStore = create<TimerState>()(
           return;
         }
         
+        // Sessions are started by a click, which lets browsers show the prompt
+        requestNotificationPermission();
+        
         // Calculate duration in milliseconds
         const durationMs = state.isInfinite ? Number.MAX_SAFE_INTEGER : durationMinutes * 60 * 1000;
         const finalGoal = state.currentGoal.trim() || DEFAULT_GOAL;
@@ -297,24 +531,40 @@ export const useTimerStore = create<TimerState>()(
           currentGoal: finalGoal,
           sessionStartTime: now,
           sessionEndTime: endTime,
+          lastTickAt: now,
+          recovery: null,
           remainingTime: durationMs,
           distractionCount: 0,
+          distractionLog: [],
+          pauseLog: [],
+          pauseStartedAt: null,
+          elapsedTime: 0,
+          milestonesReached: 0,
+          isOvertime: false,
+          overtimeMs: 0,
+          extensions: [],
           isPaused: false,
           isSessionActive: true,
-          isRunning: true
+          isRunning: true,
+          // Starting focus ends any pending or running cycle break
+          isBreakPending: false,
+          breakEndTime: null,
+          breakRemainingTime: 0
         });
 
-        // Dispatch capture+collapse events for inline cards
-        try {
-          if (typeof window !== 'undefined') {
-            // snapshot current expanded state BEFORE collapsing
-            window.dispatchEvent(new Event('inline-collapse:capture'));
-            // existing minimize-all
-            window.dispatchEvent(new Event('inline-collapse:all'));
-          }
-        } catch (e) {
-          console.warn('[TimerStore] Failed to dispatch inline-collapse events', e);
-        }
+        // Measure posture over this session (counts only while the camera is on)
+        usePostureStore.getState().startSessionTracking(now);
+
+        emitEvent('session:started', {
+          goal: finalGoal,
+          difficulty: state.currentDifficulty,
+          durationMs: endTime !== null ? durationMs : null,
+          startedAt: now,
+        });
+
+        // Snapshot current expanded state BEFORE collapsing inline cards
+        emitEvent('inline-collapse:capture');
+        emitEvent('inline-collapse:all');
       },
       
       pauseTimer: () => {
@@ -323,7 +573,10 @@ export const useTimerStore = create<TimerState>()(
           // Play sound - moved to component for now
           // if (SFX && SFX.pause) playSfx(SFX.pause);
           
-          set({ isPaused: true });
+          const now = Date.now();
+          usePostureStore.getState().samplePosture(now);
+          set({ isPaused: true, pauseStartedAt: now });
+          emitEvent('session:paused', { at: now });
         }
       },
       
@@ -333,14 +586,33 @@ export const useTimerStore = create<TimerState>()(
           // Play sound - moved to component for now
           // if (SFX && SFX.start) playSfx(SFX.start);
           
-          // Calculate new end time based on current time plus remaining time
-          const newEndTime = Date.now() + state.remainingTime;
+          // Push the end time back by the length of the pause; this also
+          // keeps overtime counting from where it stopped
+          // (infinite sessions have no end time)
+          const now = Date.now();
+          const newEndTime = state.isInfinite
+            ? null
+            : state.sessionEndTime !== null && state.pauseStartedAt !== null
+              ? state.sessionEndTime + (now - state.pauseStartedAt)
+              : now + state.remainingTime;
+          
+          // Close the ongoing pause in the log
+          const pauseLog = state.pauseStartedAt !== null
+            ? [...state.pauseLog, { start: state.pauseStartedAt, end: now }]
+            : state.pauseLog;
           
+          usePostureStore.getState().resumeSessionTracking(now);
           set({ 
             isPaused: false,
+            pauseLog,
+            pauseStartedAt: null,
             sessionEndTime: newEndTime,
             isRunning: true // Ensure timer is running when resuming
           });
+          emitEvent('session:resumed', {
+            at: now,
+            pausedMs: state.pauseStartedAt !== null ? now - state.pauseStartedAt : 0,
+          });
         }
       },
       
@@ -351,14 +623,68 @@ export const useTimerStore = create<TimerState>()(
         });
       },
       
-      addDistraction: () => {
+      addDistraction: (category, note) => {
         const state = get();
         if (state.isSessionActive && !state.isPaused) {
-          set(state => ({ distractionCount: state.distractionCount + 1 }));
+          const event: DistractionEvent = {
+            at: Date.now(),
+            ...(category && { category }),
+            ...(note?.trim() && { note: note.trim() }),
+          };
+          set(state => ({
+            distractionCount: state.distractionCount + 1,
+            distractionLog: [...state.distractionLog, event],
+          }));
+          emitEvent('session:distraction', { count: get().distractionCount, at: event.at });
         }
       },
       
-      endSession: () => {
+      // Categorize or annotate the most recent distraction (number keys after `d`)
+      annotateLastDistraction: (updates) => {
+        const { distractionLog, isSessionActive } = get();
+        if (!isSessionActive || distractionLog.length === 0) return;
+        const last = distractionLog[distractionLog.length - 1];
+        const note = updates.note?.trim();
+        set({
+          distractionLog: [
+            ...distractionLog.slice(0, -1),
+            {
+              ...last,
+              ...(updates.category && { category: updates.category }),
+              ...(note && { note }),
+            },
+          ],
+        });
+      },
+      
+      extendSession: (minutes) => {
+        const state = get();
+        if (!state.isSessionActive || state.isInfinite || state.sessionEndTime === null) return;
+        
+        const extensionMs = Math.max(0, Math.floor(minutes)) * 60 * 1000;
+        if (extensionMs <= 0) return;
+        
+        // Extensions count against overtime already run, so +5 after three
+        // minutes of overtime leaves two minutes on the clock
+        const now = Date.now();
+        const sessionEndTime = state.sessionEndTime + extensionMs;
+        const effectiveNow = state.isPaused && state.pauseStartedAt !== null ? state.pauseStartedAt : now;
+        const remainingTime = Math.max(0, sessionEndTime - effectiveNow);
+        const isOvertime = state.overtimeEnabled && remainingTime <= 0;
+        
+        console.log(`[TimerStore] Extending session by ${minutes}min`);
+        
+        set({
+          sessionDurationMs: state.sessionDurationMs + extensionMs,
+          sessionEndTime,
+          remainingTime,
+          isOvertime,
+          overtimeMs: isOvertime ? effectiveNow - sessionEndTime : 0,
+          extensions: [...state.extensions, extensionMs],
+        });
+      },
+      
+      endSession: (endedAtOverride, outcomeOverride, outcomeReason) => {
         const state = get();
         if (!state.isSessionActive) return;
         
@@ -371,32 +697,49 @@ export const useTimerStore = create<TimerState>()(
         set({
           isSessionActive: false,
           isPaused: false,
+          pauseStartedAt: null,
           isRunning: false,
           remainingTime: 0,
           sessionEndTime: null,
+          isOvertime: false,
+          recovery: null,
+          plannedBlockId: null,
         });
         
         // Trigger smooth deceleration in warp store
         const warpStore = useWarpStore.getState();
         warpStore.endSessionWarp();
         
-        // Calculate actual session duration based on elapsed time
-        const actualSessionStartTime = state.sessionStartTime || Date.now() - state.sessionDurationMs;
-        const actualSessionDuration = state.sessionEndTime ? state.sessionDurationMs - state.remainingTime : Date.now() - actualSessionStartTime;
+        // Close a pause that is still ongoing when the session ends
+        // (recovery may end a session at an earlier point in time)
+        const endedAt = endedAtOverride ?? Date.now();
+        const pauseLog = state.pauseStartedAt !== null
+          ? [...state.pauseLog, { start: state.pauseStartedAt, end: endedAt }]
+          : state.pauseLog;
+        const pausedMs = getTotalPausedMs(pauseLog, null);
+        
+        // Calculate actual session duration based on elapsed time, pauses excluded
+        const actualSessionStartTime = state.sessionStartTime || endedAt - state.sessionDurationMs;
+        const wallElapsedMs = getElapsedMs({ sessionStartTime: actualSessionStartTime, pauseLog, pauseStartedAt: null }, endedAt);
+        const overtimeMs = state.isOvertime ? Math.max(0, wallElapsedMs - state.sessionDurationMs) : 0;
+        const actualSessionDuration = state.sessionEndTime
+          ? state.sessionDurationMs - state.remainingTime + overtimeMs
+          : wallElapsedMs;
+        const totalExtensionMs = state.extensions.reduce((total, ms) => total + ms, 0);
+        
+        // Finite sessions stopped short of their length (extensions included) ended early
+        const outcome = outcomeOverride ?? (
+          state.sessionEndTime !== null && actualSessionDuration + SESSION_COMPLETE_TOLERANCE_MS < state.sessionDurationMs
+            ? SESSION_OUTCOME.ENDED_EARLY
+            : SESSION_OUTCOME.COMPLETED
+        );
+        const isAbandoned = outcome === SESSION_OUTCOME.ABANDONED;
+        const reason = outcomeReason?.trim();
+        
+        // Share of tracked time in good posture; no score when tracking was off
+        const postureStats = usePostureStore.getState().finishSessionTracking(getPostureTrackedUntil(state, endedAt));
+        const posture = postureStats ? getPostureScore(postureStats) : undefined;
         
-        // Emit custom event for Mission Goal accumulation
-        try {
-          if (typeof window !== 'undefined') {
-            window.dispatchEvent(
-              new CustomEvent('goal:session-progress', {
-                detail: { durationMs: actualSessionDuration },
-              })
-            );
-          }
-        } catch (e) {
-          console.warn('[TimerStore] Failed to dispatch goal:session-progress event', e);
-        }
-
         // Create session data for history with actual duration
         const sessionData: SessionData = {
           type: SESSION_TYPE.FOCUS,
@@ -405,23 +748,63 @@ export const useTimerStore = create<TimerState>()(
           duration: actualSessionDuration, // Use actual duration instead of planned duration
           goal: state.currentGoal,
           distractions: state.distractionCount,
-          posture: Math.round(Math.random() * 30 + 70), // Mock posture data for now
+          ...(posture !== undefined && postureStats && { posture, postureStats }),
           difficulty: state.currentDifficulty,
-          distractionLog: ''
+          ...(state.currentProject.trim() && { project: state.currentProject.trim() }),
+          ...(state.currentTags.length > 0 && { tags: state.currentTags }),
+          ...(state.currentGoalId !== null && { goalId: state.currentGoalId }),
+          ...(state.distractionLog.length > 0 && { distractionLog: state.distractionLog }),
+          pauseLog,
+          pausedMs,
+          ...(state.sessionEndTime !== null && {
+            plannedDurationMs: state.sessionDurationMs - totalExtensionMs,
+            extensions: state.extensions,
+            overtimeMs
+          }),
+          ...(state.plannedBlockId !== null && { plannedBlockId: state.plannedBlockId }),
+          endedAt,
+          outcome,
+          ...(reason && { outcomeReason: reason })
         };
         
         // Create break data that starts now
+        const breakStart = endedAt;
         const breakData: BreakData = {
           type: SESSION_TYPE.BREAK,
           id: generateId(),
-          start: Date.now(),
+          start: breakStart,
           end: null,
           durationMs: 0, // Will be calculated when break ends
           note: ""
         };
         
-        // Update streak - reset if distractions >= MAX_DISTRACTIONS_FOR_STREAK, else increment
-        if (state.distractionCount < MAX_DISTRACTIONS_FOR_STREAK) {
+        // In cycle mode, plan a short or long break. Only focus blocks that
+        // ran to their planned end count towards the cycle.
+        if (state.cycleMode) {
+          const { cycleConfig } = state;
+          const ranToEnd = state.sessionEndTime !== null && state.remainingTime <= 0;
+          const completedCycles = state.completedCycles + (ranToEnd ? 1 : 0);
+          const isLongBreak = ranToEnd && completedCycles % cycleConfig.cyclesBeforeLongBreak === 0;
+          const breakMinutes = isLongBreak ? cycleConfig.longBreakMinutes : cycleConfig.shortBreakMinutes;
+          const breakDurationMs = breakMinutes * 60 * 1000;
+          
+          breakData.plannedDurationMs = breakDurationMs;
+          breakData.isLongBreak = isLongBreak;
+          
+          console.log(`[TimerStore] Planned ${isLongBreak ? 'long' : 'short'} break of ${breakMinutes}min (cycle ${completedCycles})`);
+          
+          set({
+            completedCycles,
+            isLongBreak,
+            breakDurationMs,
+            breakRemainingTime: breakDurationMs,
+            breakEndTime: cycleConfig.autoStartBreaks ? breakStart + breakDurationMs : null,
+            isBreakPending: !cycleConfig.autoStartBreaks,
+          });
+        }
+        
+        // Update streak - reset if abandoned or distractions >= MAX_DISTRACTIONS_FOR_STREAK, else increment
+        if (!isAbandoned && state.distractionCount < MAX_DISTRACTIONS_FOR_STREAK) {
           historyStore.incrementStreakSessions();
         } else {
           historyStore.resetStreakSessions();
@@ -439,26 +822,171 @@ export const useTimerStore = create<TimerState>()(
         historyStore.setLastSession(sessionData);
         historyStore.setShowSummary(true);
 
+        emitEvent('session:ended', { session: sessionData });
+
         // Restore panels to their pre-session expanded state
-        try {
-          if (typeof window !== 'undefined') {
-            window.dispatchEvent(new Event('inline-collapse:restore'));
-          }
-        } catch (e) {
-          console.warn('[TimerStore] Failed to dispatch inline-collapse:restore event', e);
+        emitEvent('inline-collapse:restore');
+      },
+      
+      abandonSession: (reason) => {
+        if (!get().isSessionActive) return;
+        get().endSession(undefined, SESSION_OUTCOME.ABANDONED, reason);
+      },
+      
+      checkRecovery: () => {
+        const state = get();
+        if (!state.isSessionActive || state.isPaused) return;
+        
+        const now = Date.now();
+        const lastSeenAt = state.lastTickAt || state.sessionStartTime;
+        
+        // A finite session whose end passed while the app was closed, or an
+        // infinite one that went quiet for a while, needs the user's call
+        const endPassed = state.sessionEndTime !== null && state.sessionEndTime <= now;
+        const longSilence = state.isInfinite && now - lastSeenAt > SESSION_RECOVERY_GAP_MS;
+        
+        if (endPassed || longSilence) {
+          console.log(`[TimerStore] Restored session needs recovery. Last seen: ${new Date(lastSeenAt).toLocaleTimeString()}`);
+          set({
+            isRunning: false,
+            recovery: { plannedEndAt: state.sessionEndTime, lastSeenAt },
+          });
+        } else {
+          console.log('[TimerStore] Resuming restored session');
+          set({ isRunning: true });
+        }
+      },
+      
+      recoverSession: (choice) => {
+        const state = get();
+        const { recovery } = state;
+        if (!recovery || !state.isSessionActive) return;
+        
+        if (choice === 'discard') {
+          console.log('[TimerStore] Discarding restored session');
+          set({ recovery: null });
+          get().resetSession();
+          return;
+        }
+        
+        // Keep counts up to the planned end (or now for infinite sessions);
+        // trim stops at the last moment the app was seen running
+        const now = Date.now();
+        const keepUntil = recovery.plannedEndAt ?? now;
+        const endedAt = choice === 'keep' ? keepUntil : Math.min(recovery.lastSeenAt, keepUntil);
+        
+        set({
+          remainingTime: recovery.plannedEndAt !== null ? Math.max(0, recovery.plannedEndAt - endedAt) : state.remainingTime,
+          isOvertime: false,
+        });
+        // The app was closed mid-session, whichever way it is kept
+        get().endSession(endedAt, SESSION_OUTCOME.INTERRUPTED);
+      },
+      
+      setCycleMode: (enabled) => {
+        const state = get();
+        if (state.isSessionActive) return;
+        
+        if (enabled) {
+          // Cycle mode runs finite focus blocks of the configured length
+          set({
+            cycleMode: true,
+            isInfinite: false,
+            minutes: String(state.cycleConfig.focusMinutes),
+          });
+        } else {
+          set({
+            cycleMode: false,
+            isBreakPending: false,
+            breakEndTime: null,
+            breakRemainingTime: 0,
+          });
         }
       },
       
+      updateCycleConfig: (updates) => {
+        const state = get();
+        const next: CycleConfig = { ...state.cycleConfig, ...updates };
+        // Lengths and the long-break interval must be whole, positive numbers
+        next.focusMinutes = Math.max(1, Math.floor(next.focusMinutes || 0));
+        next.shortBreakMinutes = Math.max(1, Math.floor(next.shortBreakMinutes || 0));
+        next.longBreakMinutes = Math.max(1, Math.floor(next.longBreakMinutes || 0));
+        next.cyclesBeforeLongBreak = Math.max(1, Math.floor(next.cyclesBeforeLongBreak || 0));
+        
+        set({ cycleConfig: next });
+        if (state.cycleMode && !state.isSessionActive) {
+          set({ minutes: String(next.focusMinutes) });
+        }
+      },
+      
+      startBreak: () => {
+        const state = get();
+        if (!state.isBreakPending || state.isSessionActive) return;
+        
+        const now = Date.now();
+        
+        // Rebase the open break so its planned length counts from now
+        const historyStore = useHistoryStore.getState();
+        const openBreak = historyStore.history.find(
+          (item): item is BreakData => item.type === SESSION_TYPE.BREAK && item.end === null
+        );
+        if (openBreak) {
+          historyStore.updateBreakItem(openBreak.id, { start: now });
+        }
+        
+        set({
+          isBreakPending: false,
+          breakEndTime: now + state.breakDurationMs,
+          breakRemainingTime: state.breakDurationMs,
+        });
+      },
+      
+      resetCycles: () => set({ completedCycles: 0 }),
+      
       // Reset function for testing
       reset: () => set(initialTimerState),
     }),
     {
-      name: STORAGE_KEYS.TIMER, // localStorage key
+      name: STORAGE_KEYS.TIMER,
+      storage: appStorage,
       partialize: (state) => ({
-        // Only persist these values in localStorage
+        // Only persist these values
         minutes: state.minutes,
         isInfinite: state.isInfinite,
+        milestoneMinutes: state.milestoneMinutes,
+        overtimeEnabled: state.overtimeEnabled,
+        cycleMode: state.cycleMode,
+        cycleConfig: state.cycleConfig,
+        completedCycles: state.completedCycles,
+        // Active session, restored on boot
+        isSessionActive: state.isSessionActive,
+        isPaused: state.isPaused,
+        currentGoal: state.currentGoal,
+        currentDifficulty: state.currentDifficulty,
+        currentProject: state.currentProject,
+        currentTags: state.currentTags,
+        currentGoalId: state.currentGoalId,
+        sessionStartTime: state.sessionStartTime,
+        sessionEndTime: state.sessionEndTime,
+        sessionDurationMs: state.sessionDurationMs,
+        remainingTime: state.remainingTime,
+        distractionCount: state.distractionCount,
+        distractionLog: state.distractionLog,
+        pauseLog: state.pauseLog,
+        pauseStartedAt: state.pauseStartedAt,
+        extensions: state.extensions,
+        lastTickAt: state.lastTickAt,
+        plannedBlockId: state.plannedBlockId,
+        // Running cycle break
+        isBreakPending: state.isBreakPending,
+        isLongBreak: state.isLongBreak,
+        breakEndTime: state.breakEndTime,
+        breakDurationMs: state.breakDurationMs,
       }),
+      // Decide whether a restored session resumes or needs a recovery prompt
+      onRehydrateStorage: () => (state) => {
+        state?.checkRecovery();
+      },
     }
   )
 ); 
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import { appStorage } from '../lib/persistStorage';
 import { WARP_MODE, WARP_ANIMATION, STORAGE_KEYS, STARFIELD_QUALITY, THRUST_SHAKE_DURATION_MS, EXPERIMENT_LIGHT_SPEED } from '../constants';
 
  
@@ -198,10 +199,11 @@ export const useWarpStore = create<WarpState & WarpActions>()(
       reset: () => set(initialWarpState), // Reset function for testing
     }),
     {
-      name: STORAGE_KEYS.WARP, // localStorage key
+      name: STORAGE_KEYS.WARP,
+      storage: appStorage,
       version: 1,
       partialize: (state) => ({
-        // Only persist these values in localStorage
+        // Only persist these values
         warpMode: state.warpMode,
         speedMultiplier: state.speedMultiplier, // Changed from warpSpeed
         showExitButton: state.showExitButton,
@@ -0,0 +1,40 @@
+import { SESSION_TYPE, DIFFICULTY } from '../constants';
+import { SessionData, BreakData } from '../store/historySlice';
+
+/**
+ * History entries for tests. Each factory fills in a plain, valid entry and
+ * takes overrides for the fields a test cares about, so a schema change only
+ * needs updating here.
+ */
+
+export const MINUTE = 60000;
+
+// Noon UTC on Monday 2024-05-06
+export const FIXTURE_TIMESTAMP = Date.UTC(2024, 4, 6, 12);
+
+// A 25-minute focus session without distractions
+export const makeSession = (fields: Partial<SessionData> = {}): SessionData => ({
+  type: SESSION_TYPE.FOCUS,
+  id: 'session',
+  timestamp: FIXTURE_TIMESTAMP,
+  duration: 25 * MINUTE,
+  goal: 'Work',
+  distractions: 0,
+  difficulty: DIFFICULTY.MEDIUM,
+  ...fields,
+});
+
+// A finished 10-minute break; durationMs follows start and end unless given
+export const makeBreak = (fields: Partial<BreakData> = {}): BreakData => {
+  const start = fields.start ?? FIXTURE_TIMESTAMP;
+  const end = fields.end !== undefined ? fields.end : start + 10 * MINUTE;
+  return {
+    type: SESSION_TYPE.BREAK,
+    id: 'break',
+    start,
+    end,
+    durationMs: end !== null ? end - start : 0,
+    note: '',
+    ...fields,
+  };
+};
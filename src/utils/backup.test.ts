@@ -0,0 +1,74 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { createBackup, parseBackup, diffBackup, restoreBackup, readBackupSections } from './backup';
+import { initStorage, resetStorage, storageAdapter, createMemoryBackend } from '../lib/persistStorage';
+import { STORAGE_KEYS, BACKUP_VERSION } from '../constants';
+
+// localStorage stand-in holding real values
+const stubLocalStorage = (entries: Record<string, string>) => {
+  const data = new Map(Object.entries(entries));
+  vi.stubGlobal('localStorage', {
+    get length() { return data.size; },
+    key: (index: number) => [...data.keys()][index] ?? null,
+    getItem: (key: string) => data.get(key) ?? null,
+    setItem: (key: string, value: string) => data.set(key, value),
+    removeItem: (key: string) => data.delete(key),
+  });
+  return data;
+};
+
+const persisted = (state: object) => JSON.stringify({ state, version: 1 });
+
+describe('backup', () => {
+  afterEach(() => {
+    resetStorage();
+    vi.unstubAllGlobals();
+  });
+
+  it('should capture stores, layout and preferences and verify the checksum', async () => {
+    stubLocalStorage({ 'card-collapse:planner': '1', darkMode: 'true', unrelated: 'x' });
+    await initStorage(createMemoryBackend({
+      [STORAGE_KEYS.HISTORY]: persisted({ history: [] }),
+      'deepwork-storage-migrated': '1',
+    }));
+
+    const bundle = createBackup(readBackupSections(), 1000);
+
+    expect(Object.keys(bundle.sections).sort()).toEqual([STORAGE_KEYS.HISTORY, 'layout', 'preferences']);
+    expect(bundle.sections.preferences).toEqual({ darkMode: 'true' });
+    expect(parseBackup(JSON.stringify(bundle, null, 2))).toEqual(bundle);
+
+    const tampered = { ...bundle, sections: { ...bundle.sections, preferences: { darkMode: 'false' } } };
+    expect(() => parseBackup(JSON.stringify(tampered))).toThrow('Checksum mismatch');
+    expect(() => parseBackup(JSON.stringify({ ...bundle, version: BACKUP_VERSION + 1 }))).toThrow('newer');
+    expect(() => parseBackup('{"format":"other"}')).toThrow('Not a Flowship backup file');
+  });
+
+  it('should summarize differences and restore only the chosen sections', async () => {
+    const local = stubLocalStorage({ 'card-collapse:planner': '0', 'card-collapse:old': '1', darkMode: 'false' });
+    await initStorage(createMemoryBackend({
+      [STORAGE_KEYS.HISTORY]: persisted({ history: [{ id: 'a' }] }),
+      [STORAGE_KEYS.PROJECTS]: persisted({ budgets: {} }),
+    }));
+    const bundle = createBackup({
+      [STORAGE_KEYS.HISTORY]: { [STORAGE_KEYS.HISTORY]: persisted({ history: [{ id: 'a' }, { id: 'b' }] }) },
+      [STORAGE_KEYS.GOAL]: { [STORAGE_KEYS.GOAL]: persisted({ goal: 'Ship' }) },
+      layout: { 'card-collapse:planner': '1' },
+      preferences: { darkMode: 'false' },
+    });
+
+    const diff = Object.fromEntries(diffBackup(bundle).map(section => [section.id, section]));
+
+    expect(diff[STORAGE_KEYS.HISTORY]).toMatchObject({ status: 'changed', details: ['history: 1 → 2 items'] });
+    expect(diff[STORAGE_KEYS.GOAL].status).toBe('added');
+    expect(diff[STORAGE_KEYS.PROJECTS].status).toBe('removed');
+    expect(diff.layout).toMatchObject({ status: 'changed', details: ['2 of 2 settings differ'] });
+    expect(diff.preferences.status).toBe('unchanged');
+
+    restoreBackup(bundle, [STORAGE_KEYS.HISTORY, STORAGE_KEYS.PROJECTS, 'layout']);
+
+    expect(storageAdapter.getItem(STORAGE_KEYS.HISTORY)).toBe(bundle.sections[STORAGE_KEYS.HISTORY][STORAGE_KEYS.HISTORY]);
+    expect(storageAdapter.getItem(STORAGE_KEYS.PROJECTS)).toBeNull();
+    expect(storageAdapter.getItem(STORAGE_KEYS.GOAL)).toBeNull();
+    expect(Object.fromEntries(local)).toEqual({ 'card-collapse:planner': '1', darkMode: 'false' });
+  });
+});
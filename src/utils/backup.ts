@@ -0,0 +1,228 @@
+import { BACKUP_FORMAT, BACKUP_VERSION, STORAGE_KEYS } from '../constants';
+import { isPersistedObject, storageAdapter } from '../lib/persistStorage';
+
+/**
+ * Whole-app backup bundle: every persisted store plus the preferences and
+ * panel layout kept in localStorage. Sections can be restored one by one.
+ * The checksum catches truncated or hand-edited files; it is not a signature.
+ */
+
+export type BackupSectionId = string; // A store key, 'layout' or 'preferences'
+
+export interface BackupBundle {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: number;
+  checksum: string;
+  sections: Record<BackupSectionId, Record<string, string>>; // Raw stored values by key
+}
+
+export type BackupSectionStatus = 'added' | 'changed' | 'unchanged' | 'removed';
+
+export interface BackupSectionDiff {
+  id: BackupSectionId;
+  label: string;
+  status: BackupSectionStatus; // From the current state to the backup
+  details: string[];
+}
+
+const STORE_LABELS: Record<string, string> = {
+  [STORAGE_KEYS.HISTORY]: 'Session history',
+  [STORAGE_KEYS.TIMER]: 'Timer',
+  [STORAGE_KEYS.APP]: 'App',
+  [STORAGE_KEYS.WARP]: 'Warp',
+  [STORAGE_KEYS.POSTURE]: 'Posture',
+  [STORAGE_KEYS.FOCUS_BOOSTER]: 'Focus booster',
+  [STORAGE_KEYS.PLANNER]: 'Day planner',
+  [STORAGE_KEYS.PRESETS]: 'Presets',
+  [STORAGE_KEYS.GOAL]: 'Goal',
+  [STORAGE_KEYS.MISSIONS]: 'Todo list',
+  [STORAGE_KEYS.SYSTEM_LOG]: 'System log',
+  [STORAGE_KEYS.STREAK]: 'Daily streak',
+  [STORAGE_KEYS.PROJECTS]: 'Projects',
+  [STORAGE_KEYS.CALENDAR]: 'Calendar',
+};
+
+// Persisted stores, by storage key
+export const BACKUP_STORE_KEYS = Object.values(STORAGE_KEYS).filter(key => key.startsWith('deepwork-'));
+
+// Preferences still kept as stand-alone localStorage keys
+const PREFERENCE_KEYS: string[] = [
+  STORAGE_KEYS.DARK_MODE,
+  STORAGE_KEYS.WARP_MODE,
+  STORAGE_KEYS.STARFIELD_QUALITY,
+  STORAGE_KEYS.LAST_DIFFICULTY,
+  STORAGE_KEYS.TOTAL_STREAK_SESSIONS,
+  STORAGE_KEYS.POSTURE_TRACKING_ACTIVE,
+  STORAGE_KEYS.POSTURE_SENSITIVITY,
+  STORAGE_KEYS.NOTEPAD,
+  STORAGE_KEYS.TODO,
+  'goal:current',
+  'starfield:idleRenderer',
+];
+
+const LAYOUT_PREFIX = 'card-collapse:';
+
+const LOCAL_SECTIONS: Record<string, { label: string; includes: (key: string) => boolean }> = {
+  layout: { label: 'Panel layout', includes: key => key.startsWith(LAYOUT_PREFIX) },
+  preferences: { label: 'Preferences', includes: key => PREFERENCE_KEYS.includes(key) },
+};
+
+export const getBackupSectionLabel = (id: BackupSectionId) => STORE_LABELS[id] ?? LOCAL_SECTIONS[id]?.label ?? id;
+
+const isStoreSection = (id: BackupSectionId) => BACKUP_STORE_KEYS.includes(id as typeof BACKUP_STORE_KEYS[number]);
+
+// 32-bit FNV-1a as hex
+const hash = (text: string) => {
+  let value = 0x811c9dc5;
+  for (let index = 0; index < text.length; index++) {
+    value ^= text.charCodeAt(index);
+    value = Math.imul(value, 0x01000193);
+  }
+  return (value >>> 0).toString(16).padStart(8, '0');
+};
+
+// Sections with sorted keys, so equal content always hashes the same
+const canonicalSections = (sections: BackupBundle['sections']) => JSON.stringify(
+  Object.keys(sections).sort().map(id => [id, Object.keys(sections[id]).sort().map(key => [key, sections[id][key]])])
+);
+
+const readLocalSection = (includes: (key: string) => boolean) => {
+  const values: Record<string, string> = {};
+  if (typeof localStorage === 'undefined') return values;
+  for (let index = 0; index < localStorage.length; index++) {
+    const key = localStorage.key(index);
+    const value = key !== null ? localStorage.getItem(key) : null;
+    if (key !== null && value !== null && includes(key)) values[key] = value;
+  }
+  return values;
+};
+
+// Current stored values, grouped like a bundle. Empty sections are left out.
+export function readBackupSections(): BackupBundle['sections'] {
+  const sections: BackupBundle['sections'] = {};
+  for (const key of BACKUP_STORE_KEYS) {
+    const value = storageAdapter.getItem(key);
+    if (typeof value === 'string') sections[key] = { [key]: value };
+  }
+  for (const [id, { includes }] of Object.entries(LOCAL_SECTIONS)) {
+    const values = readLocalSection(includes);
+    if (Object.keys(values).length > 0) sections[id] = values;
+  }
+  return sections;
+}
+
+export function createBackup(sections: BackupBundle['sections'] = readBackupSections(), now: number = Date.now()): BackupBundle {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: now,
+    checksum: hash(canonicalSections(sections)),
+    sections,
+  };
+}
+
+// Parse and verify a backup file. Throws with a readable message when it cannot be used.
+export function parseBackup(text: string): BackupBundle {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  if (!isPersistedObject(data) || data.format !== BACKUP_FORMAT) throw new Error('Not a Flowship backup file');
+  if (typeof data.version !== 'number' || data.version > BACKUP_VERSION) {
+    throw new Error(`Backup version ${data.version} is newer than this app supports (${BACKUP_VERSION})`);
+  }
+  const { sections } = data;
+  if (!isBackupSections(sections)) throw new Error('The backup has no readable sections');
+  const checksum = hash(canonicalSections(sections));
+  if (data.checksum !== checksum) {
+    throw new Error('Checksum mismatch: the backup file is damaged or was edited');
+  }
+  return {
+    format: BACKUP_FORMAT,
+    version: data.version,
+    createdAt: typeof data.createdAt === 'number' ? data.createdAt : 0,
+    checksum,
+    sections,
+  };
+}
+
+const isBackupSections = (sections: unknown): sections is BackupBundle['sections'] =>
+  isPersistedObject(sections) && Object.values(sections).every(values =>
+    isPersistedObject(values) && Object.values(values).every(value => typeof value === 'string'));
+
+const parseState = (raw: string | undefined): Record<string, unknown> | null => {
+  if (raw === undefined) return null;
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return isPersistedObject(parsed) && isPersistedObject(parsed.state) ? parsed.state : null;
+  } catch {
+    return null;
+  }
+};
+
+// Changed top-level fields of a store; lists show their length change
+const describeStoreChanges = (current: string | undefined, incoming: string | undefined) => {
+  const before = parseState(current) ?? {};
+  const after = parseState(incoming) ?? {};
+  const details: string[] = [];
+  for (const field of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    const a = before[field];
+    const b = after[field];
+    if (JSON.stringify(a) === JSON.stringify(b)) continue;
+    if (Array.isArray(a) || Array.isArray(b)) {
+      details.push(`${field}: ${Array.isArray(a) ? a.length : 0} → ${Array.isArray(b) ? b.length : 0} items`);
+    } else {
+      details.push(`${field} differs`);
+    }
+  }
+  return details;
+};
+
+const describeLocalChanges = (current: Record<string, string>, incoming: Record<string, string>) => {
+  const keys = new Set([...Object.keys(current), ...Object.keys(incoming)]);
+  const changed = [...keys].filter(key => current[key] !== incoming[key]);
+  return changed.length > 0 ? [`${changed.length} of ${keys.size} settings differ`] : [];
+};
+
+/**
+ * What restoring each section would change. Sections that exist now but not
+ * in the backup are "removed": a full restore resets them to defaults.
+ */
+export function diffBackup(bundle: BackupBundle, current: BackupBundle['sections'] = readBackupSections()): BackupSectionDiff[] {
+  const ids = [...new Set([...Object.keys(bundle.sections), ...Object.keys(current)])];
+  return ids.map((id): BackupSectionDiff => {
+    const incoming = bundle.sections[id];
+    const existing = current[id];
+    const label = getBackupSectionLabel(id);
+    if (!incoming) return { id, label, status: 'removed', details: [] };
+    if (!existing) return { id, label, status: 'added', details: [] };
+    const details = isStoreSection(id)
+      ? describeStoreChanges(existing[id], incoming[id])
+      : describeLocalChanges(existing, incoming);
+    const status = canonicalSections({ id: existing }) === canonicalSections({ id: incoming }) ? 'unchanged' : 'changed';
+    return { id, label, status, details: status === 'changed' && details.length === 0 ? ['Content differs'] : details };
+  }).sort((a, b) => a.label.localeCompare(b.label));
+}
+
+/**
+ * Write the chosen sections back. Each section is replaced as a whole: keys it
+ * does not contain are removed. Stores pick the values up on the next load.
+ */
+export function restoreBackup(bundle: BackupBundle, sectionIds: BackupSectionId[]): void {
+  for (const id of sectionIds) {
+    const values = bundle.sections[id] ?? {};
+    if (isStoreSection(id)) {
+      if (values[id] !== undefined) storageAdapter.setItem(id, values[id]);
+      else storageAdapter.removeItem(id);
+    } else if (LOCAL_SECTIONS[id] && typeof localStorage !== 'undefined') {
+      Object.keys(readLocalSection(LOCAL_SECTIONS[id].includes)).forEach(key => localStorage.removeItem(key));
+      Object.entries(values)
+        .filter(([key]) => LOCAL_SECTIONS[id].includes(key))
+        .forEach(([key, value]) => localStorage.setItem(key, value));
+    }
+  }
+  console.log(`[Backup] Restored ${sectionIds.length} sections`);
+}
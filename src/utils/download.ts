@@ -0,0 +1,25 @@
+/**
+ * Save text content as a file through a temporary object URL
+ * @param content File contents
+ * @param fileName Suggested file name
+ * @param mimeType MIME type of the content
+ */
+export function downloadFile(content: string, fileName: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Local date as YYYY-MM-DD, for file names
+ * @param timestamp Time in milliseconds
+ */
+export function fileDateStamp(timestamp: number = Date.now()): string {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import {
+  filterHistory,
+  historyFilterToHash,
+  parseHistoryFilterHash,
+  EMPTY_HISTORY_FILTER,
+  HistoryFilter
+} from './historyFilter';
+import { SessionData, BreakData, HistoryItem } from '../store/historySlice';
+import { DIFFICULTY } from '../constants';
+import { MINUTE, makeSession, makeBreak } from '../test/historyFixtures';
+
+const day = (date: number, hour = 12) => new Date(2024, 4, date, hour).getTime();
+
+const session = (id: string, timestamp: number, extra: Partial<SessionData> = {}): SessionData =>
+  makeSession({ id, timestamp, goal: 'Write report', ...extra });
+
+const breakItem: BreakData = makeBreak({ start: day(6, 13), note: 'Walked to the park' });
+
+const history: HistoryItem[] = [
+  session('hard', day(8), { difficulty: DIFFICULTY.HARD, duration: 50 * MINUTE, distractions: 2 }),
+  breakItem,
+  session('commented', day(6), { comment: 'Report draft done' }),
+  session('old', day(1), { goal: 'Inbox zero' }),
+];
+
+const ids = (filter: Partial<HistoryFilter>) =>
+  filterHistory(history, { ...EMPTY_HISTORY_FILTER, ...filter }).map(item => item.id);
+
+describe('historyFilter', () => {
+  it('should return history untouched without filters', () => {
+    expect(filterHistory(history, EMPTY_HISTORY_FILTER)).toBe(history);
+  });
+
+  it('should search goals, comments and break notes case-insensitively', () => {
+    expect(ids({ query: 'REPORT' })).toEqual(['hard', 'commented']);
+    expect(ids({ query: 'draft' })).toEqual(['commented']);
+    expect(ids({ query: 'park' })).toEqual(['break']);
+  });
+
+  it('should keep entries within an inclusive local date range', () => {
+    expect(ids({ from: '2024-05-06', to: '2024-05-06' })).toEqual(['break', 'commented']);
+    expect(ids({ to: '2024-05-05' })).toEqual(['old']);
+  });
+
+  it('should hide breaks for session-only filters', () => {
+    expect(ids({ difficulty: DIFFICULTY.HARD })).toEqual(['hard']);
+    expect(ids({ onlyDistracted: true })).toEqual(['hard']);
+    expect(ids({ minMinutes: 30 })).toEqual(['hard']);
+    expect(ids({ minMinutes: 10 })).toEqual(['hard', 'break', 'commented', 'old']);
+  });
+
+  it('should round-trip a filter through the URL hash', () => {
+    const filter: HistoryFilter = {
+      query: 'deep work & more',
+      from: '2024-05-01',
+      to: '2024-05-31',
+      difficulty: DIFFICULTY.EASY,
+      minMinutes: 15,
+      onlyDistracted: true,
+    };
+
+    expect(parseHistoryFilterHash(`#${historyFilterToHash(filter)}`)).toEqual(filter);
+    expect(historyFilterToHash(EMPTY_HISTORY_FILTER)).toBe('');
+    expect(parseHistoryFilterHash('#settings')).toBeNull();
+    expect(parseHistoryFilterHash('#history?difficulty=extreme&from=May')).toEqual(EMPTY_HISTORY_FILTER);
+  });
+});
@@ -0,0 +1,107 @@
+import { DIFFICULTY } from '../constants';
+import { isSessionData, getItemStart, HistoryItem } from '../store/historySlice';
+
+type Difficulty = typeof DIFFICULTY[keyof typeof DIFFICULTY];
+
+/**
+ * Filters for the Session History list.
+ *
+ * Text search covers session goals, comments, projects and tags, and break notes. Difficulty
+ * and "with distractions" only describe sessions, so setting either hides
+ * breaks. Dates are local calendar days (YYYY-MM-DD), both ends inclusive.
+ * A filter round-trips through the URL hash as `#history?q=…&from=…`.
+ */
+
+export interface HistoryFilter {
+  query: string;
+  from: string; // YYYY-MM-DD or ''
+  to: string;
+  difficulty: Difficulty | '';
+  minMinutes: number; // 0 = any length
+  onlyDistracted: boolean;
+}
+
+export const EMPTY_HISTORY_FILTER: HistoryFilter = {
+  query: '',
+  from: '',
+  to: '',
+  difficulty: '',
+  minMinutes: 0,
+  onlyDistracted: false,
+};
+
+const HASH_PREFIX = 'history';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Local midnight of a YYYY-MM-DD day, optionally some days later
+const getLocalDayStart = (value: string, addDays = 0) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day + addDays).getTime();
+};
+
+export const isHistoryFilterActive = (filter: HistoryFilter) =>
+  (Object.keys(EMPTY_HISTORY_FILTER) as (keyof HistoryFilter)[]).some(key => filter[key] !== EMPTY_HISTORY_FILTER[key]);
+
+export function filterHistory(history: HistoryItem[], filter: HistoryFilter, now: number = Date.now()): HistoryItem[] {
+  if (!isHistoryFilterActive(filter)) return history;
+
+  const query = filter.query.trim().toLowerCase();
+  const fromMs = DATE_PATTERN.test(filter.from) ? getLocalDayStart(filter.from) : -Infinity;
+  const toMs = DATE_PATTERN.test(filter.to) ? getLocalDayStart(filter.to, 1) : Infinity;
+  const minMs = Math.max(0, filter.minMinutes) * 60000;
+  const sessionsOnly = filter.difficulty !== '' || filter.onlyDistracted;
+
+  return history.filter(item => {
+    const start = getItemStart(item);
+    if (start < fromMs || start >= toMs) return false;
+
+    if (isSessionData(item)) {
+      if (filter.difficulty && (item.difficulty ?? DIFFICULTY.MEDIUM) !== filter.difficulty) return false;
+      if (filter.onlyDistracted && item.distractions === 0) return false;
+      if (item.duration < minMs) return false;
+      return !query || [item.goal, item.comment, item.project, ...(item.tags ?? []).map(tag => `#${tag}`)]
+        .some(text => text?.toLowerCase().includes(query));
+    }
+
+    if (sessionsOnly) return false;
+    if ((item.end ?? now) - item.start < minMs) return false;
+    return !query || item.note.toLowerCase().includes(query);
+  });
+}
+
+// `history?q=…` for the URL hash, or '' when nothing is filtered
+export function historyFilterToHash(filter: HistoryFilter): string {
+  const params = new URLSearchParams();
+  if (filter.query.trim()) params.set('q', filter.query.trim());
+  if (filter.from) params.set('from', filter.from);
+  if (filter.to) params.set('to', filter.to);
+  if (filter.difficulty) params.set('difficulty', filter.difficulty);
+  if (filter.minMinutes > 0) params.set('min', String(filter.minMinutes));
+  if (filter.onlyDistracted) params.set('distracted', '1');
+  const query = params.toString();
+  return query ? `${HASH_PREFIX}?${query}` : '';
+}
+
+// Read a filter from the URL hash. Returns null when the hash is not a history filter.
+export function parseHistoryFilterHash(hash: string): HistoryFilter | null {
+  const value = hash.replace(/^#/, '');
+  if (value !== HASH_PREFIX && !value.startsWith(`${HASH_PREFIX}?`)) return null;
+
+  const params = new URLSearchParams(value.slice(HASH_PREFIX.length + 1));
+  const difficulty = params.get('difficulty') ?? '';
+  const minMinutes = Number(params.get('min'));
+  const date = (key: string) => {
+    const raw = params.get(key) ?? '';
+    return DATE_PATTERN.test(raw) ? raw : '';
+  };
+
+  return {
+    query: params.get('q') ?? '',
+    from: date('from'),
+    to: date('to'),
+    difficulty: (Object.values(DIFFICULTY) as string[]).includes(difficulty) ? difficulty as Difficulty : '',
+    minMinutes: Number.isFinite(minMinutes) && minMinutes > 0 ? minMinutes : 0,
+    onlyDistracted: params.get('distracted') === '1',
+  };
+}
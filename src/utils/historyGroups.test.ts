@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { groupHistoryByDay, sumHistoryTotals } from './historyGroups';
+import { SessionData, BreakData, HistoryItem } from '../store/historySlice';
+import { MINUTE, makeSession, makeBreak } from '../test/historyFixtures';
+
+// Local time on 2024-05-<day>
+const at = (day: number, hour: number) => new Date(2024, 4, day, hour).getTime();
+
+const session = (day: number, hour: number, minutes = 25): SessionData =>
+  makeSession({ id: `session-${day}-${hour}`, timestamp: at(day, hour), duration: minutes * MINUTE });
+
+const breakAt = (day: number, hour: number, end: number | null): BreakData =>
+  makeBreak({ id: `break-${day}-${hour}`, start: at(day, hour), end });
+
+describe('groupHistoryByDay', () => {
+  it('should group newest day first with per-day totals', () => {
+    const history: HistoryItem[] = [
+      breakAt(7, 11, null),
+      session(7, 10, 50),
+      breakAt(6, 10, at(6, 10) + 5 * MINUTE),
+      session(6, 9),
+      session(6, 8),
+    ];
+
+    const groups = groupHistoryByDay(history);
+
+    expect(groups.map(group => group.dayStart)).toEqual([at(7, 0), at(6, 0)]);
+    expect(groups[0]).toMatchObject({ focusMs: 50 * MINUTE, breakMs: 0, sessionCount: 1 });
+    expect(groups[1].items.map(item => item.id)).toEqual(['break-6-10', 'session-6-9', 'session-6-8']);
+    expect(sumHistoryTotals(groups)).toEqual({ focusMs: 100 * MINUTE, breakMs: 5 * MINUTE, sessionCount: 3 });
+  });
+
+  it('should reuse groups of days whose entries did not change', () => {
+    const older = [session(6, 9), session(5, 9)];
+    const first = groupHistoryByDay(older);
+
+    const second = groupHistoryByDay([session(7, 9), ...older], first);
+
+    expect(second).toHaveLength(3);
+    expect(second[1]).toBe(first[0]);
+    expect(second[2]).toBe(first[1]);
+
+    const edited = groupHistoryByDay([{ ...older[0], duration: MINUTE }, older[1]], first);
+    expect(edited[0]).not.toBe(first[0]);
+    expect(edited[1]).toBe(first[1]);
+  });
+});
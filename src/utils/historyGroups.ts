@@ -0,0 +1,70 @@
+import { isSessionData, getItemStart, HistoryItem } from '../store/historySlice';
+import { getDayStart } from '../store/plannerSlice';
+
+/**
+ * Session History grouped by local day, newest day first. Each group carries
+ * its own totals, and regrouping reuses the previous group object for any day
+ * whose entries did not change. Totals are then summed per day instead of per
+ * entry, and memoized day components can skip rendering.
+ */
+
+export interface HistoryDayGroup {
+  dayStart: number; // Local midnight
+  items: HistoryItem[]; // Newest first, like the history
+  focusMs: number;
+  breakMs: number; // Closed breaks only
+  sessionCount: number;
+}
+
+export interface HistoryTotals {
+  focusMs: number;
+  breakMs: number;
+  sessionCount: number;
+}
+
+const sameItems = (a: HistoryItem[], b: HistoryItem[]) =>
+  a.length === b.length && a.every((item, index) => item === b[index]);
+
+const createGroup = (dayStart: number, items: HistoryItem[]): HistoryDayGroup => {
+  let focusMs = 0;
+  let breakMs = 0;
+  let sessionCount = 0;
+  for (const item of items) {
+    if (isSessionData(item)) {
+      focusMs += item.duration;
+      sessionCount += 1;
+    } else if (item.end !== null) {
+      breakMs += item.durationMs;
+    }
+  }
+  return { dayStart, items, focusMs, breakMs, sessionCount };
+};
+
+export function groupHistoryByDay(history: HistoryItem[], previous: HistoryDayGroup[] = []): HistoryDayGroup[] {
+  const byDay = new Map<number, HistoryItem[]>();
+  for (const item of history) {
+    const dayStart = getDayStart(getItemStart(item));
+    const items = byDay.get(dayStart);
+    if (items) items.push(item);
+    else byDay.set(dayStart, [item]);
+  }
+
+  const previousByDay = new Map(previous.map(group => [group.dayStart, group]));
+  return [...byDay.entries()]
+    .sort(([a], [b]) => b - a)
+    .map(([dayStart, items]) => {
+      const cached = previousByDay.get(dayStart);
+      return cached && sameItems(cached.items, items) ? cached : createGroup(dayStart, items);
+    });
+}
+
+export function sumHistoryTotals(groups: HistoryDayGroup[]): HistoryTotals {
+  return groups.reduce(
+    (totals, group) => ({
+      focusMs: totals.focusMs + group.focusMs,
+      breakMs: totals.breakMs + group.breakMs,
+      sessionCount: totals.sessionCount + group.sessionCount,
+    }),
+    { focusMs: 0, breakMs: 0, sessionCount: 0 }
+  );
+}
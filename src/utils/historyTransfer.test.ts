@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import {
+  exportHistoryJson,
+  exportHistoryCsv,
+  parseHistoryImport,
+  previewHistoryImport,
+  mergeHistory
+} from './historyTransfer';
+import { SessionData, BreakData, HistoryItem } from '../store/historySlice';
+import { SESSION_TYPE, SESSION_OUTCOME, DIFFICULTY, BREAK_OUTCOME, DISTRACTION_CATEGORY, HISTORY_EXPORT_VERSION } from '../constants';
+
+const start = 1620000000000;
+
+const session: SessionData = {
+  type: SESSION_TYPE.FOCUS,
+  id: 'session-1',
+  timestamp: start,
+  duration: 25 * 60000,
+  goal: 'Write, "edit" and ship',
+  distractions: 1,
+  difficulty: DIFFICULTY.HARD,
+  comment: 'line one\nline two',
+  project: 'Launch, v2',
+  tags: ['writing', 'deep'],
+  goalId: 'goal-1',
+  pauseLog: [{ start: start + 60000, end: start + 120000 }],
+  pausedMs: 60000,
+  distractionLog: [{ at: start + 300000, category: DISTRACTION_CATEGORY.PHONE, note: 'call' }],
+  endedAt: start + 26 * 60000,
+  outcome: SESSION_OUTCOME.ENDED_EARLY,
+  outcomeReason: 'Called away, back later',
+};
+
+const breakItem: BreakData = {
+  type: SESSION_TYPE.BREAK,
+  id: 'break-1',
+  start: start + 26 * 60000,
+  end: start + 31 * 60000,
+  durationMs: 5 * 60000,
+  note: 'Walk',
+  plannedDurationMs: 5 * 60000,
+  isLongBreak: false,
+  outcome: BREAK_OUTCOME.ON_TIME,
+};
+
+const history: HistoryItem[] = [breakItem, session];
+
+describe('historyTransfer', () => {
+  it('should round-trip history through JSON', () => {
+    const parsed = parseHistoryImport(exportHistoryJson(history), 'backup.json');
+
+    expect(parsed.rejected).toEqual([]);
+    expect(parsed.items).toEqual(history);
+  });
+
+  it('should round-trip history through CSV, including quoted cells and nested fields', () => {
+    const parsed = parseHistoryImport(exportHistoryCsv(history), 'backup.csv');
+
+    expect(parsed.rejected).toEqual([]);
+    expect(parsed.items).toEqual(history);
+  });
+
+  it('should refuse exports from a newer version', () => {
+    const text = JSON.stringify({ format: 'deepwork-history', version: HISTORY_EXPORT_VERSION + 1, history: [] });
+
+    expect(() => parseHistoryImport(text, 'future.json')).toThrow(/newer than supported/);
+  });
+
+  it('should give sessions from version 1 exports an end time and outcome', () => {
+    const { endedAt: _endedAt, outcome: _outcome, outcomeReason: _reason, ...v1Session } = session;
+    const text = JSON.stringify({ format: 'deepwork-history', version: 1, history: [{ ...v1Session, plannedDurationMs: 30 * 60000 }] });
+
+    const [item] = parseHistoryImport(text, 'old.json').items as SessionData[];
+
+    expect(item).toMatchObject({ endedAt: start + 26 * 60000, outcome: SESSION_OUTCOME.ENDED_EARLY });
+    expect(item.outcomeReason).toBeUndefined();
+  });
+
+  it('should reject invalid rows and duplicate ids with reasons', () => {
+    const text = JSON.stringify({
+      format: 'deepwork-history',
+      version: HISTORY_EXPORT_VERSION,
+      history: [
+        session,
+        { ...session, goal: 'Duplicate' },
+        { ...session, id: 'bad-duration', duration: -5 },
+        { type: 'nap', id: 'nap-1' },
+        { ...breakItem, id: 'open-break', end: null },
+      ],
+    });
+
+    const parsed = parseHistoryImport(text, 'mixed.json');
+
+    expect(parsed.items.map(item => item.id)).toEqual(['session-1']);
+    expect(parsed.rejected).toEqual([
+      { row: 2, reason: "duplicate id 'session-1' in file" },
+      { row: 3, reason: 'duration must be a non-negative number' },
+      { row: 4, reason: "unknown type 'nap'" },
+      { row: 5, reason: 'break is still open' },
+    ]);
+  });
+
+  it('should preview new, unchanged and conflicting items without touching history', () => {
+    const incoming = {
+      items: [session, { ...breakItem, note: 'Run' }, { ...session, id: 'session-2', timestamp: start + 3600000 }],
+      rejected: [],
+    };
+
+    const preview = previewHistoryImport(history, incoming);
+
+    expect(preview.added.map(item => item.id)).toEqual(['session-2']);
+    expect(preview.unchanged.map(item => item.id)).toEqual(['session-1']);
+    expect(preview.conflicts).toEqual([{ existing: breakItem, incoming: { ...breakItem, note: 'Run' } }]);
+  });
+
+  it('should merge by id, newest first, keeping current items on conflict unless asked', () => {
+    const later: SessionData = { ...session, id: 'session-2', timestamp: start + 3600000 };
+    const preview = previewHistoryImport(history, { items: [later, { ...breakItem, note: 'Run' }], rejected: [] });
+
+    const kept = mergeHistory(history, preview);
+    expect(kept.map(item => item.id)).toEqual(['session-2', 'break-1', 'session-1']);
+    expect((kept[1] as BreakData).note).toBe('Walk');
+
+    const replaced = mergeHistory(history, preview, true);
+    expect((replaced[1] as BreakData).note).toBe('Run');
+  });
+});
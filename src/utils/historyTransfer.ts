@@ -0,0 +1,430 @@
+import {
+  SESSION_TYPE,
+  DIFFICULTY,
+  BREAK_OUTCOME,
+  SESSION_OUTCOME,
+  DISTRACTION_CATEGORY,
+  HISTORY_EXPORT_FORMAT,
+  HISTORY_EXPORT_VERSION
+} from '../constants';
+import {
+  isSessionData,
+  getItemStart,
+  withSessionOutcome,
+  HistoryItem,
+  SessionData,
+  BreakData,
+  PauseInterval,
+  DistractionEvent
+} from '../store/historySlice';
+import { PostureSessionStats } from '../store/postureSlice';
+import { isPersistedObject } from '../lib/persistStorage';
+
+/**
+ * History export and import.
+ *
+ * JSON exports wrap the items in a versioned envelope and round-trip exactly.
+ * CSV exports are flat, one row per item; nested fields (pauses, distractions,
+ * extensions, posture stats) are stored as JSON in their own columns.
+ * Imports are validated item by item and merged by `id`; breaks that are
+ * still open are rejected. Sessions from
+ * version 1 exports get the outcome the v2 history migration would give them.
+ */
+
+export interface HistoryExport {
+  format: typeof HISTORY_EXPORT_FORMAT;
+  version: number;
+  exportedAt: number;
+  history: HistoryItem[];
+}
+
+export interface RejectedRow {
+  row: number; // 1-based item index (JSON) or line number (CSV)
+  reason: string;
+}
+
+export interface ParsedHistoryImport {
+  items: HistoryItem[];
+  rejected: RejectedRow[];
+}
+
+export interface HistoryConflict {
+  existing: HistoryItem;
+  incoming: HistoryItem;
+}
+
+export interface HistoryImportPreview {
+  added: HistoryItem[];
+  unchanged: HistoryItem[]; // Already present with identical content
+  conflicts: HistoryConflict[]; // Same id, different content
+  rejected: RejectedRow[];
+}
+
+export const CSV_COLUMNS = [
+  'type', 'id', 'start', 'end', 'duration_ms', 'goal', 'difficulty', 'distractions',
+  'posture', 'comment', 'note', 'paused_ms', 'planned_duration_ms', 'overtime_ms',
+  'planned_block_id', 'is_long_break', 'outcome', 'pause_log', 'distraction_log',
+  'extensions', 'posture_stats', 'manual', 'project', 'tags', 'outcome_reason', 'goal_id',
+] as const;
+
+type CsvColumn = typeof CSV_COLUMNS[number];
+
+// ---------- Validation ----------
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isNonNegative = (value: unknown): value is number => isFiniteNumber(value) && value >= 0;
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+const isOneOf = <T extends string>(values: Record<string, T>, value: unknown): value is T =>
+  Object.values(values).includes(value as T);
+const isListOf = <T>(value: unknown, isItem: (item: unknown) => item is T): value is T[] =>
+  Array.isArray(value) && value.every(isItem);
+// Absent optional fields pass; present ones must match
+const isOptional = <T>(value: unknown, isValue: (value: unknown) => value is T): value is T | undefined =>
+  value === undefined || isValue(value);
+
+const isPauseInterval = (value: unknown): value is PauseInterval =>
+  isPersistedObject(value) && isFiniteNumber(value.start) && isFiniteNumber(value.end) && value.end >= value.start;
+const isDistractionEvent = (value: unknown): value is DistractionEvent =>
+  isPersistedObject(value) && isFiniteNumber(value.at) &&
+  (value.category === undefined || isOneOf(DISTRACTION_CATEGORY, value.category)) &&
+  isOptional(value.note, isString);
+const isPostureStats = (value: unknown): value is PostureSessionStats =>
+  isPersistedObject(value) && isNonNegative(value.goodMs) && isNonNegative(value.badMs) &&
+  isPersistedObject(value.ruleFailures) && Object.values(value.ruleFailures).every(isFiniteNumber);
+
+// Keep only defined optional fields so validated items compare cleanly
+const compact = <T extends object>(item: T): T =>
+  Object.fromEntries(Object.entries(item).filter(([, value]) => value !== undefined)) as T;
+
+const validateSession = (id: string, raw: Record<string, unknown>): SessionData | string => {
+  const {
+    timestamp, duration, goal, distractions, posture, difficulty, comment, pauseLog, distractionLog, extensions,
+    pausedMs, plannedDurationMs, overtimeMs, plannedBlockId, manual, project, tags, goalId, endedAt, outcome,
+    outcomeReason, postureStats,
+  } = raw;
+  if (!isFiniteNumber(timestamp) || timestamp <= 0) return 'timestamp must be a positive number';
+  if (!isNonNegative(duration)) return 'duration must be a non-negative number';
+  if (!isString(goal)) return 'goal must be a string';
+  if (!isNonNegative(distractions) || !Number.isInteger(distractions)) return 'distractions must be a non-negative integer';
+  if (!isOptional(posture, isNonNegative) || (posture ?? 0) > 100) return 'posture must be between 0 and 100';
+  if (difficulty !== undefined && !isOneOf(DIFFICULTY, difficulty)) return `unknown difficulty '${difficulty}'`;
+  if (!isOptional(comment, isString)) return 'comment must be a string';
+  if (pauseLog !== undefined && !isListOf(pauseLog, isPauseInterval)) return 'pauseLog must be a list of {start, end}';
+  if (distractionLog !== undefined && !isListOf(distractionLog, isDistractionEvent)) {
+    return 'distractionLog must be a list of {at, category?, note?}';
+  }
+  if (extensions !== undefined && !isListOf(extensions, isNonNegative)) return 'extensions must be a list of durations';
+  if (!isOptional(pausedMs, isNonNegative)) return 'pausedMs must be a non-negative number';
+  if (!isOptional(plannedDurationMs, isNonNegative)) return 'plannedDurationMs must be a non-negative number';
+  if (!isOptional(overtimeMs, isNonNegative)) return 'overtimeMs must be a non-negative number';
+  if (!isOptional(plannedBlockId, isString)) return 'plannedBlockId must be a string';
+  if (!isOptional(manual, isBoolean)) return 'manual must be a boolean';
+  if (!isOptional(project, isString)) return 'project must be a string';
+  if (tags !== undefined && !isListOf(tags, isString)) return 'tags must be a list of strings';
+  if (!isOptional(goalId, isString)) return 'goalId must be a string';
+  if (!isOptional(endedAt, isFiniteNumber) || (endedAt ?? timestamp) < timestamp) return 'endedAt must not be before timestamp';
+  if (outcome !== undefined && !isOneOf(SESSION_OUTCOME, outcome)) return `unknown session outcome '${outcome}'`;
+  if (!isOptional(outcomeReason, isString)) return 'outcomeReason must be a string';
+  if (!isOptional(postureStats, isPostureStats)) return 'postureStats must be {goodMs, badMs, ruleFailures}';
+
+  return withSessionOutcome(compact<SessionData>({
+    type: SESSION_TYPE.FOCUS,
+    id,
+    timestamp,
+    duration,
+    goal,
+    distractions,
+    posture,
+    comment,
+    difficulty,
+    distractionLog,
+    pauseLog,
+    pausedMs,
+    plannedDurationMs,
+    extensions,
+    overtimeMs,
+    plannedBlockId,
+    postureStats,
+    manual,
+    project,
+    tags,
+    goalId,
+    endedAt,
+    outcome,
+    outcomeReason,
+  }));
+};
+
+const validateBreak = (id: string, raw: Record<string, unknown>): BreakData | string => {
+  const { start, end, durationMs, note, plannedDurationMs, isLongBreak, outcome } = raw;
+  if (!isFiniteNumber(start) || start <= 0) return 'start must be a positive number';
+  // Only the running break may be open; an imported one would sit beside it and never be closed
+  if (end === null) return 'break is still open';
+  if (!isFiniteNumber(end) || end < start) return 'end must not be before start';
+  if (!isNonNegative(durationMs)) return 'durationMs must be a non-negative number';
+  if (!isString(note)) return 'note must be a string';
+  if (!isOptional(plannedDurationMs, isNonNegative)) return 'plannedDurationMs must be a non-negative number';
+  if (!isOptional(isLongBreak, isBoolean)) return 'isLongBreak must be a boolean';
+  if (outcome !== undefined && !isOneOf(BREAK_OUTCOME, outcome)) return `unknown break outcome '${outcome}'`;
+
+  return compact<BreakData>({
+    type: SESSION_TYPE.BREAK,
+    id,
+    start,
+    end,
+    durationMs,
+    note,
+    plannedDurationMs,
+    isLongBreak,
+    outcome,
+  });
+};
+
+// Check one raw item against the history schema. Returns the clean item or a reason.
+export function validateHistoryItem(raw: unknown): HistoryItem | string {
+  if (!isPersistedObject(raw)) return 'not an object';
+  if (!isString(raw.id) || !raw.id.trim()) return 'missing id';
+  if (raw.type === SESSION_TYPE.FOCUS) return validateSession(raw.id, raw);
+  if (raw.type === SESSION_TYPE.BREAK) return validateBreak(raw.id, raw);
+  return `unknown type '${raw.type}'`;
+}
+
+// ---------- JSON ----------
+
+export function exportHistoryJson(history: HistoryItem[], exportedAt = Date.now()): string {
+  const payload: HistoryExport = {
+    format: HISTORY_EXPORT_FORMAT,
+    version: HISTORY_EXPORT_VERSION,
+    exportedAt,
+    history,
+  };
+  return JSON.stringify(payload, null, 2);
+}
+
+export function parseHistoryJson(text: string): ParsedHistoryImport {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+  if (!isPersistedObject(payload) || payload.format !== HISTORY_EXPORT_FORMAT) throw new Error('Not a DeepWork history export');
+  if (!isFiniteNumber(payload.version) || !Number.isInteger(payload.version) || payload.version < 1) throw new Error('Missing export version');
+  if (payload.version > HISTORY_EXPORT_VERSION) {
+    throw new Error(`Export version ${payload.version} is newer than supported (${HISTORY_EXPORT_VERSION})`);
+  }
+  if (!Array.isArray(payload.history)) throw new Error('Export has no history list');
+
+  return collectValid(payload.history.map((raw, index) => ({ raw, row: index + 1 })));
+}
+
+// ---------- CSV ----------
+
+const escapeCsv = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsvRow = (item: HistoryItem): Record<CsvColumn, unknown> => {
+  if (isSessionData(item)) {
+    return {
+      type: item.type, id: item.id, start: item.timestamp, end: item.endedAt, duration_ms: item.duration,
+      goal: item.goal, difficulty: item.difficulty, distractions: item.distractions, posture: item.posture,
+      comment: item.comment, note: null, paused_ms: item.pausedMs, planned_duration_ms: item.plannedDurationMs,
+      overtime_ms: item.overtimeMs, planned_block_id: item.plannedBlockId, is_long_break: null, outcome: item.outcome,
+      pause_log: item.pauseLog, distraction_log: item.distractionLog, extensions: item.extensions,
+      posture_stats: item.postureStats, manual: item.manual, project: item.project, tags: item.tags,
+      outcome_reason: item.outcomeReason, goal_id: item.goalId,
+    };
+  }
+  return {
+    type: item.type, id: item.id, start: item.start, end: item.end, duration_ms: item.durationMs,
+    goal: null, difficulty: null, distractions: null, posture: null, comment: null, note: item.note,
+    paused_ms: null, planned_duration_ms: item.plannedDurationMs, overtime_ms: null, planned_block_id: null,
+    is_long_break: item.isLongBreak, outcome: item.outcome, pause_log: null, distraction_log: null,
+    extensions: null, posture_stats: null, manual: null, project: null, tags: null, outcome_reason: null, goal_id: null,
+  };
+};
+
+export function exportHistoryCsv(history: HistoryItem[]): string {
+  const lines = [CSV_COLUMNS.join(',')];
+  for (const item of history) {
+    const row = toCsvRow(item);
+    lines.push(CSV_COLUMNS.map(column => escapeCsv(row[column])).join(','));
+  }
+  return lines.join('\r\n');
+}
+
+// Split CSV text into rows of cells (RFC 4180 quoting). Each row keeps its starting line number.
+const splitCsv = (text: string): { cells: string[]; line: number }[] => {
+  const rows: { cells: string[]; line: number }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      cells.push(cell);
+      if (cells.some(c => c !== '')) rows.push({ cells, line: rowLine });
+      cells = [];
+      cell = '';
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  if (cells.some(c => c !== '')) rows.push({ cells, line: rowLine });
+  return rows;
+};
+
+// Turn one CSV row back into a raw item for validation
+const fromCsvRow = (row: Record<string, string>): Record<string, unknown> | string => {
+  const number = (value: string) => value === '' ? undefined : Number(value);
+  const json = (column: string) => {
+    if (!row[column]) return undefined;
+    try {
+      return JSON.parse(row[column]);
+    } catch {
+      throw new Error(`${column} is not valid JSON`);
+    }
+  };
+  const text = (value: string) => value === '' ? undefined : value;
+
+  try {
+    if (row.type === SESSION_TYPE.FOCUS) {
+      return {
+        type: row.type, id: row.id, timestamp: number(row.start), duration: number(row.duration_ms),
+        goal: row.goal ?? '', distractions: number(row.distractions) ?? 0, posture: number(row.posture),
+        comment: text(row.comment), difficulty: text(row.difficulty), pausedMs: number(row.paused_ms),
+        plannedDurationMs: number(row.planned_duration_ms), overtimeMs: number(row.overtime_ms),
+        plannedBlockId: text(row.planned_block_id), pauseLog: json('pause_log'),
+        distractionLog: json('distraction_log'), extensions: json('extensions'), postureStats: json('posture_stats'),
+        manual: row.manual ? row.manual === 'true' : undefined, project: text(row.project), tags: json('tags'),
+        endedAt: number(row.end), outcome: text(row.outcome), outcomeReason: text(row.outcome_reason),
+        goalId: text(row.goal_id),
+      };
+    }
+    return {
+      type: row.type, id: row.id, start: number(row.start), end: row.end === '' ? null : number(row.end),
+      durationMs: number(row.duration_ms), note: row.note ?? '', plannedDurationMs: number(row.planned_duration_ms),
+      isLongBreak: row.is_long_break === '' ? undefined : row.is_long_break === 'true',
+      outcome: text(row.outcome),
+    };
+  } catch (error) {
+    return (error as Error).message;
+  }
+};
+
+export function parseHistoryCsv(text: string): ParsedHistoryImport {
+  const [header, ...rows] = splitCsv(text.replace(/^\uFEFF/, ''));
+  if (!header || !['type', 'id', 'start'].every(column => header.cells.includes(column))) {
+    throw new Error('CSV is missing the type, id and start columns');
+  }
+
+  const rejected: RejectedRow[] = [];
+  const raws: { raw: unknown; row: number }[] = [];
+  for (const { cells, line } of rows) {
+    const record = Object.fromEntries(header.cells.map((column, index) => [column, cells[index] ?? '']));
+    const raw = fromCsvRow(record);
+    if (typeof raw === 'string') {
+      rejected.push({ row: line, reason: raw });
+    } else {
+      raws.push({ raw, row: line });
+    }
+  }
+
+  const parsed = collectValid(raws);
+  return { items: parsed.items, rejected: [...rejected, ...parsed.rejected].sort((a, b) => a.row - b.row) };
+}
+
+// ---------- Import ----------
+
+// Validate raw items, dropping duplicate ids within the file itself
+const collectValid = (raws: { raw: unknown; row: number }[]): ParsedHistoryImport => {
+  const items: HistoryItem[] = [];
+  const rejected: RejectedRow[] = [];
+  const seen = new Set<string>();
+  for (const { raw, row } of raws) {
+    const result = validateHistoryItem(raw);
+    if (typeof result === 'string') {
+      rejected.push({ row, reason: result });
+    } else if (seen.has(result.id)) {
+      rejected.push({ row, reason: `duplicate id '${result.id}' in file` });
+    } else {
+      seen.add(result.id);
+      items.push(result);
+    }
+  }
+  return { items, rejected };
+};
+
+// Pick the parser from the file name, falling back to sniffing the content
+export function parseHistoryImport(text: string, fileName = ''): ParsedHistoryImport {
+  const isJson = fileName.toLowerCase().endsWith('.json') ||
+    (!fileName.toLowerCase().endsWith('.csv') && text.trimStart().startsWith('{'));
+  return isJson ? parseHistoryJson(text) : parseHistoryCsv(text);
+}
+
+// Key-order independent serialization, undefined fields dropped
+const canonical = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`;
+  if (typeof value === 'object' && value !== null) {
+    return `{${Object.keys(value).sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonical((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+const sameItem = (a: HistoryItem, b: HistoryItem) => canonical(a) === canonical(b);
+
+// Compare incoming items with the current history without changing anything
+export function previewHistoryImport(existing: HistoryItem[], parsed: ParsedHistoryImport): HistoryImportPreview {
+  const byId = new Map(existing.map(item => [item.id, item]));
+  const preview: HistoryImportPreview = { added: [], unchanged: [], conflicts: [], rejected: parsed.rejected };
+  for (const incoming of parsed.items) {
+    const current = byId.get(incoming.id);
+    if (!current) {
+      preview.added.push(incoming);
+    } else if (sameItem(current, incoming)) {
+      preview.unchanged.push(incoming);
+    } else {
+      preview.conflicts.push({ existing: current, incoming });
+    }
+  }
+  return preview;
+}
+
+// Merge a previewed import into history, newest first. Conflicts keep the
+// current item unless replaceConflicts is set.
+export function mergeHistory(existing: HistoryItem[], preview: HistoryImportPreview, replaceConflicts = false): HistoryItem[] {
+  const replacements = new Map(
+    replaceConflicts ? preview.conflicts.map(({ incoming }) => [incoming.id, incoming] as const) : []
+  );
+  return [...existing.map(item => replacements.get(item.id) ?? item), ...preview.added]
+    .sort((a, b) => getItemStart(b) - getItemStart(a));
+}
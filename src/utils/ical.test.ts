@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { exportSessionsIcs, parseIcsEvents } from './ical';
+import { SessionData } from '../store/historySlice';
+import { getOverlappingEvents } from '../store/calendarSlice';
+import { SESSION_TYPE, DIFFICULTY, ICS_UID_DOMAIN } from '../constants';
+
+const session: SessionData = {
+  type: SESSION_TYPE.FOCUS,
+  id: 'session-1',
+  timestamp: Date.UTC(2024, 4, 6, 9),
+  duration: 50 * 60000,
+  pausedMs: 10 * 60000,
+  goal: 'Draft intro; outline, refs',
+  distractions: 2,
+  difficulty: DIFFICULTY.HARD,
+  comment: 'Slow start',
+  tags: ['writing'],
+};
+
+const calendar = (...lines: string[]) => ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n');
+
+describe('ical', () => {
+  it('should export one escaped VEVENT per session, skipping breaks', () => {
+    const ics = exportSessionsIcs([
+      session,
+      { type: SESSION_TYPE.BREAK, id: 'break-1', start: Date.UTC(2024, 4, 6, 10), end: null, durationMs: 0, note: '' },
+    ], Date.UTC(2024, 4, 7));
+
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+    expect(ics).toContain(`UID:session-1@${ICS_UID_DOMAIN}\r\n`);
+    expect(ics).toContain('DTSTART:20240506T090000Z\r\nDTEND:20240506T100000Z\r\n');
+    expect(ics).toContain('SUMMARY:Draft intro\\; outline\\, refs\r\n');
+    expect(ics).toContain('Distractions: 2\\n');
+    expect(ics).toContain('CATEGORIES:writing\r\n');
+    expect(ics.split('\r\n').every(line => line.length <= 75)).toBe(true);
+  });
+
+  it('should read its own export back', () => {
+    const [event] = parseIcsEvents(exportSessionsIcs([{ ...session, comment: 'x'.repeat(200) }]));
+
+    expect(event).toMatchObject({
+      id: `session-1@${ICS_UID_DOMAIN}`,
+      title: 'Draft intro; outline, refs',
+      start: Date.UTC(2024, 4, 6, 9),
+      end: Date.UTC(2024, 4, 6, 10),
+      allDay: false,
+    });
+  });
+
+  it('should import meetings in UTC, TZID zones, with durations and all day', () => {
+    const events = parseIcsEvents(calendar(
+      'BEGIN:VEVENT', 'UID:a', 'SUMMARY:Standup', 'DTSTART;TZID=Europe/Berlin:20240506T100000', 'DURATION:PT15M', 'END:VEVENT',
+      'BEGIN:VEVENT', 'UID:b', 'SUMMARY:Review', 'LOCATION:Room\\, 2', 'DTSTART:20240506T130000Z', 'DTEND:20240506T140000Z', 'END:VEVENT',
+      'BEGIN:VEVENT', 'UID:c', 'SUMMARY:Offsite', 'DTSTART;VALUE=DATE:20240507', 'END:VEVENT',
+      'BEGIN:VEVENT', 'UID:d', 'STATUS:CANCELLED', 'DTSTART:20240506T150000Z', 'END:VEVENT',
+      'BEGIN:VEVENT', 'UID:e', 'TRANSP:TRANSPARENT', 'DTSTART:20240506T160000Z', 'END:VEVENT',
+    ));
+
+    expect(events.map(event => event.id)).toEqual(['a', 'b', 'c']);
+    expect(events[0]).toMatchObject({ start: Date.UTC(2024, 4, 6, 8), end: Date.UTC(2024, 4, 6, 8, 15) });
+    expect(events[1].location).toBe('Room, 2');
+    expect(events[2].allDay).toBe(true);
+    expect(() => parseIcsEvents('not a calendar')).toThrow('Not an iCalendar file');
+  });
+
+  it('should expand recurring meetings with exceptions and overrides', () => {
+    const events = parseIcsEvents(calendar(
+      'BEGIN:VEVENT', 'UID:standup', 'SUMMARY:Standup', 'DTSTART;TZID=Europe/Berlin:20240325T100000',
+      'RRULE:FREQ=WEEKLY;BYDAY=MO,TH;COUNT=6', 'EXDATE;TZID=Europe/Berlin:20240328T100000',
+      'BEGIN:VALARM', 'ACTION:DISPLAY', 'DESCRIPTION:Reminder', 'TRIGGER:-PT10M', 'DURATION:PT5M', 'END:VALARM',
+      'DURATION:PT15M', 'END:VEVENT',
+      'BEGIN:VEVENT', 'UID:standup', 'RECURRENCE-ID;TZID=Europe/Berlin:20240401T100000', 'SUMMARY:Standup (moved)',
+      'DTSTART;TZID=Europe/Berlin:20240401T140000', 'DURATION:PT15M', 'END:VEVENT',
+      'BEGIN:VEVENT', 'UID:standup', 'RECURRENCE-ID;TZID=Europe/Berlin:20240404T100000', 'STATUS:CANCELLED',
+      'DTSTART;TZID=Europe/Berlin:20240404T100000', 'END:VEVENT',
+    ), Date.UTC(2024, 2, 25, 12));
+
+    // Wall-clock time stays at 10:00 in Berlin across the switch to summer time
+    expect(events.map(event => [event.id, event.start, event.end - event.start])).toEqual([
+      ['standup#20240325T090000Z', Date.UTC(2024, 2, 25, 9), 15 * 60000],
+      ['standup#20240408T080000Z', Date.UTC(2024, 3, 8, 8), 15 * 60000],
+      ['standup#20240411T080000Z', Date.UTC(2024, 3, 11, 8), 15 * 60000],
+      ['standup#20240401T080000Z', Date.UTC(2024, 3, 1, 12), 15 * 60000],
+    ]);
+    expect(events[3].title).toBe('Standup (moved)');
+  });
+
+  it('should expand open-ended rules only within the planner window', () => {
+    const events = parseIcsEvents(calendar(
+      'BEGIN:VEVENT', 'UID:daily', 'DTSTART:20200101T120000Z', 'DURATION:PT30M', 'RRULE:FREQ=DAILY', 'END:VEVENT',
+      'BEGIN:VEVENT', 'UID:monthly', 'DTSTART:20240131T120000Z', 'DURATION:PT1H', 'RRULE:FREQ=MONTHLY;UNTIL=20241231T000000Z', 'END:VEVENT',
+      'BEGIN:VEVENT', 'UID:odd', 'DTSTART:20240105T120000Z', 'DURATION:PT1H', 'RRULE:FREQ=MONTHLY;BYMONTHDAY=5,20', 'END:VEVENT',
+    ), Date.UTC(2024, 2, 25, 12));
+
+    const daily = events.filter(event => event.id.startsWith('daily#'));
+    expect(daily).toHaveLength(67);
+    expect(daily[0].start).toBe(Date.UTC(2024, 2, 18, 12));
+    expect(daily[daily.length - 1].start).toBe(Date.UTC(2024, 4, 23, 12));
+    // Months without a 31st are skipped, the 31st of May is past the window
+    expect(events.filter(event => event.id.startsWith('monthly#')).map(event => event.start)).toEqual([Date.UTC(2024, 2, 31, 12)]);
+    // Unsupported rules keep their first occurrence
+    expect(events.find(event => event.id === 'odd')?.start).toBe(Date.UTC(2024, 0, 5, 12));
+  });
+
+  it('should find timed events overlapping a planned session', () => {
+    const events = parseIcsEvents(calendar(
+      'BEGIN:VEVENT', 'UID:a', 'DTSTART:20240506T100000Z', 'DTEND:20240506T103000Z', 'END:VEVENT',
+      'BEGIN:VEVENT', 'UID:b', 'DTSTART;VALUE=DATE:20240506', 'END:VEVENT',
+    ));
+
+    expect(getOverlappingEvents(events, Date.UTC(2024, 4, 6, 9, 30), Date.UTC(2024, 4, 6, 10, 5)).map(event => event.id)).toEqual(['a']);
+    expect(getOverlappingEvents(events, Date.UTC(2024, 4, 6, 9), Date.UTC(2024, 4, 6, 10))).toEqual([]);
+  });
+});
@@ -0,0 +1,368 @@
+import {
+  CALENDAR_RECURRENCE_FUTURE_DAYS,
+  CALENDAR_RECURRENCE_PAST_DAYS,
+  DIFFICULTY_LABELS,
+  ICS_PRODUCT_ID,
+  ICS_UID_DOMAIN
+} from '../constants';
+import { isSessionData, getSessionEnd, HistoryItem } from '../store/historySlice';
+import { CalendarEvent } from '../store/calendarSlice';
+import { getDayStart } from '../store/plannerSlice';
+import { getZonedTimestamp } from './stats';
+
+/**
+ * iCalendar (RFC 5545) support: completed focus sessions go out as one VEVENT
+ * each, and meetings come in from any calendar's .ics export. Recurring
+ * events are expanded around the import date so the planner can show them.
+ */
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// UTC date-time, e.g. 20240506T120000Z
+const formatUtc = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`
+    + `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+};
+
+const escapeText = (text: string) => text
+  .replace(/\\/g, '\\\\')
+  .replace(/;/g, '\\;')
+  .replace(/,/g, '\\,')
+  .replace(/\r?\n/g, '\\n');
+
+const unescapeText = (text: string) => text.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+// Content lines are folded at 75 characters, continuation lines start with a space.
+// Splitting by code point keeps emoji intact.
+const foldLine = (line: string) => {
+  const chars = Array.from(line);
+  if (chars.length <= 75) return line;
+  const parts = [chars.slice(0, 75).join('')];
+  for (let index = 75; index < chars.length; index += 74) {
+    parts.push(chars.slice(index, index + 74).join(''));
+  }
+  return parts.join('\r\n ');
+};
+
+/**
+ * Calendar file with one event per focus session. UIDs are stable, so
+ * re-importing an export updates events instead of duplicating them.
+ */
+export function exportSessionsIcs(history: HistoryItem[], now: number = Date.now()): string {
+  const events = history.filter(isSessionData).map(session => {
+    const description = [
+      `Focus: ${Math.round(session.duration / 60000)} min`,
+      `Distractions: ${session.distractions}`,
+      session.difficulty && `Difficulty: ${DIFFICULTY_LABELS[session.difficulty]}`,
+      session.project && `Project: ${session.project}`,
+      session.comment && `\n${session.comment}`,
+    ].filter(Boolean).join('\n');
+    return [
+      'BEGIN:VEVENT',
+      `UID:${session.id}@${ICS_UID_DOMAIN}`,
+      `DTSTAMP:${formatUtc(now)}`,
+      `DTSTART:${formatUtc(session.timestamp)}`,
+      `DTEND:${formatUtc(getSessionEnd(session))}`,
+      `SUMMARY:${escapeText(session.goal)}`,
+      `DESCRIPTION:${escapeText(description)}`,
+      ...(session.tags?.length ? [`CATEGORIES:${session.tags.map(escapeText).join(',')}`] : []),
+      'TRANSP:OPAQUE',
+      'END:VEVENT',
+    ];
+  });
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${ICS_PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    ...events.flat(),
+    'END:VCALENDAR',
+  ].map(foldLine).join('\r\n') + '\r\n';
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const parseContentLine = (line: string): ContentLine | null => {
+  const match = /^([A-Za-z0-9-]+)((?:;[A-Za-z0-9-]+=(?:"[^"]*"|[^";:]*))*):(.*)$/.exec(line);
+  if (!match) return null;
+  const params: Record<string, string> = {};
+  for (const param of match[2].match(/;[^;=]+=(?:"[^"]*"|[^";:]*)/g) ?? []) {
+    const [key, ...rest] = param.slice(1).split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  }
+  return { name: match[1].toUpperCase(), params, value: match[3] };
+};
+
+interface DateValue {
+  date: { year: number; month: number; day: number };
+  time: readonly [number, number, number];
+  utc: boolean;
+  allDay: boolean;
+}
+
+const readDateValue = (value: string, params: Record<string, string>): DateValue | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second, utc] = match;
+  return {
+    date: { year: Number(year), month: Number(month), day: Number(day) },
+    time: [Number(hour ?? 0), Number(minute ?? 0), Number(second ?? 0)],
+    utc: Boolean(utc),
+    allDay: hour === undefined || params.VALUE === 'DATE',
+  };
+};
+
+/**
+ * Wall-clock date and time to a timestamp: UTC ("Z"), in a TZID zone, or
+ * floating (local time). Unknown zone ids fall back to local time.
+ */
+const toTimestamp = ({ date, time, utc, allDay }: DateValue, params: Record<string, string>) => {
+  if (utc) return Date.UTC(date.year, date.month - 1, date.day, ...time);
+  if (params.TZID && !allDay) {
+    try {
+      return getZonedTimestamp(date, params.TZID, ...time);
+    } catch {
+      // Not an IANA zone (e.g. Windows names): read as local time
+    }
+  }
+  return new Date(date.year, date.month - 1, date.day, ...time).getTime();
+};
+
+// DATE or DATE-TIME value to a timestamp
+const parseDateValue = (value: string, params: Record<string, string>): { timestamp: number; allDay: boolean } | null => {
+  const parsed = readDateValue(value, params);
+  return parsed && { timestamp: toTimestamp(parsed, params), allDay: parsed.allDay };
+};
+
+// ISO 8601 duration such as PT1H30M or P1D, in ms
+const parseDuration = (value: string): number | null => {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match.map(part => part ?? '0');
+  const ms = ((Number(weeks) * 7 + Number(days)) * 24 * 3600 + Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds)) * 1000;
+  return sign === '-' ? -ms : ms;
+};
+
+const DAY_MS = 24 * 3600000;
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const MAX_RECURRENCE_PERIODS = 5000;
+
+interface RecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval: number;
+  count?: number;
+  until?: number;
+  byDay?: number[]; // Weekdays of a WEEKLY rule, 0 = Sunday
+  weekStart: number;
+}
+
+// Timestamps that recurring events are expanded between
+interface RecurrenceWindow {
+  from: number;
+  until: number;
+}
+
+/**
+ * RRULE value for the common repeats: every n days, weeks (optionally on
+ * some weekdays), months or years, bounded by COUNT or UNTIL. Anything else
+ * (BYMONTHDAY, BYSETPOS, "first Monday", ...) gives null and the event keeps
+ * only its first occurrence.
+ */
+const parseRecurrenceRule = (value: string): RecurrenceRule | null => {
+  const parts: Record<string, string> = {};
+  for (const part of value.split(';')) {
+    const [key, partValue = ''] = part.split('=');
+    parts[key.trim().toUpperCase()] = partValue.trim().toUpperCase();
+  }
+  const { FREQ, INTERVAL, COUNT, UNTIL, BYDAY, WKST, ...rest } = parts;
+  if (FREQ !== 'DAILY' && FREQ !== 'WEEKLY' && FREQ !== 'MONTHLY' && FREQ !== 'YEARLY') return null;
+  if (Object.keys(rest).length > 0 || (BYDAY && FREQ !== 'WEEKLY')) return null;
+
+  const byDay = BYDAY?.split(',').map(day => WEEKDAYS.indexOf(day));
+  const weekStart = WEEKDAYS.indexOf(WKST ?? 'MO');
+  if (byDay?.some(day => day < 0) || weekStart < 0) return null;
+  const until = UNTIL ? parseDateValue(UNTIL, {}) : null;
+  if (UNTIL && !until) return null;
+
+  return {
+    freq: FREQ,
+    interval: Math.max(1, Math.floor(Number(INTERVAL) || 1)),
+    ...(COUNT && { count: Math.max(0, Math.floor(Number(COUNT) || 0)) }),
+    ...(until && { until: until.timestamp }),
+    ...(byDay && { byDay }),
+    weekStart,
+  };
+};
+
+// Dates of one period (day, week, month or year) of a rule, in order
+const getPeriodDates = (start: DateValue['date'], rule: RecurrenceRule, period: number): DateValue['date'][] => {
+  const origin = Date.UTC(start.year, start.month - 1, start.day);
+  const toDate = (ms: number) => {
+    const date = new Date(ms);
+    return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+  };
+  const step = period * rule.interval;
+
+  switch (rule.freq) {
+    case 'DAILY':
+      return [toDate(origin + step * DAY_MS)];
+    case 'WEEKLY': {
+      const sinceWeekStart = (weekday: number) => (weekday - rule.weekStart + 7) % 7;
+      const weekStart = origin + (step * 7 - sinceWeekStart(new Date(origin).getUTCDay())) * DAY_MS;
+      return (rule.byDay ?? [new Date(origin).getUTCDay()])
+        .map(weekday => weekStart + sinceWeekStart(weekday) * DAY_MS)
+        .filter(ms => ms >= origin)
+        .sort((a, b) => a - b)
+        .map(toDate);
+    }
+    default: {
+      const months = rule.freq === 'MONTHLY' ? step : step * 12;
+      const date = toDate(Date.UTC(start.year, start.month - 1 + months, start.day));
+      // Months (or years) without that day, like the 31st or Feb 29, are skipped
+      return date.day === start.day ? [date] : [];
+    }
+  }
+};
+
+/**
+ * Starts of the occurrences of a recurring event that overlap the window.
+ * Occurrences keep their wall-clock time in the event's zone across DST.
+ */
+const getOccurrences = (
+  start: DateValue,
+  params: Record<string, string>,
+  rule: RecurrenceRule,
+  durationMs: number,
+  window: RecurrenceWindow
+): number[] => {
+  // Without COUNT, periods that end before the window can be skipped outright
+  const longestPeriodMs = { DAILY: 1, WEEKLY: 7, MONTHLY: 31, YEARLY: 366 }[rule.freq] * rule.interval * DAY_MS;
+  const first = rule.count === undefined
+    ? Math.max(0, Math.floor((window.from - durationMs - toTimestamp(start, params)) / longestPeriodMs) - 1)
+    : 0;
+
+  const occurrences: number[] = [];
+  let seen = 0;
+  for (let period = first; period < first + MAX_RECURRENCE_PERIODS; period++) {
+    for (const date of getPeriodDates(start.date, rule, period)) {
+      const at = toTimestamp({ ...start, date }, params);
+      if ((rule.until !== undefined && at > rule.until) || (rule.count !== undefined && seen >= rule.count) || at >= window.until) {
+        return occurrences;
+      }
+      seen++;
+      if (at + durationMs > window.from) occurrences.push(at);
+    }
+  }
+  return occurrences;
+};
+
+// Id of one occurrence of a recurring event: its UID and original start
+const getOccurrenceId = (uid: string, start: number) => `${uid}#${formatUtc(start)}`;
+
+const findLine = (lines: ContentLine[], name: string) => lines.find(line => line.name === name);
+
+/**
+ * Busy events from an .ics file. Cancelled and free (TRANSPARENT) events are
+ * skipped, as are events without a usable start. Recurring events are
+ * expanded from a week before `now` to two months after it, minus EXDATEs,
+ * with RECURRENCE-ID overrides replacing the occurrence they move.
+ */
+export function parseIcsEvents(text: string, now: number = Date.now()): CalendarEvent[] {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  if (!lines.some(line => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new Error('Not an iCalendar file');
+  }
+
+  const components: ContentLine[][] = [];
+  let current: ContentLine[] | null = null;
+  let nested = 0; // Depth inside components of the event, such as VALARM
+  for (const raw of lines) {
+    const line = parseContentLine(raw.trim());
+    if (!line) continue;
+    if (current) {
+      if (line.name === 'BEGIN') {
+        nested++;
+      } else if (line.name === 'END' && nested > 0) {
+        nested--;
+      } else if (line.name === 'END') {
+        if (line.value.toUpperCase() === 'VEVENT') components.push(current);
+        current = null;
+      } else if (nested === 0) {
+        current.push(line);
+      }
+    } else if (line.name === 'BEGIN' && line.value.toUpperCase() === 'VEVENT') {
+      current = [];
+      nested = 0;
+    }
+  }
+
+  const today = getDayStart(now);
+  const window = {
+    from: today - CALENDAR_RECURRENCE_PAST_DAYS * DAY_MS,
+    until: today + CALENDAR_RECURRENCE_FUTURE_DAYS * DAY_MS,
+  };
+  const overridden = new Set(components.flatMap(component => {
+    const uid = findLine(component, 'UID')?.value;
+    const recurrenceLine = findLine(component, 'RECURRENCE-ID');
+    const original = recurrenceLine && parseDateValue(recurrenceLine.value, recurrenceLine.params);
+    return uid && original ? [getOccurrenceId(uid, original.timestamp)] : [];
+  }));
+  return components.flatMap((component, index) => toCalendarEvents(component, index, window, overridden));
+}
+
+const toCalendarEvents = (
+  lines: ContentLine[],
+  index: number,
+  window: RecurrenceWindow,
+  overridden: Set<string>
+): CalendarEvent[] => {
+  const get = (name: string) => findLine(lines, name);
+  if (get('STATUS')?.value.toUpperCase() === 'CANCELLED') return [];
+  if (get('TRANSP')?.value.toUpperCase() === 'TRANSPARENT') return [];
+
+  const startLine = get('DTSTART');
+  const startValue = startLine && readDateValue(startLine.value, startLine.params);
+  if (!startLine || !startValue) return [];
+  const start = toTimestamp(startValue, startLine.params);
+
+  const endLine = get('DTEND');
+  const durationLine = get('DURATION');
+  const parsedEnd = endLine ? parseDateValue(endLine.value, endLine.params) : null;
+  const duration = durationLine ? parseDuration(durationLine.value) : null;
+  const end = parsedEnd?.timestamp
+    ?? (duration !== null ? start + duration : start + (startValue.allDay ? DAY_MS : 0));
+  const durationMs = Math.max(0, end - start);
+
+  const location = get('LOCATION')?.value;
+  const toEvent = (id: string, at: number): CalendarEvent => ({
+    id,
+    title: unescapeText(get('SUMMARY')?.value ?? '').trim() || 'Busy',
+    start: at,
+    end: at + durationMs,
+    allDay: startValue.allDay,
+    ...(location && { location: unescapeText(location) }),
+  });
+
+  const uid = get('UID')?.value;
+  const recurrenceLine = get('RECURRENCE-ID');
+  const original = recurrenceLine && parseDateValue(recurrenceLine.value, recurrenceLine.params);
+  if (uid && original) return [toEvent(getOccurrenceId(uid, original.timestamp), start)];
+
+  const ruleLine = get('RRULE');
+  const rule = ruleLine && parseRecurrenceRule(ruleLine.value);
+  if (!uid || !rule) return [toEvent(uid || `event-${start}-${index}`, start)];
+
+  const excluded = new Set(lines
+    .filter(line => line.name === 'EXDATE')
+    .flatMap(line => line.value.split(',').map(value => parseDateValue(value, line.params)?.timestamp)));
+  return getOccurrences(startValue, startLine.params, rule, durationMs, window)
+    .filter(at => !excluded.has(at))
+    .map(at => toEvent(getOccurrenceId(uid, at), at))
+    .filter(event => !overridden.has(event.id));
+};
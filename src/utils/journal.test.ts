@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { buildDailyJournal } from './journal';
+import { SessionData, BreakData, HistoryItem } from '../store/historySlice';
+import { DIFFICULTY } from '../constants';
+import { MINUTE, makeSession, makeBreak } from '../test/historyFixtures';
+
+const day = { year: 2024, month: 5, day: 6 };
+
+const session = (hour: number, minutes: number, extra: Partial<SessionData> = {}): SessionData => makeSession({
+  id: `session-${hour}`,
+  timestamp: Date.UTC(2024, 4, 6, hour),
+  duration: minutes * MINUTE,
+  goal: 'Write',
+  difficulty: DIFFICULTY.HARD,
+  ...extra,
+});
+
+const breakAt = (hour: number, note: string): BreakData =>
+  makeBreak({ id: `break-${hour}`, start: Date.UTC(2024, 4, 6, hour), note });
+
+describe('buildDailyJournal', () => {
+  it('should write frontmatter and list the day in order', () => {
+    const history: HistoryItem[] = [
+      session(14, 50, { goal: 'Review', distractions: 1, project: 'Thesis', tags: ['deep work'], comment: 'Good\nflow' }),
+      breakAt(10, 'Walk outside'),
+      breakAt(11, ''),
+      session(9, 60),
+      session(23, 30, { timestamp: Date.UTC(2024, 4, 5, 23) }), // Previous day
+    ];
+
+    const markdown = buildDailyJournal(history, day, { timeZone: 'UTC', systemLog: 'Shipped v2' });
+
+    expect(markdown.startsWith('---\ndate: 2024-05-06\ntotal_focus: "1h 50m"\ntotal_focus_minutes: 110\nsessions: 2\ndistractions: 1\n')).toBe(true);
+    expect(markdown).toContain('projects:\n  - "Thesis"\ntags:\n  - "deepwork"\n  - "deep-work"\n---');
+    expect(markdown).toContain('# Deep work — Monday, May 6, 2024');
+    expect(markdown.indexOf('09:00–10:00** Write')).toBeLessThan(markdown.indexOf('14:00–14:50** Review'));
+    expect(markdown).toContain('Review · 50m · Deep Thinking · 1 distraction · 📁 Thesis · #deep-work\n  > Good\n  > flow');
+    expect(markdown).toContain('## Break notes\n\n- **10:00–10:10** Walk outside\n\n');
+    expect(markdown).toContain('## System log\n\nShipped v2\n');
+    expect(markdown).not.toContain('23:00');
+  });
+
+  it('should use the given time zone for the day boundaries', () => {
+    // 23:30 UTC on May 5th is 01:30 on May 6th in Berlin
+    const history = [session(0, 25, { timestamp: Date.UTC(2024, 4, 5, 23, 30) })];
+
+    expect(buildDailyJournal(history, day, { timeZone: 'Europe/Berlin' })).toContain('01:30–01:55** Write');
+    expect(buildDailyJournal(history, day, { timeZone: 'UTC' })).toContain('_No focus sessions._');
+  });
+});
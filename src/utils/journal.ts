@@ -0,0 +1,112 @@
+import { DIFFICULTY_LABELS, SESSION_OUTCOME, SESSION_OUTCOME_LABELS } from '../constants';
+import { isSessionData, isAbandonedSession, getSessionEnd, getSessionOutcome, getItemStart, HistoryItem, SessionData, BreakData } from '../store/historySlice';
+import { CalendarDate, addDays, getDayKey, getZonedMidnight, getSystemTimeZone } from './stats';
+import { formatTotalDuration } from './time';
+
+/**
+ * Daily journal as a Markdown note for Obsidian-style vaults: YAML frontmatter
+ * with the day's totals, the sessions in order, break notes and the System Log.
+ */
+
+export interface DailyJournalOptions {
+  timeZone?: string;
+  systemLog?: string;
+}
+
+const clockFormatters = new Map<string, Intl.DateTimeFormat>();
+const formatClock = (timestamp: number, timeZone: string) => {
+  let formatter = clockFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-GB', { timeZone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' });
+    clockFormatters.set(timeZone, formatter);
+  }
+  return formatter.format(new Date(timestamp));
+};
+
+// Keeps user text on one list line
+const inline = (text: string) => text.replace(/\s*\n\s*/g, ' ').trim();
+
+// Obsidian tags cannot contain spaces
+const toTag = (tag: string) => tag.trim().replace(/\s+/g, '-');
+
+const describeSession = (session: SessionData, timeZone: string) => {
+  const outcome = getSessionOutcome(session);
+  const details = [
+    formatTotalDuration(session.duration),
+    outcome !== SESSION_OUTCOME.COMPLETED && `_${SESSION_OUTCOME_LABELS[outcome].toLowerCase()}${session.outcomeReason ? `: ${inline(session.outcomeReason)}` : ''}_`,
+    session.difficulty && DIFFICULTY_LABELS[session.difficulty],
+    `${session.distractions} distraction${session.distractions === 1 ? '' : 's'}`,
+    session.project && `📁 ${inline(session.project)}`,
+    ...(session.tags ?? []).map(tag => `#${toTag(tag)}`),
+  ].filter(Boolean);
+  const lines = [
+    `- **${formatClock(session.timestamp, timeZone)}–${formatClock(getSessionEnd(session), timeZone)}** ${inline(session.goal)} · ${details.join(' · ')}`,
+  ];
+  if (session.comment?.trim()) {
+    lines.push(...session.comment.trim().split('\n').map(line => `  > ${line}`));
+  }
+  return lines;
+};
+
+const describeBreak = (breakItem: BreakData, timeZone: string) => {
+  const range = breakItem.end !== null
+    ? `${formatClock(breakItem.start, timeZone)}–${formatClock(breakItem.end, timeZone)}`
+    : `${formatClock(breakItem.start, timeZone)}–…`;
+  return `- **${range}** ${inline(breakItem.note)}`;
+};
+
+/**
+ * Markdown note for one calendar day. Sessions and breaks belong to the day
+ * they started on. Abandoned sessions are listed but left out of the totals.
+ */
+export function buildDailyJournal(
+  history: HistoryItem[],
+  date: CalendarDate,
+  { timeZone = getSystemTimeZone(), systemLog = '' }: DailyJournalOptions = {}
+): string {
+  const dayStart = getZonedMidnight(date, timeZone);
+  const dayEnd = getZonedMidnight(addDays(date, 1), timeZone);
+  const items = history
+    .filter(item => getItemStart(item) >= dayStart && getItemStart(item) < dayEnd)
+    .sort((a, b) => getItemStart(a) - getItemStart(b));
+  const sessions = items.filter(isSessionData);
+  const notedBreaks = items.filter((item): item is BreakData => !isSessionData(item) && item.note.trim() !== '');
+
+  const counted = sessions.filter(session => !isAbandonedSession(session));
+  const abandoned = sessions.length - counted.length;
+  const focusMs = counted.reduce((total, session) => total + session.duration, 0);
+  const distractions = counted.reduce((total, session) => total + session.distractions, 0);
+  const tags = ['deepwork', ...new Set(sessions.flatMap(session => (session.tags ?? []).map(toTag)))];
+  const projects = [...new Set(sessions.flatMap(session => session.project ? [session.project] : []))];
+  const dayKey = getDayKey(date);
+  const title = new Date(Date.UTC(date.year, date.month - 1, date.day))
+    .toLocaleDateString('en-US', { timeZone: 'UTC', weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
+
+  const lines = [
+    '---',
+    `date: ${dayKey}`,
+    `total_focus: ${JSON.stringify(formatTotalDuration(focusMs))}`,
+    `total_focus_minutes: ${Math.round(focusMs / 60000)}`,
+    `sessions: ${counted.length}`,
+    ...(abandoned > 0 ? [`abandoned: ${abandoned}`] : []),
+    `distractions: ${distractions}`,
+    ...(projects.length > 0 ? ['projects:', ...projects.map(project => `  - ${JSON.stringify(project)}`)] : []),
+    'tags:',
+    ...tags.map(tag => `  - ${JSON.stringify(tag)}`),
+    '---',
+    '',
+    `# Deep work — ${title}`,
+    '',
+    '## Sessions',
+    '',
+    ...(sessions.length > 0 ? sessions.flatMap(session => describeSession(session, timeZone)) : ['_No focus sessions._']),
+    '',
+  ];
+
+  if (notedBreaks.length > 0) {
+    lines.push('## Break notes', '', ...notedBreaks.map(breakItem => describeBreak(breakItem, timeZone)), '');
+  }
+
+  lines.push('## System log', '', systemLog.trim() || '_Nothing logged._', '');
+  return lines.join('\n');
+}
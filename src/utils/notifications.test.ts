@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { notifyIfHidden, setNotificationSound } from './notifications';
+
+// Records every notification shown, with its options
+const shown: { title: string; options: NotificationOptions }[] = [];
+
+const stubNotification = (permission: NotificationPermission) => {
+  vi.stubGlobal('Notification', Object.assign(
+    class {
+      onclick: (() => void) | null = null;
+      constructor(title: string, options: NotificationOptions) {
+        shown.push({ title, options });
+      }
+      close() {}
+    },
+    { permission }
+  ));
+};
+
+const setHidden = (hidden: boolean) => {
+  Object.defineProperty(document, 'hidden', { configurable: true, get: () => hidden });
+};
+
+describe('notifyIfHidden', () => {
+  const playSound = vi.fn();
+
+  beforeEach(() => {
+    shown.length = 0;
+    playSound.mockClear();
+    setNotificationSound(playSound);
+  });
+
+  afterEach(() => {
+    setNotificationSound(null);
+    vi.unstubAllGlobals();
+    setHidden(false);
+  });
+
+  it('should notify with sound when the tab is hidden', () => {
+    stubNotification('granted');
+    setHidden(true);
+
+    expect(notifyIfHidden('Session complete', 'Time for a break.')).toBe(true);
+    expect(shown).toEqual([{ title: 'Session complete', options: expect.objectContaining({ body: 'Time for a break.', silent: false }) }]);
+    expect(playSound).toHaveBeenCalledTimes(1);
+  });
+
+  it('should still play the sound when notifications are not allowed', () => {
+    stubNotification('denied');
+    setHidden(true);
+
+    expect(notifyIfHidden('Session complete', 'Time for a break.')).toBe(false);
+    expect(shown).toEqual([]);
+    expect(playSound).toHaveBeenCalledTimes(1);
+  });
+
+  it('should leave visible tabs to their own cue', () => {
+    stubNotification('granted');
+    setHidden(false);
+
+    expect(notifyIfHidden('Session complete', 'Time for a break.')).toBe(false);
+    expect(shown).toEqual([]);
+    expect(playSound).not.toHaveBeenCalled();
+  });
+});
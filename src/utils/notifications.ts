@@ -0,0 +1,48 @@
+/**
+ * Asks for notification permission once. Call from a user action (session
+ * start) so browsers that require a gesture show the prompt.
+ */
+export function requestNotificationPermission() {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'default') return;
+  Notification.requestPermission().catch((error) => {
+    console.warn('[Notifications] Permission request failed:', error);
+  });
+}
+
+// The app's done sound, registered by the component that owns audio
+let alertSound: (() => void) | null = null;
+
+export function setNotificationSound(play: (() => void) | null) {
+  alertSound = play;
+}
+
+/**
+ * Signals a timer event while the app is hidden: plays the done sound and,
+ * when permitted, shows a system notification. Clicking it focuses the app
+ * and runs `onClick`. Visible tabs play their own cue instead.
+ * @returns Whether a notification was shown
+ */
+export function notifyIfHidden(title: string, body: string, onClick?: () => void): boolean {
+  if (typeof document === 'undefined' || !document.hidden) return false;
+  alertSound?.();
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return false;
+
+  try {
+    const notification = new Notification(title, {
+      body,
+      icon: '/pwa-192x192.png',
+      tag: 'flowship-timer', // Replace rather than stack timer notifications
+      silent: false,
+    });
+    notification.onclick = () => {
+      window.focus();
+      onClick?.();
+      notification.close();
+    };
+    return true;
+  } catch (error) {
+    // Some platforms (Android Chrome) only allow notifications from a service worker
+    console.warn('[Notifications] Failed to show notification:', error);
+    return false;
+  }
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeTags, getProjectSuggestions, getTagSuggestions, getProjectSummaries } from './projects';
+import { SessionData } from '../store/historySlice';
+import { MINUTE, makeSession } from '../test/historyFixtures';
+
+// A focus session at noon UTC on 2024-05-<day> (May 6th is a Monday)
+const sessionOn = (day: number, minutes: number, project?: string, tags?: string[]): SessionData => makeSession({
+  id: `session-${day}-${minutes}-${project}`,
+  timestamp: Date.UTC(2024, 4, day, 12),
+  duration: minutes * MINUTE,
+  project,
+  tags,
+});
+
+describe('projects', () => {
+  it('should trim, strip # and de-duplicate tags', () => {
+    expect(normalizeTags([' #writing', 'Writing', '', '##research ', 'code'])).toEqual(['writing', 'research', 'code']);
+  });
+
+  it('should suggest the most used values first', () => {
+    const history = [
+      sessionOn(7, 30, 'Thesis', ['writing']),
+      sessionOn(6, 30, 'App', ['code', 'writing']),
+      sessionOn(5, 30, 'App', ['code']),
+      sessionOn(4, 30),
+    ];
+
+    expect(getProjectSuggestions(history)).toEqual(['App', 'Thesis']);
+    expect(getTagSuggestions(history)).toEqual(['writing', 'code']);
+  });
+
+  it('should compare this week against the budget share due so far', () => {
+    const history = [
+      sessionOn(8, 120, 'App'),
+      sessionOn(7, 240, 'Thesis'),
+      sessionOn(1, 600, 'Thesis'), // Previous week
+      sessionOn(6, 30, 'Side'),
+    ];
+    // Thursday at noon: half of the week has passed
+    const now = Date.UTC(2024, 4, 9, 12);
+
+    const summaries = getProjectSummaries(history, { App: 600, Thesis: 180, Reading: 60 }, now, 'UTC');
+    const byProject = Object.fromEntries(summaries.map(summary => [summary.project, summary]));
+
+    expect(summaries.map(summary => summary.project)).toEqual(['App', 'Thesis', 'Side', 'Reading']);
+    expect(byProject.App.status).toBe('behind');
+    expect(byProject.App.expectedMs).toBe(300 * MINUTE);
+    expect(byProject.Thesis).toMatchObject({ status: 'over', weekMs: 240 * MINUTE, totalMs: 840 * MINUTE, sessionCount: 2 });
+    expect(byProject.Side).toMatchObject({ status: 'none', budgetMs: null });
+    expect(byProject.Reading).toMatchObject({ status: 'behind', sessionCount: 0, weekMs: 0 });
+  });
+});
@@ -0,0 +1,107 @@
+import { PROJECT_BUDGET_PACE_TOLERANCE } from '../constants';
+import { isSessionData, HistoryItem, SessionData } from '../store/historySlice';
+import { getWeeklyStats, getRecentPeriods, getSystemTimeZone } from './stats';
+
+/**
+ * Projects and tags on sessions: autocomplete suggestions and per-project
+ * totals against optional weekly time budgets. Weeks are ISO weeks in the
+ * given time zone, like the statistics engine.
+ */
+
+export type BudgetStatus = 'none' | 'on-track' | 'behind' | 'over';
+
+export interface ProjectSummary {
+  project: string;
+  totalMs: number;
+  sessionCount: number;
+  weekMs: number; // Focus in the current week
+  budgetMs: number | null; // Weekly budget
+  expectedMs: number | null; // Budget share due by now at an even pace
+  status: BudgetStatus;
+  lastUsedAt: number;
+}
+
+// Trimmed, de-duplicated tags without a leading '#'
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const raw of tags) {
+    const tag = raw.trim().replace(/^#+/, '').trim();
+    if (tag && !seen.has(tag.toLowerCase())) {
+      seen.add(tag.toLowerCase());
+      result.push(tag);
+    }
+  }
+  return result;
+}
+
+// Values from past sessions, most used first (ties: most recent first)
+const rankValues = (sessions: SessionData[], valuesOf: (session: SessionData) => string[]) => {
+  const stats = new Map<string, { count: number; lastUsedAt: number }>();
+  for (const session of sessions) {
+    for (const value of valuesOf(session)) {
+      const entry = stats.get(value) ?? { count: 0, lastUsedAt: 0 };
+      entry.count += 1;
+      entry.lastUsedAt = Math.max(entry.lastUsedAt, session.timestamp);
+      stats.set(value, entry);
+    }
+  }
+  return [...stats.entries()]
+    .sort(([, a], [, b]) => b.count - a.count || b.lastUsedAt - a.lastUsedAt)
+    .map(([value]) => value);
+};
+
+export function getProjectSuggestions(history: HistoryItem[]): string[] {
+  return rankValues(history.filter(isSessionData), session => session.project ? [session.project] : []);
+}
+
+export function getTagSuggestions(history: HistoryItem[]): string[] {
+  return rankValues(history.filter(isSessionData), session => session.tags ?? []);
+}
+
+/**
+ * Totals per project, most recently used first, with the current week's focus
+ * compared to its weekly budget. "Behind" means more than the tolerance below
+ * the budget share due so far this week.
+ */
+export function getProjectSummaries(
+  history: HistoryItem[],
+  budgets: Record<string, number>, // Weekly budget in minutes per project
+  now: number = Date.now(),
+  timeZone: string = getSystemTimeZone()
+): ProjectSummary[] {
+  const byProject = new Map<string, SessionData[]>();
+  for (const item of history) {
+    if (!isSessionData(item) || !item.project) continue;
+    byProject.set(item.project, [...(byProject.get(item.project) ?? []), item]);
+  }
+  // Budgeted projects show up before their first session
+  for (const project of Object.keys(budgets)) {
+    if (!byProject.has(project)) byProject.set(project, []);
+  }
+
+  const weekStart = getRecentPeriods([], 'week', 1, now, { timeZone })[0].start;
+  const weekFraction = Math.min(1, Math.max(0, (now - weekStart) / (7 * 24 * 3600000)));
+
+  return [...byProject.entries()].map(([project, sessions]): ProjectSummary => {
+    const currentWeek = getRecentPeriods(getWeeklyStats(sessions, { timeZone }), 'week', 1, now, { timeZone })[0];
+    const budgetMs = budgets[project] ? budgets[project] * 60000 : null;
+    const expectedMs = budgetMs !== null ? budgetMs * weekFraction : null;
+    let status: BudgetStatus = 'none';
+    if (budgetMs !== null && expectedMs !== null) {
+      if (currentWeek.focusMs > budgetMs) status = 'over';
+      else if (currentWeek.focusMs < expectedMs * (1 - PROJECT_BUDGET_PACE_TOLERANCE)) status = 'behind';
+      else status = 'on-track';
+    }
+    return {
+      project,
+      totalMs: sessions.reduce((total, session) => total + session.duration, 0),
+      sessionCount: sessions.length,
+      weekMs: currentWeek.focusMs,
+      budgetMs,
+      expectedMs,
+      status,
+      lastUsedAt: Math.max(0, ...sessions.map(session => session.timestamp)),
+    };
+  }).sort((a, b) => b.lastUsedAt - a.lastUsedAt || a.project.localeCompare(b.project));
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { getDailyStats, getWeeklyStats, getMonthlyStats, getRecentPeriods, getZonedMidnight } from './stats';
+import { SessionData, BreakData, HistoryItem } from '../store/historySlice';
+import { SESSION_OUTCOME, DIFFICULTY, BREAK_OUTCOME } from '../constants';
+import { MINUTE, makeSession, makeBreak } from '../test/historyFixtures';
+
+const NEW_YORK = { timeZone: 'America/New_York' };
+const UTC = { timeZone: 'UTC' };
+
+const session = (id: string, timestamp: number, minutes: number, extra: Partial<SessionData> = {}): SessionData =>
+  makeSession({ id, timestamp, duration: minutes * MINUTE, ...extra });
+
+const breakItem = (id: string, start: number, minutes: number): BreakData => makeBreak({
+  id,
+  start,
+  end: start + minutes * MINUTE,
+  plannedDurationMs: minutes * MINUTE,
+  isLongBreak: false,
+  outcome: BREAK_OUTCOME.ON_TIME,
+});
+
+describe('stats', () => {
+  it('should aggregate sessions and breaks per local day', () => {
+    const monday = Date.UTC(2024, 4, 6, 14); // 10:00 in New York
+    const history: HistoryItem[] = [
+      session('a', monday, 50, { distractions: 3, difficulty: DIFFICULTY.HARD }),
+      breakItem('b', monday + 50 * MINUTE, 10),
+      session('c', monday + 60 * MINUTE, 25, { distractions: 1 }),
+    ];
+
+    const [day] = getDailyStats(history, NEW_YORK);
+
+    expect(day.key).toBe('2024-05-06');
+    expect(day.start).toBe(Date.UTC(2024, 4, 6, 4));
+    expect(day.focusMs).toBe(75 * MINUTE);
+    expect(day.breakMs).toBe(10 * MINUTE);
+    expect(day.sessionCount).toBe(2);
+    expect(day.avgDistractions).toBe(2);
+    expect(day.difficultyMix).toEqual({ easy: 0, medium: 1, hard: 1 });
+    expect(day.focusBreakRatio).toBe(7.5);
+  });
+
+  it('should count abandoned sessions apart from focus', () => {
+    const monday = Date.UTC(2024, 4, 6, 14);
+    const history = [
+      session('a', monday, 10, { outcome: SESSION_OUTCOME.ABANDONED, distractions: 4 }),
+      session('b', monday + 20 * MINUTE, 25, { outcome: SESSION_OUTCOME.ENDED_EARLY }),
+    ];
+
+    const [day] = getDailyStats(history, NEW_YORK);
+    const [week] = getWeeklyStats(history, NEW_YORK);
+
+    expect(day).toMatchObject({ focusMs: 25 * MINUTE, sessionCount: 1, distractions: 0, abandonedCount: 1, abandonedMs: 10 * MINUTE });
+    expect(week).toMatchObject({ sessionCount: 1, abandonedCount: 1, abandonedMs: 10 * MINUTE });
+  });
+
+  it('should split a session crossing local midnight, skipping its pauses', () => {
+    const lateEvening = Date.UTC(2024, 4, 6, 23, 30); // 23:30 UTC
+    const history = [
+      session('a', lateEvening, 60, {
+        pauseLog: [{ start: lateEvening + 10 * MINUTE, end: lateEvening + 20 * MINUTE }],
+        pausedMs: 10 * MINUTE,
+      }),
+    ];
+
+    const days = getDailyStats(history, UTC);
+
+    expect(days.map(day => [day.key, day.focusMs / MINUTE, day.sessionCount])).toEqual([
+      ['2024-05-06', 20, 1],
+      ['2024-05-07', 40, 0],
+    ]);
+  });
+
+  it('should use the given time zone for day boundaries', () => {
+    const history = [session('a', Date.UTC(2024, 4, 7, 2), 30)]; // 22:00 the day before in New York
+
+    expect(getDailyStats(history, UTC)[0].key).toBe('2024-05-07');
+    expect(getDailyStats(history, NEW_YORK)[0].key).toBe('2024-05-06');
+  });
+
+  it('should find local midnight across daylight saving changes', () => {
+    expect(getZonedMidnight({ year: 2024, month: 3, day: 10 }, 'America/New_York')).toBe(Date.UTC(2024, 2, 10, 5));
+    expect(getZonedMidnight({ year: 2024, month: 3, day: 11 }, 'America/New_York')).toBe(Date.UTC(2024, 2, 11, 4));
+  });
+
+  it('should roll days up into ISO weeks and months', () => {
+    const history = [
+      session('a', Date.UTC(2024, 11, 30, 12), 30), // Monday of 2025-W01
+      session('b', Date.UTC(2025, 0, 5, 12), 20), // Sunday of 2025-W01
+      session('c', Date.UTC(2025, 0, 6, 12), 10),
+    ];
+
+    expect(getWeeklyStats(history, UTC).map(week => [week.key, week.focusMs / MINUTE])).toEqual([
+      ['2025-W01', 50],
+      ['2025-W02', 10],
+    ]);
+    expect(getMonthlyStats(history, UTC).map(month => [month.key, month.sessionCount])).toEqual([
+      ['2024-12', 1],
+      ['2025-01', 2],
+    ]);
+  });
+
+  it('should fill empty periods up to now', () => {
+    const now = Date.UTC(2024, 4, 8, 12);
+    const daily = getDailyStats([session('a', Date.UTC(2024, 4, 6, 12), 30)], UTC);
+
+    const recent = getRecentPeriods(daily, 'day', 3, now, UTC);
+
+    expect(recent.map(day => [day.key, day.focusMs / MINUTE])).toEqual([
+      ['2024-05-06', 30],
+      ['2024-05-07', 0],
+      ['2024-05-08', 0],
+    ]);
+    expect(getRecentPeriods([], 'month', 2, now, UTC).map(month => month.key)).toEqual(['2024-04', '2024-05']);
+  });
+});
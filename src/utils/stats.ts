@@ -0,0 +1,280 @@
+import { DIFFICULTY } from '../constants';
+import { isSessionData, isBreakData, isAbandonedSession, HistoryItem, SessionData } from '../store/historySlice';
+
+type Difficulty = typeof DIFFICULTY[keyof typeof DIFFICULTY];
+
+/**
+ * Statistics over session history.
+ *
+ * Days are calendar days in the given IANA time zone (the browser's by
+ * default). Focus and break time is split at local midnight, so a session from
+ * 23:30 to 00:30 counts 30 minutes on each day. Session counts, distractions
+ * and difficulty belong to the day the session started. Weeks are ISO weeks
+ * (Monday first).
+ */
+
+export interface StatsOptions {
+  timeZone?: string;
+}
+
+export interface PeriodStats {
+  key: string; // 2024-05-06, 2024-W19 or 2024-05
+  start: number; // Local midnight the period starts at
+  focusMs: number;
+  breakMs: number;
+  sessionCount: number; // Abandoned sessions excluded
+  abandonedCount: number;
+  abandonedMs: number; // Focus spent on abandoned sessions, not part of focusMs
+  distractions: number;
+  avgDistractions: number;
+  difficultyMix: Record<Difficulty, number>; // Sessions per difficulty
+  focusBreakRatio: number | null; // Focus per unit of break, null without breaks
+}
+
+export type StatsPeriod = 'day' | 'week' | 'month';
+
+export interface CalendarDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+export const getSystemTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+const getFormatter = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric', month: 'numeric', day: 'numeric',
+      hour: 'numeric', minute: 'numeric', second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+// Wall-clock parts of an instant in a time zone
+const getZonedParts = (timestamp: number, timeZone: string) => {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(new Date(timestamp))) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return parts;
+};
+
+export const getCalendarDate = (timestamp: number, timeZone: string): CalendarDate => {
+  const { year, month, day } = getZonedParts(timestamp, timeZone);
+  return { year, month, day };
+};
+
+// Offset of the zone from UTC at an instant, in ms
+const getZoneOffset = (timestamp: number, timeZone: string) => {
+  const p = getZonedParts(timestamp, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(timestamp / 1000) * 1000;
+};
+
+// Instant of a wall-clock time on a calendar date (refined once for DST changes)
+export const getZonedTimestamp = (
+  { year, month, day }: CalendarDate,
+  timeZone: string,
+  hour = 0,
+  minute = 0,
+  second = 0
+): number => {
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  const guess = asUtc - getZoneOffset(asUtc, timeZone);
+  return asUtc - getZoneOffset(guess, timeZone);
+};
+
+// Instant of local midnight on a calendar date
+export const getZonedMidnight = (date: CalendarDate, timeZone: string): number => getZonedTimestamp(date, timeZone);
+
+// Pure calendar arithmetic, independent of any time zone
+export const addDays = ({ year, month, day }: CalendarDate, days: number): CalendarDate => {
+  const date = new Date(Date.UTC(year, month - 1, day + days));
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const getDayKey = ({ year, month, day }: CalendarDate) => `${year}-${pad(month)}-${pad(day)}`;
+
+export const parseDayKey = (key: string): CalendarDate => {
+  const [year, month, day] = key.split('-').map(Number);
+  return { year, month, day };
+};
+
+// Day of the week, Monday = 0
+export const getWeekday = ({ year, month, day }: CalendarDate) => (new Date(Date.UTC(year, month - 1, day)).getUTCDay() + 6) % 7;
+
+// Monday of the ISO week and its label
+const getIsoWeek = (date: CalendarDate) => {
+  const monday = addDays(date, -getWeekday(date));
+  const thursday = addDays(monday, 3); // The week belongs to the year of its Thursday
+  const dayOfYear = (Date.UTC(thursday.year, thursday.month - 1, thursday.day) - Date.UTC(thursday.year, 0, 1)) / 86400000;
+  return { monday, key: `${thursday.year}-W${pad(Math.floor(dayOfYear / 7) + 1)}` };
+};
+
+const emptyDifficultyMix = (): Record<Difficulty, number> => ({
+  [DIFFICULTY.EASY]: 0,
+  [DIFFICULTY.MEDIUM]: 0,
+  [DIFFICULTY.HARD]: 0,
+});
+
+const emptyPeriod = (key: string, start: number): PeriodStats => ({
+  key,
+  start,
+  focusMs: 0,
+  breakMs: 0,
+  sessionCount: 0,
+  abandonedCount: 0,
+  abandonedMs: 0,
+  distractions: 0,
+  avgDistractions: 0,
+  difficultyMix: emptyDifficultyMix(),
+  focusBreakRatio: null,
+});
+
+// Focused wall-clock intervals of a session: its span minus pauses
+const getFocusIntervals = (session: SessionData): [number, number][] => {
+  const pauses = [...(session.pauseLog ?? [])].sort((a, b) => a.start - b.start);
+  const end = session.timestamp + session.duration + (session.pausedMs ?? 0);
+  const intervals: [number, number][] = [];
+  let cursor = session.timestamp;
+  for (const pause of pauses) {
+    if (pause.start > cursor) intervals.push([cursor, Math.min(pause.start, end)]);
+    cursor = Math.max(cursor, pause.end);
+  }
+  if (cursor < end) intervals.push([cursor, end]);
+  return intervals;
+};
+
+// Split intervals at local midnights, weighting so the parts add up to totalMs
+const splitByDay = (intervals: [number, number][], totalMs: number, timeZone: string) => {
+  const perDay = new Map<string, number>();
+  let spanMs = 0;
+  for (const [start, end] of intervals) {
+    let cursor = start;
+    while (cursor < end) {
+      const date = getCalendarDate(cursor, timeZone);
+      const segmentEnd = Math.min(end, getZonedMidnight(addDays(date, 1), timeZone));
+      const key = getDayKey(date);
+      perDay.set(key, (perDay.get(key) ?? 0) + segmentEnd - cursor);
+      spanMs += segmentEnd - cursor;
+      cursor = segmentEnd;
+    }
+  }
+  if (spanMs > 0 && spanMs !== totalMs) {
+    perDay.forEach((ms, key) => perDay.set(key, ms * totalMs / spanMs));
+  }
+  return perDay;
+};
+
+const finalize = (period: PeriodStats): PeriodStats => ({
+  ...period,
+  avgDistractions: period.sessionCount > 0 ? period.distractions / period.sessionCount : 0,
+  focusBreakRatio: period.breakMs > 0 ? period.focusMs / period.breakMs : null,
+});
+
+/**
+ * Per-day statistics, oldest first. Only days with activity are included.
+ */
+export function getDailyStats(history: HistoryItem[], { timeZone = getSystemTimeZone() }: StatsOptions = {}): PeriodStats[] {
+  const days = new Map<string, PeriodStats>();
+  const dayFor = (key: string) => {
+    let period = days.get(key);
+    if (!period) {
+      period = emptyPeriod(key, getZonedMidnight(parseDayKey(key), timeZone));
+      days.set(key, period);
+    }
+    return period;
+  };
+
+  for (const item of history) {
+    if (isSessionData(item) && isAbandonedSession(item)) {
+      splitByDay(getFocusIntervals(item), item.duration, timeZone)
+        .forEach((ms, key) => { dayFor(key).abandonedMs += ms; });
+      dayFor(getDayKey(getCalendarDate(item.timestamp, timeZone))).abandonedCount += 1;
+    } else if (isSessionData(item)) {
+      splitByDay(getFocusIntervals(item), item.duration, timeZone)
+        .forEach((ms, key) => { dayFor(key).focusMs += ms; });
+      const day = dayFor(getDayKey(getCalendarDate(item.timestamp, timeZone)));
+      day.sessionCount += 1;
+      day.distractions += item.distractions;
+      day.difficultyMix[item.difficulty ?? DIFFICULTY.MEDIUM] += 1;
+    } else if (isBreakData(item) && item.end !== null) {
+      splitByDay([[item.start, item.end]], item.durationMs, timeZone)
+        .forEach((ms, key) => { dayFor(key).breakMs += ms; });
+    }
+  }
+
+  return [...days.values()].map(finalize).sort((a, b) => a.start - b.start);
+}
+
+// Roll daily stats up into weeks or months
+const rollUp = (daily: PeriodStats[], period: Exclude<StatsPeriod, 'day'>, timeZone: string): PeriodStats[] => {
+  const periods = new Map<string, PeriodStats>();
+  for (const day of daily) {
+    const date = parseDayKey(day.key);
+    const { key, first } = period === 'week'
+      ? (({ key, monday }) => ({ key, first: monday }))(getIsoWeek(date))
+      : { key: `${date.year}-${pad(date.month)}`, first: { ...date, day: 1 } };
+    let target = periods.get(key);
+    if (!target) {
+      target = emptyPeriod(key, getZonedMidnight(first, timeZone));
+      periods.set(key, target);
+    }
+    target.focusMs += day.focusMs;
+    target.breakMs += day.breakMs;
+    target.sessionCount += day.sessionCount;
+    target.abandonedCount += day.abandonedCount;
+    target.abandonedMs += day.abandonedMs;
+    target.distractions += day.distractions;
+    for (const level of Object.values(DIFFICULTY)) target.difficultyMix[level] += day.difficultyMix[level];
+  }
+  return [...periods.values()].map(finalize).sort((a, b) => a.start - b.start);
+};
+
+export function getWeeklyStats(history: HistoryItem[], { timeZone = getSystemTimeZone() }: StatsOptions = {}): PeriodStats[] {
+  return rollUp(getDailyStats(history, { timeZone }), 'week', timeZone);
+}
+
+export function getMonthlyStats(history: HistoryItem[], { timeZone = getSystemTimeZone() }: StatsOptions = {}): PeriodStats[] {
+  return rollUp(getDailyStats(history, { timeZone }), 'month', timeZone);
+}
+
+/**
+ * The last `count` periods up to and including the one containing `now`,
+ * oldest first, with empty periods filled in.
+ */
+export function getRecentPeriods(
+  stats: PeriodStats[],
+  period: StatsPeriod,
+  count: number,
+  now: number = Date.now(),
+  { timeZone = getSystemTimeZone() }: StatsOptions = {}
+): PeriodStats[] {
+  const byKey = new Map(stats.map(entry => [entry.key, entry]));
+  const today = getCalendarDate(now, timeZone);
+  const result: PeriodStats[] = [];
+  for (let i = count - 1; i >= 0; i--) {
+    let key: string;
+    let first: CalendarDate;
+    if (period === 'day') {
+      first = addDays(today, -i);
+      key = getDayKey(first);
+    } else if (period === 'week') {
+      ({ key, monday: first } = getIsoWeek(addDays(today, -7 * i)));
+    } else {
+      const monthIndex = today.year * 12 + (today.month - 1) - i;
+      first = { year: Math.floor(monthIndex / 12), month: (monthIndex % 12) + 1, day: 1 };
+      key = `${first.year}-${pad(first.month)}`;
+    }
+    result.push(byKey.get(key) ?? emptyPeriod(key, getZonedMidnight(first, timeZone)));
+  }
+  return result;
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { getDailyStreak } from './streaks';
+import { SessionData } from '../store/historySlice';
+import { SESSION_OUTCOME } from '../constants';
+import { MINUTE, makeSession } from '../test/historyFixtures';
+
+// A focus session at noon UTC on 2024-05-<day> (May 6th is a Monday)
+const sessionOn = (day: number, minutes = 30): SessionData =>
+  makeSession({ id: `session-${day}-${minutes}`, timestamp: Date.UTC(2024, 4, day, 12), duration: minutes * MINUTE });
+
+const options = (day: number, extra = {}) => ({
+  minFocusMinutes: 25,
+  timeZone: 'UTC',
+  now: Date.UTC(2024, 4, day, 18),
+  ...extra,
+});
+
+describe('getDailyStreak', () => {
+  it('should count consecutive qualifying days and keep the longest run', () => {
+    const history = [1, 2, 3, 5, 6].map(day => sessionOn(day));
+
+    const streak = getDailyStreak(history, options(6, { useFreezeTokens: false }));
+
+    expect(streak.current).toBe(2);
+    expect(streak.longest).toBe(3);
+    expect(streak.todayMet).toBe(true);
+  });
+
+  it('should not break the streak before today is over', () => {
+    const history = [sessionOn(5), sessionOn(6), sessionOn(7, 10)];
+
+    const streak = getDailyStreak(history, options(7));
+
+    expect(streak.current).toBe(2);
+    expect(streak.todayMet).toBe(false);
+    expect(streak.todayMinutes).toBe(10);
+  });
+
+  it('should not count abandoned sessions towards the daily minimum', () => {
+    const history = [{ ...sessionOn(7, 40), outcome: SESSION_OUTCOME.ABANDONED }, sessionOn(6)];
+
+    const streak = getDailyStreak(history, options(7));
+
+    expect(streak.current).toBe(1);
+    expect(streak.todayMinutes).toBe(0);
+    expect(streak.abandonedToday).toBe(1);
+  });
+
+  it('should skip rest days without breaking the streak', () => {
+    // Friday 10th, rest on Saturday 11th and Sunday 12th, Monday 13th
+    const history = [sessionOn(9), sessionOn(10), sessionOn(13)];
+
+    expect(getDailyStreak(history, options(13, { restDays: [5, 6] })).current).toBe(3);
+    expect(getDailyStreak(history, options(13, { useFreezeTokens: false })).current).toBe(1);
+  });
+
+  it('should spend an earned freeze token on a missed day', () => {
+    const history = [1, 2, 3, 4, 5, 6, 7, 9].map(day => sessionOn(day));
+
+    const streak = getDailyStreak(history, options(9));
+
+    expect(streak.current).toBe(8);
+    expect(streak.frozenDays).toEqual(['2024-05-08']);
+    expect(streak.freezeTokens).toBe(0);
+  });
+
+  it('should count days in the configured time zone', () => {
+    // 23:00 and 00:30 UTC, the same evening in New York
+    const history = [
+      { ...sessionOn(6), timestamp: Date.UTC(2024, 4, 6, 23) },
+      { ...sessionOn(7), timestamp: Date.UTC(2024, 4, 7, 0, 30) },
+    ];
+
+    expect(getDailyStreak(history, options(7, { useFreezeTokens: false })).current).toBe(2);
+    expect(getDailyStreak(history, options(7, { timeZone: 'America/New_York' })).current).toBe(1);
+  });
+});
@@ -0,0 +1,94 @@
+import { DAILY_STREAK_FREEZE_EARN_DAYS } from '../constants';
+import { HistoryItem } from '../store/historySlice';
+import {
+  getDailyStats,
+  getCalendarDate,
+  getDayKey,
+  parseDayKey,
+  addDays,
+  getWeekday,
+  getSystemTimeZone
+} from './stats';
+
+/**
+ * Daily streaks: consecutive calendar days with at least `minFocusMinutes` of
+ * focus. Derived from history on every call, so edits and imports always give
+ * a consistent result.
+ *
+ * - Rest days (weekdays, Monday = 0) neither break nor extend a streak; focus
+ *   on a rest day still counts.
+ * - Freeze tokens are earned every DAILY_STREAK_FREEZE_EARN_DAYS qualifying
+ *   days and spent automatically on the next missed day.
+ * - Today never breaks the streak; it only extends it once the minimum is met.
+ * - Abandoned sessions never count towards the minimum; they are reported
+ *   separately.
+ */
+
+export interface DailyStreakOptions {
+  minFocusMinutes: number;
+  restDays?: number[];
+  useFreezeTokens?: boolean;
+  timeZone?: string;
+  now?: number;
+}
+
+export interface DailyStreak {
+  current: number;
+  longest: number;
+  todayMinutes: number;
+  todayMet: boolean;
+  abandonedToday: number; // Sessions abandoned today
+  isRestDay: boolean; // Today is a rest day
+  freezeTokens: number; // Earned and not yet spent
+  frozenDays: string[]; // Missed days covered by a token (YYYY-MM-DD)
+}
+
+export function getDailyStreak(history: HistoryItem[], {
+  minFocusMinutes,
+  restDays = [],
+  useFreezeTokens = true,
+  timeZone = getSystemTimeZone(),
+  now = Date.now(),
+}: DailyStreakOptions): DailyStreak {
+  const minFocusMs = Math.max(1, minFocusMinutes) * 60000;
+  const daily = getDailyStats(history, { timeZone });
+  const focusByDay = new Map(daily.map(day => [day.key, day.focusMs]));
+  const todayKey = getDayKey(getCalendarDate(now, timeZone));
+  const today = parseDayKey(todayKey);
+  const todayMs = focusByDay.get(todayKey) ?? 0;
+
+  const result: DailyStreak = {
+    current: 0,
+    longest: 0,
+    todayMinutes: Math.floor(todayMs / 60000),
+    todayMet: todayMs >= minFocusMs,
+    abandonedToday: daily.find(day => day.key === todayKey)?.abandonedCount ?? 0,
+    isRestDay: restDays.includes(getWeekday(today)),
+    freezeTokens: 0,
+    frozenDays: [],
+  };
+
+  const qualifyingKeys = [...focusByDay.keys()].filter(key => focusByDay.get(key)! >= minFocusMs && key <= todayKey).sort();
+  if (qualifyingKeys.length === 0) return result;
+
+  let qualifyingDays = 0;
+  // Walk every day from the first qualifying one up to today
+  for (let date = parseDayKey(qualifyingKeys[0]); getDayKey(date) <= todayKey; date = addDays(date, 1)) {
+    const key = getDayKey(date);
+    if ((focusByDay.get(key) ?? 0) >= minFocusMs) {
+      result.current += 1;
+      qualifyingDays += 1;
+      if (qualifyingDays % DAILY_STREAK_FREEZE_EARN_DAYS === 0) result.freezeTokens += 1;
+    } else if (key === todayKey || restDays.includes(getWeekday(date))) {
+      continue;
+    } else if (useFreezeTokens && result.freezeTokens > 0) {
+      result.freezeTokens -= 1;
+      result.frozenDays.push(key);
+    } else {
+      result.current = 0;
+    }
+    result.longest = Math.max(result.longest, result.current);
+  }
+
+  return result;
+}
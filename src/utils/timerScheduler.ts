@@ -0,0 +1,21 @@
+/**
+ * Calls `onTick` every `intervalMs` from a dedicated worker so hidden tabs keep
+ * an accurate pace. Falls back to a main-thread interval where workers are
+ * unavailable (tests, very old browsers).
+ * @returns A function that stops the ticker
+ */
+export function startTicker(onTick: () => void, intervalMs: number): () => void {
+  if (typeof Worker !== 'undefined') {
+    try {
+      const worker = new Worker(new URL('../workers/timerWorker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = () => onTick();
+      worker.postMessage({ type: 'start', intervalMs });
+      return () => worker.terminate();
+    } catch (error) {
+      console.warn('[TimerScheduler] Worker unavailable, using setInterval:', error);
+    }
+  }
+
+  const intervalId = setInterval(onTick, intervalMs);
+  return () => clearInterval(intervalId);
+}
@@ -0,0 +1,27 @@
+/**
+ * Timer worker
+ * Dedicated workers are not throttled like timers in hidden tabs, so the
+ * session countdown keeps ticking once per interval while the app is hidden.
+ */
+
+type TimerWorkerMessage =
+  | { type: 'start'; intervalMs: number }
+  | { type: 'stop' };
+
+let intervalId: ReturnType<typeof setInterval> | null = null;
+
+const stopInterval = () => {
+  if (intervalId !== null) {
+    clearInterval(intervalId);
+    intervalId = null;
+  }
+};
+
+self.onmessage = (e: MessageEvent<TimerWorkerMessage>) => {
+  stopInterval();
+  if (e.data.type === 'start') {
+    intervalId = setInterval(() => self.postMessage({ type: 'tick' }), e.data.intervalMs);
+  }
+};
+
+export {};